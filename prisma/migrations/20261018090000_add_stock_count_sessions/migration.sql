@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "stock_counts" ADD COLUMN     "session_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "stock_count_sessions" (
+    "id" TEXT NOT NULL,
+    "session_number" TEXT NOT NULL,
+    "warehouse_id" TEXT NOT NULL,
+    "aisle" TEXT,
+    "category_id" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "opened_by_id" TEXT NOT NULL,
+    "reviewed_by_id" TEXT,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMP(3),
+    "notes" TEXT,
+
+    CONSTRAINT "stock_count_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_count_sessions_session_number_key" ON "stock_count_sessions"("session_number");
+
+-- AddForeignKey
+ALTER TABLE "stock_count_sessions" ADD CONSTRAINT "stock_count_sessions_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_sessions" ADD CONSTRAINT "stock_count_sessions_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_sessions" ADD CONSTRAINT "stock_count_sessions_opened_by_id_fkey" FOREIGN KEY ("opened_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_sessions" ADD CONSTRAINT "stock_count_sessions_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_counts" ADD CONSTRAINT "stock_counts_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "stock_count_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "system_settings" ADD COLUMN     "value_type" TEXT NOT NULL DEFAULT 'STRING';
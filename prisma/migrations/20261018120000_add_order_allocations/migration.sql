@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "warehouses" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "shipping_latitude" DOUBLE PRECISION,
+ADD COLUMN     "shipping_longitude" DOUBLE PRECISION,
+ADD COLUMN     "allocation_strategy" TEXT,
+ADD COLUMN     "allow_backorder" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "allow_split" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "reserved_quantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "backordered_quantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "order_allocations" (
+    "id" TEXT NOT NULL,
+    "order_item_id" TEXT NOT NULL,
+    "warehouse_id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_allocations_order_item_id_warehouse_id_key" ON "order_allocations"("order_item_id", "warehouse_id");
+
+-- AddForeignKey
+ALTER TABLE "order_allocations" ADD CONSTRAINT "order_allocations_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_allocations" ADD CONSTRAINT "order_allocations_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing orders reserved their full quantity at the fulfillment warehouse
+INSERT INTO "order_allocations" ("id", "order_item_id", "warehouse_id", "quantity", "updated_at")
+SELECT 'alloc_' || oi."id", oi."id", o."fulfillment_warehouse_id", oi."quantity", CURRENT_TIMESTAMP
+FROM "order_items" oi
+JOIN "orders" o ON o."id" = oi."order_id"
+WHERE o."fulfillment_warehouse_id" IS NOT NULL
+  AND o."status" IN ('NEW', 'PROCESSING', 'PICKING', 'PACKED');
+
+UPDATE "order_items" oi SET "reserved_quantity" = oi."quantity", "status" = CASE WHEN oi."status" = 'PENDING' THEN 'RESERVED' ELSE oi."status" END
+FROM "orders" o
+WHERE o."id" = oi."order_id"
+  AND o."fulfillment_warehouse_id" IS NOT NULL
+  AND o."status" IN ('NEW', 'PROCESSING', 'PICKING', 'PACKED');
+
+-- Shipped orders never gave their reservation back, and without an allocation nothing
+-- ever would; return those units to available stock
+UPDATE "inventory" i SET "reserved" = GREATEST(i."reserved" - s."quantity", 0),
+  "available" = i."quantity" - GREATEST(i."reserved" - s."quantity", 0)
+FROM (
+  SELECT o."fulfillment_warehouse_id" AS "warehouse_id", oi."product_id", SUM(oi."quantity") AS "quantity"
+  FROM "order_items" oi
+  JOIN "orders" o ON o."id" = oi."order_id"
+  WHERE o."fulfillment_warehouse_id" IS NOT NULL
+    AND o."status" IN ('SHIPPED', 'DELIVERED', 'RETURNED')
+  GROUP BY o."fulfillment_warehouse_id", oi."product_id"
+) s
+WHERE i."warehouse_id" = s."warehouse_id"
+  AND i."product_id" = s."product_id";
@@ -0,0 +1,76 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "picked_quantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "packed_quantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "shipped_quantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_allocations" ADD COLUMN     "picked_quantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "packed_quantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "shipments" (
+    "id" TEXT NOT NULL,
+    "shipment_number" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "warehouse_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PACKED',
+    "packed_by_id" TEXT NOT NULL,
+    "packed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "shipped_at" TIMESTAMP(3),
+    "transaction_id" TEXT,
+    "notes" TEXT,
+
+    CONSTRAINT "shipments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shipment_items" (
+    "id" TEXT NOT NULL,
+    "shipment_id" TEXT NOT NULL,
+    "order_item_id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "shipment_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipments_shipment_number_key" ON "shipments"("shipment_number");
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_packed_by_id_fkey" FOREIGN KEY ("packed_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment_items" ADD CONSTRAINT "shipment_items_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment_items" ADD CONSTRAINT "shipment_items_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Orders already PACKED were packed as a whole at their fulfillment warehouse
+UPDATE "order_allocations" oa SET "picked_quantity" = oa."quantity", "packed_quantity" = oa."quantity"
+FROM "order_items" oi
+JOIN "orders" o ON o."id" = oi."order_id"
+WHERE oi."id" = oa."order_item_id" AND o."status" = 'PACKED';
+
+UPDATE "order_items" oi SET "picked_quantity" = oi."reserved_quantity", "packed_quantity" = oi."reserved_quantity", "status" = 'PACKED'
+FROM "orders" o
+WHERE o."id" = oi."order_id" AND o."status" = 'PACKED';
+
+INSERT INTO "shipments" ("id", "shipment_number", "order_id", "warehouse_id", "status", "packed_by_id")
+SELECT 'shp_' || o."id", 'SHP-' || o."order_number", o."id", o."fulfillment_warehouse_id", 'PACKED', COALESCE(o."fulfilled_by_id", o."created_by_id")
+FROM "orders" o
+WHERE o."status" = 'PACKED' AND o."fulfillment_warehouse_id" IS NOT NULL;
+
+INSERT INTO "shipment_items" ("id", "shipment_id", "order_item_id", "quantity")
+SELECT 'shpi_' || oi."id", 'shp_' || o."id", oi."id", oi."packed_quantity"
+FROM "order_items" oi
+JOIN "orders" o ON o."id" = oi."order_id"
+WHERE o."status" = 'PACKED' AND o."fulfillment_warehouse_id" IS NOT NULL AND oi."packed_quantity" > 0;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "shipments" ADD COLUMN     "carrier" TEXT,
+ADD COLUMN     "tracking_number" TEXT,
+ADD COLUMN     "delivered_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "shipments_tracking_number_idx" ON "shipments"("tracking_number");
@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "returned_quantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "outside_stock" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "return_authorizations" (
+    "id" TEXT NOT NULL,
+    "rma_number" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "warehouse_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'REQUESTED',
+    "reason" TEXT,
+    "notes" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "inspected_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "received_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "return_authorizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "return_items" (
+    "id" TEXT NOT NULL,
+    "return_id" TEXT NOT NULL,
+    "order_item_id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" TEXT,
+    "restocked_quantity" INTEGER NOT NULL DEFAULT 0,
+    "refurbished_quantity" INTEGER NOT NULL DEFAULT 0,
+    "recycled_quantity" INTEGER NOT NULL DEFAULT 0,
+    "wasted_quantity" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "return_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_authorizations_rma_number_key" ON "return_authorizations"("rma_number");
+
+-- CreateIndex
+CREATE INDEX "return_authorizations_order_id_idx" ON "return_authorizations"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "return_authorizations" ADD CONSTRAINT "return_authorizations_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_authorizations" ADD CONSTRAINT "return_authorizations_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_authorizations" ADD CONSTRAINT "return_authorizations_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_authorizations" ADD CONSTRAINT "return_authorizations_inspected_by_id_fkey" FOREIGN KEY ("inspected_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_return_id_fkey" FOREIGN KEY ("return_id") REFERENCES "return_authorizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Orders already RETURNED were restocked in full
+UPDATE "order_items" oi SET "returned_quantity" = oi."quantity"
+FROM "orders" o
+WHERE o."id" = oi."order_id" AND o."status" = 'RETURNED';
@@ -0,0 +1,76 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "customer_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "customers" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "company_name" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "prefers_eco_packaging" BOOLEAN NOT NULL DEFAULT false,
+    "prefers_low_carbon_shipping" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "customer_addresses" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "label" TEXT,
+    "line1" TEXT NOT NULL,
+    "line2" TEXT,
+    "city" TEXT,
+    "postal_code" TEXT,
+    "country" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "customer_addresses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customers_email_key" ON "customers"("email");
+
+-- CreateIndex
+CREATE INDEX "customer_addresses_customer_id_idx" ON "customer_addresses"("customer_id");
+
+-- CreateIndex
+CREATE INDEX "orders_customer_id_idx" ON "orders"("customer_id");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_addresses" ADD CONSTRAINT "customer_addresses_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- One customer per e-mail address (or per name for orders without one), taking the
+-- contact details of their latest order
+INSERT INTO "customers" ("id", "name", "email", "phone", "created_at", "updated_at")
+SELECT DISTINCT ON (COALESCE(LOWER(o."customer_email"), o."customer_name"))
+  'cus_' || MD5(COALESCE(LOWER(o."customer_email"), o."customer_name")),
+  o."customer_name",
+  LOWER(o."customer_email"),
+  o."customer_phone",
+  CURRENT_TIMESTAMP,
+  CURRENT_TIMESTAMP
+FROM "orders" o
+ORDER BY COALESCE(LOWER(o."customer_email"), o."customer_name"), o."order_date" DESC;
+
+UPDATE "orders" SET "customer_id" = 'cus_' || MD5(COALESCE(LOWER("customer_email"), "customer_name"));
+
+INSERT INTO "customer_addresses" ("id", "customer_id", "line1", "is_default")
+SELECT DISTINCT ON (o."customer_id")
+  'cad_' || o."customer_id",
+  o."customer_id",
+  o."shipping_address",
+  true
+FROM "orders" o
+WHERE o."shipping_address" IS NOT NULL
+ORDER BY o."customer_id", o."order_date" DESC;
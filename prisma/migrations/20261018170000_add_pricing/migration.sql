@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN     "customer_group" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "shipping_country" TEXT;
+
+-- CreateTable
+CREATE TABLE "price_lists" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'SALES',
+    "customer_group" TEXT,
+    "supplier_id" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "valid_from" TIMESTAMP(3),
+    "valid_to" TIMESTAMP(3),
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "price_list_items" (
+    "id" TEXT NOT NULL,
+    "price_list_id" TEXT NOT NULL,
+    "product_id" TEXT NOT NULL,
+    "min_quantity" INTEGER NOT NULL DEFAULT 1,
+    "unit_price" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "price_list_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tax_rates" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "name" TEXT,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "applies_to_shipping" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_lists_code_key" ON "price_lists"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_list_items_price_list_id_product_id_min_quantity_key" ON "price_list_items"("price_list_id", "product_id", "min_quantity");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_rates_country_key" ON "tax_rates"("country");
+
+-- AddForeignKey
+ALTER TABLE "price_lists" ADD CONSTRAINT "price_lists_supplier_id_fkey" FOREIGN KEY ("supplier_id") REFERENCES "suppliers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_list_items" ADD CONSTRAINT "price_list_items_price_list_id_fkey" FOREIGN KEY ("price_list_id") REFERENCES "price_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_list_items" ADD CONSTRAINT "price_list_items_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
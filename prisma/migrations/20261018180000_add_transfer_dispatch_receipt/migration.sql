@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "transfers" ADD COLUMN     "dispatched_at" TIMESTAMP(3),
+ADD COLUMN     "dispatched_by_id" TEXT,
+ADD COLUMN     "received_by_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "transfer_items" ADD COLUMN     "damaged_quantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "discrepancy_note" TEXT,
+ADD COLUMN     "dispatched_quantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "received_quantity" INTEGER NOT NULL DEFAULT 0;
+
+-- Completed transfers moved every unit in one step
+UPDATE "transfer_items" ti
+SET "dispatched_quantity" = ti."quantity",
+    "received_quantity" = ti."quantity"
+FROM "transfers" t
+WHERE t."id" = ti."transfer_id" AND t."status" = 'COMPLETED';
+
+UPDATE "transfers"
+SET "dispatched_at" = "completed_at"
+WHERE "status" = 'COMPLETED';
+
+-- IN_TRANSIT used to be a label only: no stock left the source, so those transfers
+-- still have to be dispatched
+UPDATE "transfers"
+SET "status" = 'PENDING'
+WHERE "status" = 'IN_TRANSIT';
+
+-- AddForeignKey
+ALTER TABLE "transfers" ADD CONSTRAINT "transfers_dispatched_by_id_fkey" FOREIGN KEY ("dispatched_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfers" ADD CONSTRAINT "transfers_received_by_id_fkey" FOREIGN KEY ("received_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+-- Transfers already pending hold no reservation; their stock is reserved when dispatched
+ALTER TABLE "transfer_items" ADD COLUMN     "reserved_quantity" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Existing transfers keep their estimate; they are assumed to have gone by road
+ALTER TABLE "transfers" ADD COLUMN     "distance_km" DOUBLE PRECISION,
+ADD COLUMN     "transport_mode" TEXT NOT NULL DEFAULT 'ROAD';
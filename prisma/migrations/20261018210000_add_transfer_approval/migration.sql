@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "transfers" ADD COLUMN     "approved_at" TIMESTAMP(3),
+ADD COLUMN     "approved_by_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "transfers" ADD CONSTRAINT "transfers_approved_by_id_fkey" FOREIGN KEY ("approved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "inventory" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "inventory_movements" (
+    "id" TEXT NOT NULL,
+    "warehouse_id" TEXT NOT NULL,
+    "product_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "quantity_delta" INTEGER NOT NULL DEFAULT 0,
+    "reserved_delta" INTEGER NOT NULL DEFAULT 0,
+    "quantity_after" INTEGER NOT NULL,
+    "reserved_after" INTEGER NOT NULL,
+    "available_after" INTEGER NOT NULL,
+    "transaction_id" TEXT,
+    "reference_id" TEXT,
+    "reference_type" TEXT,
+    "performed_by_id" TEXT,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inventory_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_warehouse_id_product_id_created_at_idx" ON "inventory_movements"("warehouse_id", "product_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_warehouse_id_fkey" FOREIGN KEY ("warehouse_id") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_performed_by_id_fkey" FOREIGN KEY ("performed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Repair rows written by the old clamping and overwriting updates: stock cannot be
+-- negative, and nothing can be reserved beyond what is on hand
+UPDATE "inventory" SET "quantity" = GREATEST("quantity", 0);
+UPDATE "inventory" SET "reserved" = LEAST(GREATEST("reserved", 0), "quantity");
+UPDATE "inventory" SET "available" = "quantity" - "reserved";
+
+-- The ledger keeps these in step; the database refuses anything that breaks them
+ALTER TABLE "inventory" ADD CONSTRAINT "inventory_stock_levels_check" CHECK ("reserved" >= 0 AND "available" >= 0 AND "available" = "quantity" - "reserved");
+
+-- Every existing row starts its history with an opening balance
+INSERT INTO "inventory_movements" ("id", "warehouse_id", "product_id", "type", "quantity_delta", "reserved_delta", "quantity_after", "reserved_after", "available_after", "notes")
+SELECT 'open_' || "id", "warehouse_id", "product_id", 'OPENING_BALANCE', "quantity", "reserved", "quantity", "reserved", "available", 'Stock on record when the inventory ledger was introduced'
+FROM "inventory";
@@ -1,16 +1,6 @@
-import { PrismaClient } from '../generated/prisma'
-import { PrismaPg } from "@prisma/adapter-pg"
-import { Pool } from "pg"
-import dotenv from 'dotenv'
-
-dotenv.config()
-
-const connectionString = process.env.DATABASE_URL
-if (!connectionString) throw new Error("DATABASE_URL is not defined")
-
-const pool = new Pool({ connectionString })
-const adapter = new PrismaPg(pool)
-const prisma = new PrismaClient({ adapter })
+// The application's client, so seed stock goes through the same inventory ledger
+import { prisma } from '../src/lib/db'
+import { recordStockMovement } from '../src/lib/inventoryLedger'
 
 async function main() {
   console.log('🌱 Starting database seeding...')
@@ -20,6 +10,7 @@ async function main() {
   await prisma.transferItem.deleteMany()
   await prisma.transfer.deleteMany()
   await prisma.stockCount.deleteMany()
+  await prisma.inventoryMovement.deleteMany()
   await prisma.inventory.deleteMany()
   await prisma.product.deleteMany()
   await prisma.category.deleteMany()
@@ -468,30 +459,36 @@ async function main() {
 
   // Create Inventory (10 records per product, spread across warehouses)
   console.log('📊 Creating inventory...')
-  const inventoryPromises = []
+  // Stock is booked through the inventory ledger, so every row starts with its opening movement
+  const inventory = []
   for (const product of products) {
     for (let i = 0; i < 10; i++) {
       const warehouse = warehouses[i % warehouses.length]
       const quantity = Math.floor(Math.random() * 200) + 50 // 50-250 units
       const reserved = Math.floor(Math.random() * 20) // 0-20 reserved
-      
-      inventoryPromises.push(
-        prisma.inventory.create({
+
+      const record = await prisma.$transaction(async (tx) => {
+        const { inventory: row } = await recordStockMovement(tx, {
+          warehouseId: warehouse.id,
+          productId: product.id,
+          type: 'OPENING_BALANCE',
+          quantityDelta: quantity,
+          reservedDelta: reserved,
+          notes: 'Seed data',
+        })
+
+        return await tx.inventory.update({
+          where: { id: row.id },
           data: {
-            warehouseId: warehouse.id,
-            productId: product.id,
-            quantity,
-            reserved,
-            available: quantity - reserved,
             aisle: `A${Math.floor(Math.random() * 10) + 1}`,
             shelf: `S${Math.floor(Math.random() * 5) + 1}`,
             bin: `B${Math.floor(Math.random() * 20) + 1}`,
           },
         })
-      )
+      })
+      inventory.push(record)
     }
   }
-  const inventory = await Promise.all(inventoryPromises)
 
   // Create Transfers (10 records)
   console.log('🚚 Creating transfers...')
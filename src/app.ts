@@ -1,22 +1,22 @@
 import express from 'express';
 import cors from 'cors';
+import swaggerUi from 'swagger-ui-express';
 import dotenv from 'dotenv';
 dotenv.config();
 
-import warehouseRoutes from './routes/warehouseRoutes.js'
-import inventoryRoutes from './routes/inventoryRoutes.js'
-import productRoutes from './routes/productRoutes.js'
-import categoryRoutes from './routes/categoryRoutes.js'
-import transactionRoutes from './routes/transactionRoutes.js'
-import orderRoutes from './routes/orderRoutes.js'
-import transferRoutes from './routes/transferRoutes.js'
-import sustainabilityRoutes from './routes/sustainabilityRoutes.js'
+import { apiRoutes } from './routes/index.js'
+import { authenticate } from './middleware/auth.js'
+import { auditContext } from './middleware/auditContext.js'
+import { errorHandler } from './middleware/errorHandler.js'
+import { buildOpenApiDocument } from './docs/openapi.js'
 
 const app = express();
 const PORT = process.env.PORT;
 
 app.use(cors());
 app.use(express.json());
+// collect audit entries for mutations made while handling the request
+app.use(auditContext);
 app.get('/', (req, res) => {
   res.json({
     status: '✅ EcoCycle IMS Backend Running',
@@ -24,20 +24,18 @@ app.get('/', (req, res) => {
   });
 });
 
-// warehouse starting route
-app.use('/warehouses', warehouseRoutes);
-// inventory starting route
-app.use('/inventory', inventoryRoutes);
-// products starting route
-app.use('/products', productRoutes);
-// category starting route
-app.use('/category', categoryRoutes);
-// transactions starting route
-app.use('/transactions', transactionRoutes);
-// orders starting route
-app.use('/orders',orderRoutes);
-// transfers starting route
-app.use('/transfers', transferRoutes);
+// API description generated from the route table and request schemas
+const openApiDocument = buildOpenApiDocument();
+app.get('/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+app.use('/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument));
+
+// every route below requires a valid bearer token
+for (const { path, router } of apiRoutes) {
+  app.use(path, authenticate, router);
+}
 
-app.use('/sustainability', sustainabilityRoutes);
+// errors from every route above are answered here
+app.use(errorHandler);
 export default app
\ No newline at end of file
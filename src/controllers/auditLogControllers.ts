@@ -0,0 +1,44 @@
+import { Request, Response } from "express";
+import AuditLogServices from "../services/auditLogServices";
+
+const auditLogService = new AuditLogServices();
+
+export default class AuditLogController {
+  // POST search audit logs with pagination
+  searchAuditLogs = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 20,
+      filters = {},
+      sort = { field: "timestamp", order: "desc" }
+    } = req.body;
+
+    const result = await auditLogService.searchAuditLogsService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET audit log entry by ID
+  getAuditLogById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const auditLog = await auditLogService.getAuditLogByIdService(id);
+
+    res.json({ success: true, data: auditLog });
+  };
+
+  // GET history of one entity
+  getEntityHistory = async (req: Request, res: Response) => {
+    const entityType = req.params.entityType as string;
+    const entityId = req.params.entityId as string;
+    const history = await auditLogService.getEntityHistoryService(entityType, entityId);
+
+    res.json({ success: true, data: history });
+  };
+}
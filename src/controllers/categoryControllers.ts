@@ -6,138 +6,94 @@ const categoryService = new CategoryServices();
 export default class CategoryController {
   // POST search categories with pagination
   searchCategories = async (req: Request, res: Response) => {
-    try {
-      const {
-        search = "",
-        currentPage = 1,
-        limit = 10,
-        filters = {},
-        sort = { field: "name", order: "asc" }
-      } = req.body;
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "name", order: "asc" }
+    } = req.body;
 
-      const result = await categoryService.searchCategoriesService({
-        search: String(search),
-        currentPage: Number(currentPage),
-        limit: Number(limit),
-        filters,
-        sort
-      });
+    const result = await categoryService.searchCategoriesService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
 
-      res.json({ success: true, ...result });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    res.json({ success: true, ...result });
   };
 
   // GET category by ID
   getCategoryById = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      const category = await categoryService.getCategoryByIdService(id);
+    const id = req.params.id as string;
+    const category = await categoryService.getCategoryByIdService(id);
 
-      res.json({ success: true, data: category });
-    } catch (error: any) {
-      if (error.message === "Category not found") {
-        res.status(404).json({ success: false, error: error.message });
-      } else {
-        res.status(500).json({ success: false, error: error.message });
-      }
-    }
+    res.json({ success: true, data: category });
   };
 
   // GET full category tree
   getCategoryTree = async (req: Request, res: Response) => {
-    try {
-      const tree = await categoryService.getCategoryTreeService();
-      res.json({ success: true, data: tree });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const tree = await categoryService.getCategoryTreeService();
+    res.json({ success: true, data: tree });
   };
 
   // GET subcategories by parent ID
   getSubcategories = async (req: Request, res: Response) => {
-    try {
-      const parentId = req.params.parentId as string;
-      const subcategories = await categoryService.getSubcategoriesService(parentId);
-      
-      res.json({ success: true, data: subcategories });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const parentId = req.params.parentId as string;
+    const subcategories = await categoryService.getSubcategoriesService(parentId);
+    
+    res.json({ success: true, data: subcategories });
   };
 
   // POST products by category with pagination
   getProductsByCategory = async (req: Request, res: Response) => {
-    try {
-      const categoryId = req.params.categoryId as string;
-      const {
-        search = "",
-        currentPage = 1,
-        limit = 10,
-        filters = {},
-        sort = { field: "name", order: "asc" }
-      } = req.body;
+    const categoryId = req.params.categoryId as string;
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "name", order: "asc" }
+    } = req.body;
 
-      const result = await categoryService.getProductsByCategoryService(categoryId, {
-        search: String(search),
-        currentPage: Number(currentPage),
-        limit: Number(limit),
-        filters,
-        sort
-      });
+    const result = await categoryService.getProductsByCategoryService(categoryId, {
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
 
-      res.json({ success: true, ...result });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    res.json({ success: true, ...result });
   };
 
   // POST create category
   createCategory = async (req: Request, res: Response) => {
-    try {
-      const category = await categoryService.createCategoryService(req.body);
-      res.status(201).json({ success: true, data: category });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const category = await categoryService.createCategoryService(req.body);
+    res.status(201).json({ success: true, data: category });
   };
 
   // PUT update category
   updateCategory = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      const category = await categoryService.updateCategoryService(id, req.body);
-      
-      res.json({ success: true, data: category });
-    } catch (error: any) {
-      if (error.message === "Category not found") {
-        res.status(404).json({ success: false, error: error.message });
-      } else {
-        res.status(400).json({ success: false, error: error.message });
-      }
-    }
+    const id = req.params.id as string;
+    const category = await categoryService.updateCategoryService(id, req.body);
+    
+    res.json({ success: true, data: category });
   };
 
   // DELETE category
   deleteCategory = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      const result = await categoryService.deleteCategoryService(id);
-      
-      res.json({ success: true, message: result.message });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const id = req.params.id as string;
+    const result = await categoryService.deleteCategoryService(id);
+    
+    res.json({ success: true, message: result.message });
   };
 
   // GET category statistics
   getCategoryStatistics = async (req: Request, res: Response) => {
-    try {
-      const statistics = await categoryService.getCategoryStatisticsService();
-      res.json({ success: true, data: statistics });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const statistics = await categoryService.getCategoryStatisticsService();
+    res.json({ success: true, data: statistics });
   };
 }
\ No newline at end of file
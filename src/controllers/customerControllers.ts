@@ -0,0 +1,117 @@
+import { Request, Response } from "express";
+import CustomerServices from "../services/customerServices";
+
+const customerService = new CustomerServices();
+
+export default class CustomerController {
+  // POST search customers with pagination
+  searchCustomers = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "name", order: "asc" }
+    } = req.body;
+
+    const result = await customerService.searchCustomersService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET customer by ID
+  getCustomerById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const customer = await customerService.getCustomerByIdService(id);
+
+    res.json({ success: true, data: customer });
+  };
+
+  // POST create customer
+  createCustomer = async (req: Request, res: Response) => {
+    const customer = await customerService.createCustomerService(req.body);
+    res.status(201).json({ success: true, data: customer });
+  };
+
+  // PUT update customer
+  updateCustomer = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const customer = await customerService.updateCustomerService(id, req.body);
+
+    res.json({ success: true, data: customer });
+  };
+
+  // DELETE customer
+  deleteCustomer = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const result = await customerService.deleteCustomerService(id);
+
+    res.json({ success: true, message: result.message });
+  };
+
+  // POST search a customer's orders
+  searchCustomerOrders = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "orderDate", order: "desc" }
+    } = req.body;
+
+    const result = await customerService.searchCustomerOrdersService(id, {
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET customer lifetime value and order summary
+  getCustomerStatistics = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const statistics = await customerService.getCustomerStatisticsService(id);
+
+    res.json({ success: true, data: statistics });
+  };
+
+  // POST add address to customer
+  addCustomerAddress = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const address = await customerService.addCustomerAddressService(id, req.body);
+
+    res.status(201).json({ success: true, data: address });
+  };
+
+  // PUT update customer address
+  updateCustomerAddress = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const addressId = req.params.addressId as string;
+    const address = await customerService.updateCustomerAddressService(
+      id,
+      addressId,
+      req.body
+    );
+
+    res.json({ success: true, data: address });
+  };
+
+  // DELETE customer address
+  removeCustomerAddress = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const addressId = req.params.addressId as string;
+    const result = await customerService.removeCustomerAddressService(id, addressId);
+
+    res.json({ success: true, message: result.message });
+  };
+}
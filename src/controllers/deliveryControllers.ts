@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import DeliveryServices from "../services/deliveryServices";
+import { getWarehouseScope } from "../lib/warehouseScope";
+
+const deliveryService = new DeliveryServices();
+
+export default class DeliveryController {
+  // POST search deliveries with pagination
+  searchDeliveries = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "shippedDate", order: "desc" }
+    } = req.body;
+
+    const result = await deliveryService.searchDeliveriesService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    }, getWarehouseScope(req.user!));
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET delivery by ID
+  getDeliveryById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const delivery = await deliveryService.getDeliveryByIdService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: delivery });
+  };
+
+  // POST record a delivery against a purchase order
+  createDelivery = async (req: Request, res: Response) => {
+    const delivery = await deliveryService.createDeliveryService(
+      req.body,
+      getWarehouseScope(req.user!)
+    );
+
+    res.status(201).json({ success: true, data: delivery });
+  };
+
+  // POST receive delivery items
+  receiveDelivery = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const delivery = await deliveryService.receiveDeliveryService(
+      id,
+      req.body,
+      req.user!.id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: delivery });
+  };
+
+  // POST mark delivery as delayed
+  markDeliveryDelayed = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const delivery = await deliveryService.markDeliveryDelayedService(
+      id,
+      req.body.reason,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: delivery });
+  };
+}
@@ -0,0 +1,76 @@
+import { Request, Response } from "express";
+import FulfillmentServices from "../services/fulfillmentServices";
+import { getWarehouseScope } from "../lib/warehouseScope";
+
+const fulfillmentService = new FulfillmentServices();
+
+export default class FulfillmentController {
+  // GET pick list for a warehouse grouped by aisle/shelf/bin
+  getPickList = async (req: Request, res: Response) => {
+    const warehouseId = req.params.warehouseId as string;
+    const pickList = await fulfillmentService.getPickListService(
+      warehouseId,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: pickList });
+  };
+
+  // POST confirm picked (and short-picked) units for an order
+  confirmPicks = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const order = await fulfillmentService.confirmPicksService(
+      id,
+      req.body,
+      req.user!.id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: order });
+  };
+
+  // POST pack picked units into a shipment
+  packShipment = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const shipment = await fulfillmentService.packShipmentService(id, {
+      ...req.body,
+      packedById: req.user!.id
+    }, getWarehouseScope(req.user!));
+
+    res.status(201).json({ success: true, data: shipment });
+  };
+
+  // GET shipment by ID
+  getShipmentById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const shipment = await fulfillmentService.getShipmentByIdService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: shipment });
+  };
+
+  // POST hand a packed shipment to the carrier
+  shipShipment = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const shipment = await fulfillmentService.shipShipmentService(id, {
+      ...req.body,
+      shippedById: req.user!.id
+    }, getWarehouseScope(req.user!));
+
+    res.json({ success: true, data: shipment });
+  };
+
+  // POST record delivery of a shipment
+  deliverShipment = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const shipment = await fulfillmentService.deliverShipmentService(
+      id,
+      req.body,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: shipment });
+  };
+}
@@ -1,137 +1,150 @@
 import { Request, Response } from "express";
+import { ForbiddenError } from "../lib/errors";
+import { hasPermission } from "../lib/permissions";
 import OrderServices from "../services/orderServices";
 
 const orderService = new OrderServices();
 
+// Hand-set prices, charges and carbon figures replace what the pricing engine works out,
+// so only roles allowed to override pricing may send them
+const assertPricingOverride = (req: Request) => {
+  const { items = [], tax, shippingCost, estimatedCarbonKg } = req.body;
+  const overridden =
+    tax !== undefined ||
+    shippingCost !== undefined ||
+    estimatedCarbonKg !== undefined ||
+    items.some((item: { unitPrice?: number }) => item.unitPrice !== undefined);
+
+  if (overridden && !hasPermission(req.user!.role, "pricing:override")) {
+    throw new ForbiddenError(
+      "Setting prices, tax, shipping or carbon by hand needs the pricing:override permission"
+    );
+  }
+};
+
 export default class OrderController {
   // POST search orders with pagination
   searchOrders = async (req: Request, res: Response) => {
-    try {
-      const {
-        search = "",
-        currentPage = 1,
-        limit = 10,
-        filters = {},
-        sort = { field: "orderDate", order: "desc" }
-      } = req.body;
-
-      // ✅ FIXED: Method name matches service
-      const result = await orderService.searchOrdersService({
-        search: String(search),
-        currentPage: Number(currentPage),
-        limit: Number(limit),
-        filters,
-        sort
-      });
-
-      res.json(result);
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "orderDate", order: "desc" }
+    } = req.body;
+
+    // ✅ FIXED: Method name matches service
+    const result = await orderService.searchOrdersService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
   };
 
   // GET order by ID
   getOrderById = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      // ✅ FIXED: Method name matches service
-      const order = await orderService.getOrderByIdService(id);
-
-      if (!order) {
-        return res.status(404).json({ success: false, error: "Order not found" });
-      }
-
-      res.json({ success: true, data: order });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const id = req.params.id as string;
+    // ✅ FIXED: Method name matches service
+    const order = await orderService.getOrderByIdService(id);
+
+    res.json({ success: true, data: order });
   };
 
   // POST create order
   createOrder = async (req: Request, res: Response) => {
-    try {
-      // ✅ FIXED: Method name matches service
-      const order = await orderService.createOrderService(req.body);
-      res.status(201).json({ success: true, data: order });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    assertPricingOverride(req);
+
+    // ✅ FIXED: Method name matches service
+    const order = await orderService.createOrderService({
+      ...req.body,
+      createdById: req.user!.id
+    });
+    res.status(201).json({ success: true, data: order });
+  };
+
+  // POST check availability without reserving anything
+  checkAvailability = async (req: Request, res: Response) => {
+    const availability = await orderService.checkAvailabilityService(req.body);
+    res.json({ success: true, data: availability });
+  };
+
+  // POST reserve stock for backordered lines
+  allocateBackorders = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const order = await orderService.allocateBackordersService(id);
+    res.json({ success: true, data: order });
   };
 
   // PUT update order
   updateOrder = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      // ✅ FIXED: Method name matches service
-      const order = await orderService.updateOrderService(id, req.body);
-      
-      res.json({ success: true, data: order });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
+    const id = req.params.id as string;
+    const { createdById, fulfilledById, ...data } = req.body;
+    assertPricingOverride(req);
+
+    // The fulfilling user is whoever moves the order through fulfillment
+    if (["PICKING", "PACKED", "SHIPPED"].includes(data.status)) {
+      data.fulfilledById = req.user!.id;
     }
+
+    // ✅ FIXED: Method name matches service
+    const order = await orderService.updateOrderService(id, data);
+    
+    res.json({ success: true, data: order });
   };
 
   // POST search orders by status
   searchOrdersByStatus = async (req: Request, res: Response) => {
-    try {
-      const status = req.params.status as string;
-      const {
-        search = "",
-        currentPage = 1,
-        limit = 10,
-        filters = {},
-        sort = { field: "orderDate", order: "desc" }
-      } = req.body;
-
-      // ✅ FIXED: Method name matches service
-      const result = await orderService.searchOrdersByStatusService(status, {
-        search: String(search),
-        currentPage: Number(currentPage),
-        limit: Number(limit),
-        filters,
-        sort
-      });
-
-      res.json(result);
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const status = req.params.status as string;
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "orderDate", order: "desc" }
+    } = req.body;
+
+    // ✅ FIXED: Method name matches service
+    const result = await orderService.searchOrdersByStatusService(status, {
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
   };
 
-  // POST search orders to fulfill (NEW, PROCESSING, PICKING)
+  // POST search orders to fulfill (NEW, PROCESSING, PICKING, PARTIALLY_SHIPPED)
   searchOrdersToFulfill = async (req: Request, res: Response) => {
-    try {
-      const {
-        search = "",
-        currentPage = 1,
-        limit = 10,
-        filters = {},
-        sort = { field: "orderDate", order: "asc" }
-      } = req.body;
-
-      // ✅ FIXED: Method name matches service
-      const result = await orderService.searchOrdersToFulfillService({
-        search: String(search),
-        currentPage: Number(currentPage),
-        limit: Number(limit),
-        filters,
-        sort
-      });
-
-      res.json(result);
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "orderDate", order: "asc" }
+    } = req.body;
+
+    // ✅ FIXED: Method name matches service
+    const result = await orderService.searchOrdersToFulfillService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
   };
 
   // GET order statistics
   getOrderStatistics = async (req: Request, res: Response) => {
-    try {
-      // ✅ FIXED: Method name matches service
-      const statistics = await orderService.getOrderStatisticsService();
-      res.json({ success: true, data: statistics });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    // ✅ FIXED: Method name matches service
+    const statistics = await orderService.getOrderStatisticsService();
+    res.json({ success: true, data: statistics });
   };
 }
\ No newline at end of file
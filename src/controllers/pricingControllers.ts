@@ -0,0 +1,93 @@
+import { Request, Response } from "express";
+import PricingServices from "../services/pricingServices";
+
+const pricingService = new PricingServices();
+
+export default class PricingController {
+  // POST search price lists with pagination
+  searchPriceLists = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "name", order: "asc" }
+    } = req.body;
+
+    const result = await pricingService.searchPriceListsService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET price list by ID
+  getPriceListById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const priceList = await pricingService.getPriceListByIdService(id);
+
+    res.json({ success: true, data: priceList });
+  };
+
+  // POST create price list
+  createPriceList = async (req: Request, res: Response) => {
+    const priceList = await pricingService.createPriceListService(req.body);
+    res.status(201).json({ success: true, data: priceList });
+  };
+
+  // PUT update price list
+  updatePriceList = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const priceList = await pricingService.updatePriceListService(id, req.body);
+
+    res.json({ success: true, data: priceList });
+  };
+
+  // DELETE price list
+  deletePriceList = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const result = await pricingService.deletePriceListService(id);
+
+    res.json({ success: true, message: result.message });
+  };
+
+  // PUT replace price list items
+  setPriceListItems = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const priceList = await pricingService.setPriceListItemsService(id, req.body.items);
+
+    res.json({ success: true, data: priceList });
+  };
+
+  // GET tax rates
+  getTaxRates = async (req: Request, res: Response) => {
+    const taxRates = await pricingService.getTaxRatesService();
+    res.json({ success: true, data: taxRates });
+  };
+
+  // PUT create or replace tax rate
+  upsertTaxRate = async (req: Request, res: Response) => {
+    const country = req.params.country as string;
+    const taxRate = await pricingService.upsertTaxRateService(country, req.body);
+
+    res.json({ success: true, data: taxRate });
+  };
+
+  // DELETE tax rate
+  deleteTaxRate = async (req: Request, res: Response) => {
+    const country = req.params.country as string;
+    const result = await pricingService.deleteTaxRateService(country);
+
+    res.json({ success: true, message: result.message });
+  };
+
+  // POST price quote
+  quotePrice = async (req: Request, res: Response) => {
+    const quote = await pricingService.quotePriceService(req.body);
+    res.json({ success: true, data: quote });
+  };
+}
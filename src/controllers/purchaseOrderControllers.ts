@@ -0,0 +1,110 @@
+import { Request, Response } from "express";
+import PurchaseOrderServices from "../services/purchaseOrderServices";
+
+const purchaseOrderService = new PurchaseOrderServices();
+
+export default class PurchaseOrderController {
+  // POST search purchase orders with pagination
+  searchPurchaseOrders = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "orderDate", order: "desc" }
+    } = req.body;
+
+    const result = await purchaseOrderService.searchPurchaseOrdersService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET purchase order by ID
+  getPurchaseOrderById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const purchaseOrder = await purchaseOrderService.getPurchaseOrderByIdService(id);
+
+    res.json({ success: true, data: purchaseOrder });
+  };
+
+  // POST create purchase order
+  createPurchaseOrder = async (req: Request, res: Response) => {
+    const purchaseOrder = await purchaseOrderService.createPurchaseOrderService({
+      ...req.body,
+      createdById: req.user!.id
+    });
+
+    res.status(201).json({ success: true, data: purchaseOrder });
+  };
+
+  // PUT update draft purchase order
+  updatePurchaseOrder = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const purchaseOrder = await purchaseOrderService.updatePurchaseOrderService(id, req.body);
+
+    res.json({ success: true, data: purchaseOrder });
+  };
+
+  // POST submit purchase order for approval
+  submitPurchaseOrder = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const purchaseOrder = await purchaseOrderService.submitPurchaseOrderService(id);
+
+    res.json({ success: true, data: purchaseOrder });
+  };
+
+  // POST approve purchase order
+  approvePurchaseOrder = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const purchaseOrder = await purchaseOrderService.approvePurchaseOrderService(
+      id,
+      req.user!.id
+    );
+
+    res.json({ success: true, data: purchaseOrder });
+  };
+
+  // POST reject purchase order back to draft
+  rejectPurchaseOrder = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const purchaseOrder = await purchaseOrderService.rejectPurchaseOrderService(
+      id,
+      req.body.reason
+    );
+
+    res.json({ success: true, data: purchaseOrder });
+  };
+
+  // POST place purchase order with supplier
+  placePurchaseOrder = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const purchaseOrder = await purchaseOrderService.placePurchaseOrderService(id);
+
+    res.json({ success: true, data: purchaseOrder });
+  };
+
+  // POST cancel purchase order
+  cancelPurchaseOrder = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const purchaseOrder = await purchaseOrderService.cancelPurchaseOrderService(
+      id,
+      req.body.reason
+    );
+
+    res.json({ success: true, data: purchaseOrder });
+  };
+
+  // DELETE draft purchase order
+  deletePurchaseOrder = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const result = await purchaseOrderService.deletePurchaseOrderService(id);
+
+    res.json({ success: true, message: result.message });
+  };
+}
@@ -0,0 +1,83 @@
+import { Request, Response } from "express";
+import ReturnServices from "../services/returnServices";
+import { getWarehouseScope } from "../lib/warehouseScope";
+
+const returnService = new ReturnServices();
+
+export default class ReturnController {
+  // POST search return authorizations with pagination
+  searchReturns = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "createdAt", order: "desc" }
+    } = req.body;
+
+    const result = await returnService.searchReturnsService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    }, getWarehouseScope(req.user!));
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET return authorization by ID
+  getReturnById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const returnAuthorization = await returnService.getReturnByIdService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: returnAuthorization });
+  };
+
+  // POST authorize a return for shipped order lines
+  createReturn = async (req: Request, res: Response) => {
+    const returnAuthorization = await returnService.createReturnService({
+      ...req.body,
+      createdById: req.user!.id
+    }, getWarehouseScope(req.user!));
+
+    res.status(201).json({ success: true, data: returnAuthorization });
+  };
+
+  // POST record arrival of the returned units
+  receiveReturn = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const returnAuthorization = await returnService.receiveReturnService(
+      id,
+      req.body,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: returnAuthorization });
+  };
+
+  // POST inspect returned units and route them by disposition
+  inspectReturn = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const returnAuthorization = await returnService.inspectReturnService(id, {
+      ...req.body,
+      inspectedById: req.user!.id
+    }, getWarehouseScope(req.user!));
+
+    res.json({ success: true, data: returnAuthorization });
+  };
+
+  // POST cancel a return that has not arrived
+  cancelReturn = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const returnAuthorization = await returnService.cancelReturnService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: returnAuthorization });
+  };
+}
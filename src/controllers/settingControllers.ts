@@ -0,0 +1,63 @@
+import { Request, Response } from "express";
+import SettingServices from "../services/settingServices";
+
+const settingService = new SettingServices();
+
+export default class SettingController {
+  // GET all settings, optionally filtered by ?category=
+  getSettings = async (req: Request, res: Response) => {
+    const category = req.query.category ? String(req.query.category) : undefined;
+    const settings = await settingService.listSettingsService(category);
+
+    res.json({ success: true, data: settings });
+  };
+
+  // GET setting categories
+  getCategories = async (req: Request, res: Response) => {
+    const categories = await settingService.getCategoriesService();
+
+    res.json({ success: true, data: categories });
+  };
+
+  // GET settings of one category
+  getSettingsByCategory = async (req: Request, res: Response) => {
+    const category = req.params.category as string;
+    const settings = await settingService.listSettingsService(category);
+
+    res.json({ success: true, data: settings });
+  };
+
+  // GET setting by key
+  getSettingByKey = async (req: Request, res: Response) => {
+    const key = req.params.key as string;
+    const setting = await settingService.getSettingService(key);
+
+    res.json({ success: true, data: setting });
+  };
+
+  // POST create free-form setting
+  createSetting = async (req: Request, res: Response) => {
+    const setting = await settingService.createSettingService({
+      ...req.body,
+      updatedById: req.user!.id
+    });
+
+    res.status(201).json({ success: true, data: setting });
+  };
+
+  // PUT update setting value
+  updateSetting = async (req: Request, res: Response) => {
+    const key = req.params.key as string;
+    const setting = await settingService.updateSettingService(key, req.body, req.user!.id);
+
+    res.json({ success: true, data: setting });
+  };
+
+  // DELETE setting (declared settings reset to default)
+  deleteSetting = async (req: Request, res: Response) => {
+    const key = req.params.key as string;
+    const result = await settingService.deleteSettingService(key);
+
+    res.json({ success: true, message: result.message });
+  };
+}
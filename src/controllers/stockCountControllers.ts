@@ -0,0 +1,109 @@
+import { Request, Response } from "express";
+import StockCountServices from "../services/stockCountServices";
+import { getWarehouseScope } from "../lib/warehouseScope";
+
+const stockCountService = new StockCountServices();
+
+export default class StockCountController {
+  // POST search count sessions with pagination
+  searchSessions = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "openedAt", order: "desc" }
+    } = req.body;
+
+    const result = await stockCountService.searchSessionsService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    }, getWarehouseScope(req.user!));
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET count session by ID
+  getSessionById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const session = await stockCountService.getSessionByIdService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: session });
+  };
+
+  // GET count sheet (lines to count, without system quantities)
+  getCountSheet = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const lines = await stockCountService.getCountSheetService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: lines });
+  };
+
+  // POST open a count session
+  openSession = async (req: Request, res: Response) => {
+    const session = await stockCountService.openSessionService({
+      ...req.body,
+      openedById: req.user!.id
+    }, getWarehouseScope(req.user!));
+
+    res.status(201).json({ success: true, data: session });
+  };
+
+  // POST submit counted quantities
+  submitCounts = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const session = await stockCountService.submitCountsService(
+      id,
+      req.body.items,
+      req.user!.id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: session });
+  };
+
+  // POST finish counting and send for review
+  completeSession = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const session = await stockCountService.completeSessionService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: session });
+  };
+
+  // POST approve/reject count variances
+  reviewSession = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const session = await stockCountService.reviewSessionService(
+      id,
+      req.body.decisions,
+      req.user!.id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: session });
+  };
+
+  // POST cancel an open count session
+  cancelSession = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const session = await stockCountService.cancelSessionService(
+      id,
+      req.body.reason,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: session });
+  };
+}
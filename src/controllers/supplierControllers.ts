@@ -0,0 +1,96 @@
+import { Request, Response } from "express";
+import SupplierServices from "../services/supplierServices";
+
+const supplierService = new SupplierServices();
+
+export default class SupplierController {
+  // POST search suppliers with pagination
+  searchSuppliers = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "name", order: "asc" }
+    } = req.body;
+
+    const result = await supplierService.searchSuppliersService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET supplier by ID
+  getSupplierById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const supplier = await supplierService.getSupplierByIdService(id);
+
+    res.json({ success: true, data: supplier });
+  };
+
+  // POST create supplier
+  createSupplier = async (req: Request, res: Response) => {
+    const supplier = await supplierService.createSupplierService(req.body);
+    res.status(201).json({ success: true, data: supplier });
+  };
+
+  // PUT update supplier
+  updateSupplier = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const supplier = await supplierService.updateSupplierService(id, req.body);
+
+    res.json({ success: true, data: supplier });
+  };
+
+  // DELETE supplier
+  deleteSupplier = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const result = await supplierService.deleteSupplierService(id);
+
+    res.json({ success: true, message: result.message });
+  };
+
+  // POST link product to supplier
+  addSupplierProduct = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const supplierProduct = await supplierService.addSupplierProductService(id, req.body);
+
+    res.status(201).json({ success: true, data: supplierProduct });
+  };
+
+  // PUT update supplier product terms
+  updateSupplierProduct = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const productId = req.params.productId as string;
+    const supplierProduct = await supplierService.updateSupplierProductService(
+      id,
+      productId,
+      req.body
+    );
+
+    res.json({ success: true, data: supplierProduct });
+  };
+
+  // DELETE unlink product from supplier
+  removeSupplierProduct = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const productId = req.params.productId as string;
+    const result = await supplierService.removeSupplierProductService(id, productId);
+
+    res.json({ success: true, message: result.message });
+  };
+
+  // PUT replace warehouses served by supplier
+  setSupplierWarehouses = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { warehouseIds } = req.body;
+    const supplier = await supplierService.setSupplierWarehousesService(id, warehouseIds);
+
+    res.json({ success: true, data: supplier });
+  };
+}
@@ -1,178 +1,162 @@
 import { Request, Response } from "express";
 import TransactionService from "../services/transactionServices";
+import { getWarehouseScope } from "../lib/warehouseScope";
 
 const transactionService = new TransactionService();
 
 export default class TransactionController {
   // POST search transactions with pagination
   searchTransactions = async (req: Request, res: Response) => {
-    try {
-      const {
-        search = "",
-        currentPage = 1,
-        limit = 10,
-        filters = {},
-        sort = { field: "transactionDate", order: "desc" }
-      } = req.body;
-
-      const result = await transactionService.searchTransactionsService({
-        search: String(search),
-        currentPage: Number(currentPage),
-        limit: Number(limit),
-        filters,
-        sort
-      });
-
-      res.json(result);
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "transactionDate", order: "desc" }
+    } = req.body;
+
+    const result = await transactionService.searchTransactionsService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    }, getWarehouseScope(req.user!));
+
+    res.json({ success: true, ...result });
   };
 
   // GET transaction by ID
   getTransactionById = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      const transaction = await transactionService.getTransactionByIdService(id);
-
-      if (!transaction) {
-        return res.status(404).json({ success: false, error: "Transaction not found" });
-      }
-
-      res.json({ success: true, data: transaction });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const id = req.params.id as string;
+    const transaction = await transactionService.getTransactionByIdService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+
+    res.json({ success: true, data: transaction });
   };
 
   // POST create transaction
   createTransaction = async (req: Request, res: Response) => {
-    try {
-      const transaction = await transactionService.createTransactionService(req.body);
-      res.status(201).json({ success: true, data: transaction });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const transaction = await transactionService.createTransactionService({
+      ...req.body,
+      performedById: req.user!.id
+    }, getWarehouseScope(req.user!));
+    res.status(201).json({ success: true, data: transaction });
   };
 
   // PUT update transaction
   updateTransaction = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      const transaction = await transactionService.updateTransactionService(id, req.body);
-      
-      res.json({ success: true, data: transaction });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const id = req.params.id as string;
+    const transaction = await transactionService.updateTransactionService(
+      id,
+      req.body,
+      getWarehouseScope(req.user!)
+    );
+    
+    res.json({ success: true, data: transaction });
   };
 
   // DELETE transaction
   deleteTransaction = async (req: Request, res: Response) => {
-    try {
-      const id = req.params.id as string;
-      const result = await transactionService.deleteTransactionService(id);
-      
-      res.json({ success: true, message: result.message });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const id = req.params.id as string;
+    const result = await transactionService.deleteTransactionService(
+      id,
+      getWarehouseScope(req.user!)
+    );
+    
+    res.json({ success: true, message: result.message });
   };
 
   // GET transaction statistics
   getTransactionStatistics = async (req: Request, res: Response) => {
-    try {
-      const statistics = await transactionService.getTransactionStatisticsService();
-      res.json({ success: true, data: statistics });
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const statistics = await transactionService.getTransactionStatisticsService(
+      getWarehouseScope(req.user!)
+    );
+    res.json({ success: true, data: statistics });
   };
 
   // POST transactions by warehouse with pagination
   getTransactionsByWarehouse = async (req: Request, res: Response) => {
-    try {
-      const warehouseId = req.params.warehouseId as string;
-      const {
-        search = "",
-        currentPage = 1,
-        limit = 10,
-        filters = {},
-        sort = { field: "transactionDate", order: "desc" }
-      } = req.body;
-
-      const result = await transactionService.searchTransactionsByWarehouseService(warehouseId, {
-        search: String(search),
-        currentPage: Number(currentPage),
-        limit: Number(limit),
-        filters,
-        sort
-      });
-
-      res.json(result);
-    } catch (error: any) {
-      res.status(500).json({ success: false, error: error.message });
-    }
+    const warehouseId = req.params.warehouseId as string;
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "transactionDate", order: "desc" }
+    } = req.body;
+
+    const result = await transactionService.searchTransactionsByWarehouseService(warehouseId, {
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    }, getWarehouseScope(req.user!));
+
+    res.json({ success: true, ...result });
   };
 
   // POST stock in transaction
   createStockIn = async (req: Request, res: Response) => {
-    try {
-      const transactionData = {
-        ...req.body,
-        type: "STOCK_IN" as const
-      };
-      
-      const transaction = await transactionService.createTransactionService(transactionData);
-      res.status(201).json({ success: true, data: transaction });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const transactionData = {
+      ...req.body,
+      performedById: req.user!.id,
+      type: "STOCK_IN" as const
+    };
+    
+    const transaction = await transactionService.createTransactionService(
+      transactionData,
+      getWarehouseScope(req.user!)
+    );
+    res.status(201).json({ success: true, data: transaction });
   };
 
   // POST stock out transaction
   createStockOut = async (req: Request, res: Response) => {
-    try {
-      const transactionData = {
-        ...req.body,
-        type: "STOCK_OUT" as const
-      };
-      
-      const transaction = await transactionService.createTransactionService(transactionData);
-      res.status(201).json({ success: true, data: transaction });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const transactionData = {
+      ...req.body,
+      performedById: req.user!.id,
+      type: "STOCK_OUT" as const
+    };
+    
+    const transaction = await transactionService.createTransactionService(
+      transactionData,
+      getWarehouseScope(req.user!)
+    );
+    res.status(201).json({ success: true, data: transaction });
   };
 
   // POST adjustment transaction
   createAdjustment = async (req: Request, res: Response) => {
-    try {
-      const transactionData = {
-        ...req.body,
-        type: "ADJUSTMENT" as const
-      };
-      
-      const transaction = await transactionService.createTransactionService(transactionData);
-      res.status(201).json({ success: true, data: transaction });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const transactionData = {
+      ...req.body,
+      performedById: req.user!.id,
+      type: "ADJUSTMENT" as const
+    };
+    
+    const transaction = await transactionService.createTransactionService(
+      transactionData,
+      getWarehouseScope(req.user!)
+    );
+    res.status(201).json({ success: true, data: transaction });
   };
 
   // POST waste/recycling transaction
   createWasteTransaction = async (req: Request, res: Response) => {
-    try {
-      const { wasteType = "WASTE", ...rest } = req.body;
-      const transactionData = {
-        ...rest,
-        type: wasteType as "WASTE" | "RECYCLING"
-      };
-      
-      const transaction = await transactionService.createTransactionService(transactionData);
-      res.status(201).json({ success: true, data: transaction });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message });
-    }
+    const { wasteType = "WASTE", ...rest } = req.body;
+    const transactionData = {
+      ...rest,
+      performedById: req.user!.id,
+      type: wasteType as "WASTE" | "RECYCLING"
+    };
+    
+    const transaction = await transactionService.createTransactionService(
+      transactionData,
+      getWarehouseScope(req.user!)
+    );
+    res.status(201).json({ success: true, data: transaction });
   };
 }
\ No newline at end of file
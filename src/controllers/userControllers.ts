@@ -0,0 +1,94 @@
+import { Request, Response } from "express";
+import UserServices from "../services/userServices";
+
+const userService = new UserServices();
+
+export default class UserController {
+  // POST search users with pagination
+  searchUsers = async (req: Request, res: Response) => {
+    const {
+      search = "",
+      currentPage = 1,
+      limit = 10,
+      filters = {},
+      sort = { field: "createdAt", order: "desc" }
+    } = req.body;
+
+    const result = await userService.searchUsersService({
+      search: String(search),
+      currentPage: Number(currentPage),
+      limit: Number(limit),
+      filters,
+      sort
+    });
+
+    res.json({ success: true, ...result });
+  };
+
+  // GET current user
+  getCurrentUser = async (req: Request, res: Response) => {
+    const user = await userService.getUserByIdService(req.user!.id);
+
+    res.json({ success: true, data: user });
+  };
+
+  // GET user by ID
+  getUserById = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const user = await userService.getUserByIdService(id);
+
+    res.json({ success: true, data: user });
+  };
+
+  // GET user activity summary
+  getUserActivity = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { startDate, endDate } = req.query;
+    const activity = await userService.getUserActivityService(
+      id,
+      startDate as Date | undefined,
+      endDate as Date | undefined
+    );
+
+    res.json({ success: true, data: activity });
+  };
+
+  // POST invite/create user
+  createUser = async (req: Request, res: Response) => {
+    const user = await userService.createUserService(req.body);
+
+    res.status(201).json({ success: true, data: user });
+  };
+
+  // PUT update user profile
+  updateUser = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const user = await userService.updateUserService(id, req.body);
+
+    res.json({ success: true, data: user });
+  };
+
+  // PUT change user role
+  changeRole = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const user = await userService.changeRoleService(id, req.body.role);
+
+    res.json({ success: true, data: user });
+  };
+
+  // POST deactivate user
+  deactivateUser = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const user = await userService.deactivateUserService(id, req.user!.id);
+
+    res.json({ success: true, data: user });
+  };
+
+  // POST reactivate user
+  reactivateUser = async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const user = await userService.reactivateUserService(id);
+
+    res.json({ success: true, data: user });
+  };
+}
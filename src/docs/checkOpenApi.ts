@@ -0,0 +1,23 @@
+import { buildOpenApiDocument, findUndocumentedRoutes } from "./openapi";
+
+// npm run docs:check - fails when a route has no documented request or response schema
+const problems = findUndocumentedRoutes();
+
+if (problems.length > 0) {
+  console.error(`${problems.length} route(s) are not documented:`);
+  for (const problem of problems) {
+    console.error(`  - ${problem}`);
+  }
+  process.exit(1);
+}
+
+// Building the document also catches schemas that cannot be converted to JSON Schema
+const document = buildOpenApiDocument();
+const operations = Object.values(document.paths).reduce(
+  (total, methods) => total + Object.keys(methods).length,
+  0,
+);
+
+console.log(
+  `OpenAPI document OK: ${operations} operations across ${Object.keys(document.paths).length} paths`,
+);
@@ -0,0 +1,232 @@
+import { z } from "zod";
+import { apiRoutes } from "../routes";
+import { ERROR_CODES } from "../lib/errors";
+import { RequestSchemas } from "../middleware/validate";
+import { buildModelSchemas, findResponseProblems, resolveResponse, toResponseSchema } from "./responses";
+
+type JsonSchema = Record<string, any>;
+
+// Express stores the route's middleware chain here; validate() and authorize() tag theirs
+interface RouteHandler {
+  name: string;
+  schemas?: RequestSchemas;
+  permission?: string;
+}
+
+interface ExpressLayer {
+  method?: string;
+  handle: RouteHandler;
+  route?: { path: string; stack: ExpressLayer[] };
+}
+
+export interface DocumentedRoute {
+  method: string;
+  path: string;
+  tag: string;
+  operationId: string;
+  pathParams: string[];
+  permission?: string;
+  schemas?: RequestSchemas;
+}
+
+// "/orders" + "/:id/status" -> "/orders/{id}/status"
+const toOpenApiPath = (mountPath: string, routePath: string) => {
+  const joined = routePath === "/" ? mountPath : `${mountPath}${routePath}`;
+  return joined.replace(/:(\w+)/g, "{$1}");
+};
+
+// Walk every mounted router and collect its routes with the schemas attached to them
+export const collectRoutes = (): DocumentedRoute[] => {
+  const routes: DocumentedRoute[] = [];
+
+  for (const mount of apiRoutes) {
+    for (const layer of mount.router.stack as unknown as ExpressLayer[]) {
+      if (!layer.route) continue;
+
+      const { path, stack } = layer.route;
+      const handlers = stack.map((routeLayer) => routeLayer.handle);
+      const methods = [...new Set(stack.map((routeLayer) => routeLayer.method).filter(Boolean))];
+
+      for (const method of methods as string[]) {
+        routes.push({
+          method,
+          path: toOpenApiPath(mount.path, path),
+          tag: mount.tag,
+          // The controller method is always last in the chain
+          operationId: handlers[handlers.length - 1].name,
+          pathParams: [...path.matchAll(/:(\w+)/g)].map((match) => match[1]),
+          permission: handlers.find((handler) => handler.permission)?.permission,
+          schemas: handlers.find((handler) => handler.schemas)?.schemas,
+        });
+      }
+    }
+  }
+
+  return routes;
+};
+
+const toJsonSchema = (schema: z.ZodType): JsonSchema => {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io: "input",
+    unrepresentable: "any",
+    override: (ctx) => {
+      // Dates arrive as ISO strings and are coerced by the schema
+      if (ctx.zodSchema._zod.def.type === "date") {
+        ctx.jsonSchema.type = "string";
+        ctx.jsonSchema.format = "date-time";
+      }
+    },
+  });
+  return jsonSchema;
+};
+
+const toParameters = (schema: z.ZodType | undefined, location: "path" | "query") => {
+  if (!schema) return [];
+
+  const jsonSchema = toJsonSchema(schema);
+  const required: string[] = jsonSchema.required ?? [];
+
+  return Object.entries<JsonSchema>(jsonSchema.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    schema: property,
+  }));
+};
+
+// "getOrderById" -> "Get order by id"
+const toSummary = (operationId: string) => {
+  const words = operationId.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/ErrorResponse" } },
+  },
+});
+
+const toOperation = (route: DocumentedRoute) => {
+  const { schemas } = route;
+  const operation: JsonSchema = {
+    tags: [route.tag],
+    operationId: route.operationId,
+    summary: toSummary(route.operationId),
+    parameters: [
+      ...toParameters(schemas?.params, "path"),
+      ...toParameters(schemas?.query, "query"),
+    ],
+    responses: {
+      "2XX": {
+        description: "Success",
+        content: {
+          "application/json": { schema: toResponseSchema(resolveResponse(route)) },
+        },
+      },
+      "400": errorResponse("Request failed validation"),
+      "401": errorResponse("Missing or invalid bearer token"),
+      "403": errorResponse("Missing permission or warehouse access"),
+      default: errorResponse("Domain error (not found, conflict, invalid transition, ...)"),
+    },
+  };
+
+  if (route.permission) {
+    operation.description = `Requires the \`${route.permission}\` permission.`;
+    operation["x-permission"] = route.permission;
+  }
+
+  if (schemas?.body) {
+    operation.requestBody = {
+      required: true,
+      content: { "application/json": { schema: toJsonSchema(schemas.body) } },
+    };
+  }
+
+  return operation;
+};
+
+export const buildOpenApiDocument = () => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of collectRoutes()) {
+    paths[route.path] ??= {};
+    paths[route.path][route.method] = toOperation(route);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "EcoCycle IMS API",
+      version: "1.0.0",
+      description:
+        "Inventory management backend. Every endpoint requires a bearer token; search endpoints take `{ search, currentPage, limit, filters, sort }` in a POST body.",
+    },
+    tags: apiRoutes.map((mount) => ({ name: mount.tag })),
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+      schemas: {
+        ...buildModelSchemas(),
+        Pagination: {
+          type: "object",
+          properties: {
+            currentPage: { type: "integer" },
+            limit: { type: "integer" },
+            total: { type: "integer" },
+            totalPages: { type: "integer" },
+            hasNext: { type: "boolean" },
+            hasPrev: { type: "boolean" },
+          },
+          required: ["currentPage", "limit", "total", "totalPages", "hasNext", "hasPrev"],
+        },
+        ErrorResponse: {
+          type: "object",
+          properties: {
+            success: { const: false },
+            error: { type: "string" },
+            code: { type: "string", enum: Object.values(ERROR_CODES) },
+            details: {},
+          },
+          required: ["success", "error"],
+        },
+      },
+    },
+  };
+};
+
+// Routes that would show up in the document without a description of their input or output
+export const findUndocumentedRoutes = () => {
+  const routes = collectRoutes();
+  const problems = findResponseProblems(routes);
+  const operationIds = new Map<string, string>();
+
+  for (const route of routes) {
+    const label = `${route.method.toUpperCase()} ${route.path}`;
+
+    if (!route.schemas) {
+      problems.push(`${label}: no request schema, add validate({ ... }) (validate({}) when it takes no input)`);
+      continue;
+    }
+
+    const declaredParams = route.schemas.params
+      ? Object.keys(toJsonSchema(route.schemas.params).properties ?? {})
+      : [];
+    for (const param of route.pathParams) {
+      if (!declaredParams.includes(param)) {
+        problems.push(`${label}: path parameter "${param}" is missing from the params schema`);
+      }
+    }
+
+    const duplicate = operationIds.get(route.operationId);
+    if (duplicate) {
+      problems.push(`${label}: operationId "${route.operationId}" is already used by ${duplicate}`);
+    }
+    operationIds.set(route.operationId, label);
+  }
+
+  return problems;
+};
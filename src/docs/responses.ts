@@ -0,0 +1,180 @@
+import { Prisma } from "../../generated/prisma";
+
+type JsonSchema = Record<string, any>;
+
+// What a route answers with inside the `{ success: true, ... }` envelope:
+// - model: one record of the Prisma model, `list` for an array of them
+// - paginated: a page of records with `pagination`, as every search endpoint returns
+// - message: only a confirmation message (deletes)
+// - report: figures computed on the fly, documented as free-form
+export type ResponseSpec =
+  | { kind: "model"; model: string; list?: boolean }
+  | { kind: "paginated"; model: string }
+  | { kind: "message" }
+  | { kind: "report" };
+
+interface RouteRef {
+  method: string;
+  tag: string;
+  operationId: string;
+}
+
+// Record each router's endpoints work on unless listed below
+const TAG_MODELS: Record<string, string> = {
+  Warehouses: "Warehouse",
+  Inventory: "Inventory",
+  Products: "Product",
+  Categories: "Category",
+  Transactions: "Transaction",
+  Orders: "Order",
+  Customers: "Customer",
+  Pricing: "PriceList",
+  Fulfillment: "Shipment",
+  Returns: "ReturnAuthorization",
+  Transfers: "Transfer",
+  Sustainability: "CarbonTracking",
+  Suppliers: "Supplier",
+  "Purchase Orders": "PurchaseOrder",
+  Deliveries: "Delivery",
+  "Stock Counts": "StockCountSession",
+  "Audit Logs": "AuditLog",
+  Settings: "SystemSetting",
+  Users: "User",
+};
+
+// Endpoints the naming conventions below would describe wrongly
+const RESPONSE_OVERRIDES: Record<string, ResponseSpec> = {
+  getActiveWarehouses: { kind: "model", model: "Warehouse", list: true },
+  searchInventoryMovements: { kind: "paginated", model: "InventoryMovement" },
+  bulkUpdateInventory: { kind: "report" },
+  getProductInventory: { kind: "report" },
+  bulkUpdateProducts: { kind: "report" },
+  getProductsByWarehouse: { kind: "paginated", model: "Product" },
+  getSubcategories: { kind: "model", model: "Category", list: true },
+  getProductsByCategory: { kind: "paginated", model: "Product" },
+  getTransactionsByWarehouse: { kind: "paginated", model: "Transaction" },
+  searchCustomerOrders: { kind: "paginated", model: "Order" },
+  addCustomerAddress: { kind: "model", model: "CustomerAddress" },
+  updateCustomerAddress: { kind: "model", model: "CustomerAddress" },
+  quotePrice: { kind: "report" },
+  getTaxRates: { kind: "model", model: "TaxRate", list: true },
+  upsertTaxRate: { kind: "model", model: "TaxRate" },
+  confirmPicks: { kind: "model", model: "Order" },
+  getTransfersByWarehouse: { kind: "paginated", model: "Transfer" },
+  searchRecyclingRecords: { kind: "paginated", model: "RecyclingRecord" },
+  getRecyclingRecordById: { kind: "model", model: "RecyclingRecord" },
+  createRecyclingRecord: { kind: "model", model: "RecyclingRecord" },
+  updateRecyclingRecord: { kind: "model", model: "RecyclingRecord" },
+  searchMaterialFlows: { kind: "paginated", model: "MaterialFlow" },
+  getMaterialFlowById: { kind: "model", model: "MaterialFlow" },
+  createMaterialFlow: { kind: "model", model: "MaterialFlow" },
+  updateMaterialFlow: { kind: "model", model: "MaterialFlow" },
+  getCarbonByWarehouse: { kind: "report" },
+  getRecyclingByWarehouse: { kind: "report" },
+  addSupplierProduct: { kind: "model", model: "SupplierProduct" },
+  updateSupplierProduct: { kind: "model", model: "SupplierProduct" },
+  getEntityHistory: { kind: "model", model: "AuditLog", list: true },
+  getSettings: { kind: "report" },
+  getCategories: { kind: "report" },
+  getSettingsByCategory: { kind: "report" },
+};
+
+// Computed endpoints: dashboards, reports, plans and previews
+const REPORT_OPERATION = /Statistics|Stats|Summary|Dashboard|Analytics|Report|Turnover|Activity|Suggestions|Availability|InTransit|Tree|Sheet|PickList/;
+
+export const resolveResponse = (route: RouteRef): ResponseSpec => {
+  const override = RESPONSE_OVERRIDES[route.operationId];
+  if (override) return override;
+
+  if (route.method === "delete") return { kind: "message" };
+  if (REPORT_OPERATION.test(route.operationId)) return { kind: "report" };
+
+  const model = TAG_MODELS[route.tag];
+  if (route.operationId.startsWith("search")) return { kind: "paginated", model };
+  return { kind: "model", model };
+};
+
+const SCALAR_TYPES: Record<string, JsonSchema> = {
+  String: { type: "string" },
+  Int: { type: "integer" },
+  Float: { type: "number" },
+  Boolean: { type: "boolean" },
+  DateTime: { type: "string", format: "date-time" },
+  Json: {},
+};
+
+// The client's data model names each column and its type, but not whether it is optional,
+// so every column may be null. Relations a route includes appear under their relation names.
+const toModelSchema = (fields: readonly { name: string; kind: string; type: string }[]) => ({
+  type: "object",
+  properties: Object.fromEntries(
+    fields
+      .filter((field) => field.kind === "scalar")
+      .map((field) => {
+        const scalar = SCALAR_TYPES[field.type] ?? {};
+        return [field.name, scalar.type ? { ...scalar, type: [scalar.type, "null"] } : scalar];
+      }),
+  ),
+  additionalProperties: true,
+});
+
+// One component schema per Prisma model, named after it
+export const buildModelSchemas = (): Record<string, JsonSchema> => {
+  const { models } = Prisma.dmmf.datamodel;
+  return Object.fromEntries(models.map((model) => [model.name, toModelSchema(model.fields)]));
+};
+
+const modelRef = (model: string) => ({ $ref: `#/components/schemas/${model}` });
+
+// The route's success body, as the controllers send it
+export const toResponseSchema = (spec: ResponseSpec): JsonSchema => {
+  const envelope = (properties: JsonSchema, required: string[]) => ({
+    type: "object",
+    properties: { success: { const: true }, ...properties },
+    required: ["success", ...required],
+  });
+
+  switch (spec.kind) {
+    case "model":
+      return envelope(
+        { data: spec.list ? { type: "array", items: modelRef(spec.model) } : modelRef(spec.model) },
+        ["data"],
+      );
+    case "paginated":
+      return envelope(
+        {
+          data: { type: "array", items: modelRef(spec.model) },
+          pagination: { $ref: "#/components/schemas/Pagination" },
+        },
+        ["data", "pagination"],
+      );
+    case "message":
+      return envelope({ message: { type: "string" } }, ["message"]);
+    case "report":
+      return { ...envelope({ data: {} }, []), additionalProperties: true };
+  }
+};
+
+// Overrides for operations that no longer exist, and models the client does not know
+export const findResponseProblems = (routes: RouteRef[]): string[] => {
+  const problems: string[] = [];
+  const models = new Set(Prisma.dmmf.datamodel.models.map((model) => model.name));
+  const operationIds = new Set(routes.map((route) => route.operationId));
+
+  for (const operationId of Object.keys(RESPONSE_OVERRIDES)) {
+    if (!operationIds.has(operationId)) {
+      problems.push(`response override "${operationId}" matches no route`);
+    }
+  }
+
+  for (const route of routes) {
+    const spec = resolveResponse(route);
+    if ((spec.kind === "model" || spec.kind === "paginated") && !models.has(spec.model)) {
+      problems.push(
+        `${route.operationId}: response model "${spec.model}" is unknown, map the "${route.tag}" tag or add an override`,
+      );
+    }
+  }
+
+  return problems;
+};
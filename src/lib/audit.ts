@@ -0,0 +1,164 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Request } from "express";
+import { Prisma, PrismaClient } from "../../generated/prisma";
+
+// Models whose create/update/delete operations are written to the audit log
+export const AUDITED_MODELS = [
+  "Product",
+  "Inventory",
+  "Warehouse",
+  "Category",
+  "Order",
+  "Customer",
+  "CustomerAddress",
+  "Shipment",
+  "ReturnAuthorization",
+  "Transfer",
+  "Transaction",
+  "CarbonTracking",
+  "RecyclingRecord",
+  "MaterialFlow",
+  "Supplier",
+  "SupplierProduct",
+  "PurchaseOrder",
+  "PriceList",
+  "TaxRate",
+  "Delivery",
+  "StockCountSession",
+  "StockCount",
+  "SystemSetting",
+  "User",
+];
+
+export interface AuditEntry {
+  action: "CREATE" | "UPDATE" | "DELETE";
+  entityType: string;
+  entityId: string | null;
+  oldValues: Prisma.InputJsonValue | null;
+  newValues: Prisma.InputJsonValue | null;
+}
+
+// Per-request state. Entries are buffered and only persisted once the response
+// succeeds, so writes rolled back by a failed request never show up in the log.
+export interface AuditContext {
+  req: Request;
+  entries: AuditEntry[];
+}
+
+export const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+// Client of the interactive transaction the current code runs in, if any
+const transactionStorage = new AsyncLocalStorage<unknown>();
+
+// Wrap a client's $transaction so interactive callbacks run with their transaction client
+// in scope. Before-snapshots are then read on the transaction's own connection, see its
+// uncommitted writes, and never wait on a second pool connection.
+export const trackTransactions =
+  (transaction: (...args: any[]) => Promise<any>) =>
+  (operations: unknown, ...options: unknown[]) =>
+    typeof operations === "function"
+      ? transaction(
+          (tx: unknown) => transactionStorage.run(tx, () => operations(tx)),
+          ...options,
+        )
+      : transaction(operations, ...options);
+
+// Product -> PRODUCT, CarbonTracking -> CARBON_TRACKING
+export const toEntityType = (model: string): string => {
+  return model.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+};
+
+// Strip dates/undefined so snapshots can be stored as JSON
+const snapshot = (value: unknown): Prisma.InputJsonValue | null => {
+  if (value === null || value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+};
+
+const delegateFor = (client: unknown, model: string): any => {
+  return (client as any)[model.charAt(0).toLowerCase() + model.slice(1)];
+};
+
+// Query extension recording mutations on audited models into the active request context.
+// Before-snapshots are read inside the surrounding transaction, or with the base client.
+export const createAuditExtension = (client: PrismaClient) =>
+  Prisma.defineExtension({
+    name: "audit",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const context = auditStorage.getStore();
+          if (!context || !model || !AUDITED_MODELS.includes(model)) {
+            return query(args);
+          }
+
+          const delegate = delegateFor(transactionStorage.getStore() ?? client, model);
+          const entityType = toEntityType(model);
+          const record = (entry: Omit<AuditEntry, "entityType">) =>
+            context.entries.push({ ...entry, entityType });
+          const anyArgs = args as any;
+
+          switch (operation) {
+            case "create": {
+              const result: any = await query(args);
+              record({
+                action: "CREATE",
+                entityId: result?.id ?? null,
+                oldValues: null,
+                newValues: snapshot(result),
+              });
+              return result;
+            }
+            case "createMany":
+            case "createManyAndReturn": {
+              const result: any = await query(args);
+              const rows = Array.isArray(result)
+                ? result
+                : [].concat(anyArgs.data ?? []);
+              for (const row of rows) {
+                record({
+                  action: "CREATE",
+                  entityId: row?.id ?? null,
+                  oldValues: null,
+                  newValues: snapshot(row),
+                });
+              }
+              return result;
+            }
+            case "update":
+            case "delete":
+            case "upsert": {
+              const before = await delegate.findUnique({ where: anyArgs.where });
+              const result: any = await query(args);
+              const action =
+                operation === "delete" ? "DELETE" : before ? "UPDATE" : "CREATE";
+              record({
+                action,
+                entityId: result?.id ?? before?.id ?? null,
+                oldValues: snapshot(before),
+                newValues: operation === "delete" ? null : snapshot(result),
+              });
+              return result;
+            }
+            case "updateMany":
+            case "updateManyAndReturn":
+            case "deleteMany": {
+              const before: any[] = await delegate.findMany({ where: anyArgs.where });
+              const result = await query(args);
+              for (const row of before) {
+                record({
+                  action: operation === "deleteMany" ? "DELETE" : "UPDATE",
+                  entityId: row.id ?? null,
+                  oldValues: snapshot(row),
+                  // Bulk updates only know the applied change set, not the resulting rows
+                  newValues: operation === "deleteMany" ? null : snapshot(anyArgs.data),
+                });
+              }
+              return result;
+            }
+            default:
+              return query(args);
+          }
+        },
+      },
+    },
+  });
@@ -1,14 +1,38 @@
 import { PrismaClient } from '../../generated/prisma'
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
+import { createAuditExtension, trackTransactions } from "./audit";
 import dotenv from 'dotenv';
 dotenv.config();
 
 // initialize instance
-const connectionString = process.env.DATABASE_URL;
-if (!connectionString)
-  throw new Error("DATABASE_URL is not defined in .env file");
-const pgPool = new Pool({ connectionString });
-const adapter = new PrismaPg(pgPool);
+const createClient = () => {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString)
+    throw new Error("DATABASE_URL is not defined in .env file");
+  const pgPool = new Pool({ connectionString });
+  const adapter = new PrismaPg(pgPool);
 
-export const prisma = new PrismaClient({ adapter });
+  const basePrisma = new PrismaClient({ adapter });
+
+  // mutations on audited models are recorded against the current request
+  return basePrisma.$extends(createAuditExtension(basePrisma));
+};
+
+type Client = ReturnType<typeof createClient>;
+let client: Client | undefined;
+
+// Connects on first use, so tooling that only loads the routes (docs:check) runs without a database
+export const prisma = new Proxy({} as Client, {
+  get: (_target, property) => {
+    client ??= createClient();
+    if (property === "$transaction") return trackTransactions(client.$transaction.bind(client));
+    const value = Reflect.get(client, property);
+    return typeof value === "function" ? value.bind(client) : value;
+  },
+});
+
+// Client handed to interactive transaction callbacks
+export type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
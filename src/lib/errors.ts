@@ -0,0 +1,83 @@
+// Domain errors thrown by services. The central error handler turns them into
+// `{ success: false, error, code, details? }` responses with the matching status.
+
+export const ERROR_CODES = {
+  VALIDATION_FAILED: "VALIDATION_FAILED",
+  INVALID_JSON: "INVALID_JSON",
+  UNAUTHORIZED: "UNAUTHORIZED",
+  FORBIDDEN: "FORBIDDEN",
+  NOT_FOUND: "NOT_FOUND",
+  CONFLICT: "CONFLICT",
+  INVALID_TRANSITION: "INVALID_TRANSITION",
+  INSUFFICIENT_STOCK: "INSUFFICIENT_STOCK",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+} as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
+
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly details?: unknown;
+
+  constructor(message: string, status: number, code: ErrorCode, details?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// 400 - input the schemas could not catch (cross-field rules, bad setting values, ...)
+export class ValidationError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 400, ERROR_CODES.VALIDATION_FAILED, details);
+  }
+}
+
+// 401 - missing, invalid or unknown bearer token
+export class UnauthorizedError extends AppError {
+  constructor(message: string) {
+    super(message, 401, ERROR_CODES.UNAUTHORIZED);
+  }
+}
+
+// 403 - missing permissions, inactive accounts, records outside the caller's warehouse
+// scope, or fields their role may not set
+export class ForbiddenError extends AppError {
+  constructor(message: string, details?: { permission?: string }) {
+    super(message, 403, ERROR_CODES.FORBIDDEN, details);
+  }
+}
+
+// 404 - `new NotFoundError("Product")` reads "Product not found"
+export class NotFoundError extends AppError {
+  constructor(resource: string, message: string = `${resource} not found`) {
+    super(message, 404, ERROR_CODES.NOT_FOUND, { resource });
+  }
+}
+
+// 409 - duplicates and deletes/changes blocked by dependent records
+export class ConflictError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 409, ERROR_CODES.CONFLICT, details);
+  }
+}
+
+// 409 - the record's current status does not allow the requested change
+export class InvalidTransitionError extends AppError {
+  constructor(message: string, details?: { from?: string; to?: string }) {
+    super(message, 409, ERROR_CODES.INVALID_TRANSITION, details);
+  }
+}
+
+// 422 - well-formed request that cannot be met with the stock on hand
+export class InsufficientStockError extends AppError {
+  constructor(
+    message: string,
+    details?: { productId: string; requested: number; available: number },
+  ) {
+    super(message, 422, ERROR_CODES.INSUFFICIENT_STOCK, details);
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AllocationStrategy, CandidateWarehouse, planFulfillment, PlanOptions } from "./fulfillment";
+
+// Customer in Berlin; "near" is Potsdam (~27 km), "far" is Munich (~500 km)
+const destination = { latitude: 52.52, longitude: 13.405 };
+
+const warehouse = (
+  id: string,
+  latitude: number | null,
+  longitude: number | null,
+  available: Record<string, number>,
+): CandidateWarehouse => ({
+  id,
+  location: latitude === null || longitude === null ? null : { latitude, longitude },
+  available: new Map(Object.entries(available)),
+});
+
+const plan = (overrides: Partial<PlanOptions>) =>
+  planFulfillment({
+    lines: [{ key: "line", productId: "p1", quantity: 10, unitWeightKg: 1 }],
+    warehouses: [],
+    strategy: "NEAREST",
+    allowSplit: false,
+    destination,
+    shippingKgPerTonneKm: 0.1,
+    ...overrides,
+  });
+
+describe("planFulfillment", () => {
+  const near = warehouse("near", 52.39, 13.06, { p1: 4 });
+  const far = warehouse("far", 48.14, 11.58, { p1: 20 });
+  const unknown = warehouse("unknown", null, null, { p1: 6 });
+
+  it("ships from one warehouse that covers the whole order when splitting is off", () => {
+    for (const strategy of ["NEAREST", "MOST_STOCK", "LOWEST_CARBON"] as AllocationStrategy[]) {
+      const result = plan({ strategy, warehouses: [near, far, unknown] });
+
+      assert.deepEqual(
+        result.allocations,
+        [{ key: "line", productId: "p1", warehouseId: "far", quantity: 10 }],
+        strategy,
+      );
+      assert.deepEqual(result.shortfalls, [], strategy);
+      assert.equal(result.primaryWarehouseId, "far", strategy);
+    }
+  });
+
+  it("takes the best partial warehouse and backorders the rest when none covers the order", () => {
+    const result = plan({ strategy: "MOST_STOCK", warehouses: [near, unknown] });
+
+    assert.deepEqual(result.allocations, [
+      { key: "line", productId: "p1", warehouseId: "unknown", quantity: 6 },
+    ]);
+    assert.deepEqual(result.shortfalls, [
+      { key: "line", productId: "p1", requested: 10, available: 6 },
+    ]);
+  });
+
+  it("splits from the nearest warehouses first, unknown locations last", () => {
+    const result = plan({ strategy: "NEAREST", allowSplit: true, warehouses: [unknown, far, near] });
+
+    assert.deepEqual(
+      result.ranking.map((score) => score.warehouseId),
+      ["near", "far", "unknown"],
+    );
+    assert.deepEqual(
+      result.allocations.map((allocation) => [allocation.warehouseId, allocation.quantity]),
+      [["near", 4], ["far", 6]],
+    );
+    assert.equal(result.primaryWarehouseId, "far");
+  });
+
+  it("splits from the warehouses holding the most stock first", () => {
+    const result = plan({
+      strategy: "MOST_STOCK",
+      allowSplit: true,
+      lines: [{ key: "line", productId: "p1", quantity: 12, unitWeightKg: 1 }],
+      warehouses: [near, unknown, warehouse("mid", 50.11, 8.68, { p1: 8 })],
+    });
+
+    assert.deepEqual(
+      result.allocations.map((allocation) => [allocation.warehouseId, allocation.quantity]),
+      [["mid", 8], ["unknown", 4]],
+    );
+  });
+
+  it("splits from the lowest emissions per unit first", () => {
+    const result = plan({ strategy: "LOWEST_CARBON", allowSplit: true, warehouses: [far, near] });
+
+    assert.deepEqual(
+      result.allocations.map((allocation) => allocation.warehouseId),
+      ["near", "far"],
+    );
+    const [nearScore] = result.ranking;
+    assert.ok(nearScore.distanceKm! > 20 && nearScore.distanceKm! < 35);
+    assert.equal(nearScore.estimatedCarbonKg, (4 / 1000) * nearScore.distanceKm! * 0.1);
+  });
+
+  it("records a shortfall for what no warehouse holds", () => {
+    const result = plan({
+      allowSplit: true,
+      lines: [
+        { key: "a", productId: "p1", quantity: 30, unitWeightKg: 1 },
+        { key: "b", productId: "p2", quantity: 2, unitWeightKg: 1 },
+      ],
+      warehouses: [near, far],
+    });
+
+    assert.deepEqual(result.shortfalls, [
+      { key: "a", productId: "p1", requested: 30, available: 24 },
+      { key: "b", productId: "p2", requested: 2, available: 0 },
+    ]);
+  });
+
+  it("backorders everything when no warehouse has stock", () => {
+    const result = plan({ warehouses: [warehouse("empty", 52, 13, {})] });
+
+    assert.deepEqual(result.allocations, []);
+    assert.equal(result.primaryWarehouseId, null);
+    assert.deepEqual(result.shortfalls, [
+      { key: "line", productId: "p1", requested: 10, available: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { Coordinates, distanceKm } from "./geo";
+
+export const ALLOCATION_STRATEGIES = ["NEAREST", "MOST_STOCK", "LOWEST_CARBON"] as const;
+
+export type AllocationStrategy = (typeof ALLOCATION_STRATEGIES)[number];
+
+export const isAllocationStrategy = (value: unknown): value is AllocationStrategy => {
+  return ALLOCATION_STRATEGIES.includes(value as AllocationStrategy);
+};
+
+export interface FulfillmentLine {
+  // Caller's key for the line (order item id, or its index before the item exists)
+  key: string;
+  productId: string;
+  quantity: number;
+  unitWeightKg: number;
+}
+
+export interface CandidateWarehouse {
+  id: string;
+  location: Coordinates | null;
+  // productId -> units available to reserve
+  available: Map<string, number>;
+}
+
+export interface PlannedAllocation {
+  key: string;
+  productId: string;
+  warehouseId: string;
+  quantity: number;
+}
+
+export interface LineShortfall {
+  key: string;
+  productId: string;
+  requested: number;
+  available: number;
+}
+
+export interface FulfillmentPlan {
+  allocations: PlannedAllocation[];
+  shortfalls: LineShortfall[];
+  // Warehouse holding most of the reserved units; null when nothing could be reserved
+  primaryWarehouseId: string | null;
+  ranking: WarehouseScore[];
+}
+
+export interface WarehouseScore {
+  warehouseId: string;
+  coveredUnits: number;
+  coversAll: boolean;
+  distanceKm: number | null;
+  estimatedCarbonKg: number | null;
+}
+
+export interface PlanOptions {
+  lines: FulfillmentLine[];
+  warehouses: CandidateWarehouse[];
+  strategy: AllocationStrategy;
+  allowSplit: boolean;
+  destination: Coordinates | null;
+  shippingKgPerTonneKm: number;
+}
+
+const scoreWarehouse = (
+  warehouse: CandidateWarehouse,
+  { lines, destination, shippingKgPerTonneKm }: PlanOptions,
+): WarehouseScore => {
+  let coveredUnits = 0;
+  let coveredWeightKg = 0;
+  let coversAll = true;
+
+  // Lines for the same product compete for the same units
+  const remaining = new Map(warehouse.available);
+  for (const line of lines) {
+    const stock = remaining.get(line.productId) ?? 0;
+    const covered = Math.min(stock, line.quantity);
+    remaining.set(line.productId, stock - covered);
+
+    coveredUnits += covered;
+    coveredWeightKg += covered * line.unitWeightKg;
+    if (covered < line.quantity) coversAll = false;
+  }
+
+  const distance = distanceKm(warehouse.location, destination);
+
+  return {
+    warehouseId: warehouse.id,
+    coveredUnits,
+    coversAll,
+    distanceKm: distance,
+    estimatedCarbonKg:
+      distance === null ? null : (coveredWeightKg / 1000) * distance * shippingKgPerTonneKm,
+  };
+};
+
+// Unknown values sort after known ones
+const compareNullable = (a: number | null, b: number | null) => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+};
+
+const carbonPerUnit = (score: WarehouseScore) => {
+  if (score.estimatedCarbonKg === null || score.coveredUnits === 0) return null;
+  return score.estimatedCarbonKg / score.coveredUnits;
+};
+
+const STRATEGY_COMPARATORS: Record<
+  AllocationStrategy,
+  (a: WarehouseScore, b: WarehouseScore) => number
+> = {
+  MOST_STOCK: (a, b) => b.coveredUnits - a.coveredUnits,
+  NEAREST: (a, b) =>
+    compareNullable(a.distanceKm, b.distanceKm) || b.coveredUnits - a.coveredUnits,
+  LOWEST_CARBON: (a, b) =>
+    compareNullable(carbonPerUnit(a), carbonPerUnit(b)) || b.coveredUnits - a.coveredUnits,
+};
+
+// Decide which warehouse reserves which units. Without splitting, the best warehouse that
+// can ship the whole order wins (or the best partial one when none can); with splitting,
+// lines are filled greedily from the ranked warehouses. Anything left over is a shortfall.
+export const planFulfillment = (options: PlanOptions): FulfillmentPlan => {
+  const { lines, warehouses, strategy, allowSplit } = options;
+  const compare = STRATEGY_COMPARATORS[strategy];
+
+  const ranking = warehouses
+    .map((warehouse) => scoreWarehouse(warehouse, options))
+    .filter((score) => score.coveredUnits > 0)
+    .sort((a, b) => (allowSplit ? 0 : Number(b.coversAll) - Number(a.coversAll)) || compare(a, b));
+
+  const sources = allowSplit ? ranking : ranking.slice(0, 1);
+  const remaining = new Map(
+    warehouses.map((warehouse) => [warehouse.id, new Map(warehouse.available)]),
+  );
+
+  const allocations: PlannedAllocation[] = [];
+  const shortfalls: LineShortfall[] = [];
+
+  for (const line of lines) {
+    let outstanding = line.quantity;
+
+    for (const source of sources) {
+      if (outstanding === 0) break;
+
+      const stock = remaining.get(source.warehouseId)!;
+      const quantity = Math.min(stock.get(line.productId) ?? 0, outstanding);
+      if (quantity === 0) continue;
+
+      stock.set(line.productId, (stock.get(line.productId) ?? 0) - quantity);
+      outstanding -= quantity;
+      allocations.push({
+        key: line.key,
+        productId: line.productId,
+        warehouseId: source.warehouseId,
+        quantity,
+      });
+    }
+
+    if (outstanding > 0) {
+      shortfalls.push({
+        key: line.key,
+        productId: line.productId,
+        requested: line.quantity,
+        available: line.quantity - outstanding,
+      });
+    }
+  }
+
+  const unitsByWarehouse = new Map<string, number>();
+  for (const allocation of allocations) {
+    unitsByWarehouse.set(
+      allocation.warehouseId,
+      (unitsByWarehouse.get(allocation.warehouseId) ?? 0) + allocation.quantity,
+    );
+  }
+  const primaryWarehouseId =
+    [...unitsByWarehouse.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  return { allocations, shortfalls, primaryWarehouseId, ranking };
+};
@@ -0,0 +1,30 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Coordinates from a record with optional latitude/longitude columns
+export const coordinatesOf = (record: {
+  latitude?: number | null;
+  longitude?: number | null;
+}): Coordinates | null => {
+  if (record.latitude == null || record.longitude == null) return null;
+  return { latitude: record.latitude, longitude: record.longitude };
+};
+
+// Great-circle (haversine) distance; null when either side has no coordinates
+export const distanceKm = (from: Coordinates | null, to: Coordinates | null): number | null => {
+  if (!from || !to) return null;
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
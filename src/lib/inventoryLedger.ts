@@ -0,0 +1,163 @@
+import { TransactionClient } from "./db";
+import { ConflictError, InsufficientStockError } from "./errors";
+
+// Every change to an inventory row goes through recordStockMovement. It writes the new
+// levels with a compare-and-swap on the row's version and appends a movement row, so the
+// stock on record is always the sum of its movements and available = quantity - reserved.
+
+export interface StockReference {
+  referenceType?: string;
+  referenceId?: string;
+}
+
+export interface StockMovementInput extends StockReference {
+  warehouseId: string;
+  productId: string;
+  type: string;
+  quantityDelta?: number;
+  reservedDelta?: number;
+  // Absolute quantity for adjustments and counts; replaces quantityDelta
+  setQuantity?: number;
+  // Only apply while the row is still at this version (clients editing what they last read)
+  expectedVersion?: number;
+  transactionId?: string;
+  performedById?: string;
+  notes?: string | null;
+}
+
+// Concurrent writers retry against the fresh row before giving up
+const MAX_ATTEMPTS = 3;
+
+export const calculateReorderStatus = (
+  quantity: number,
+  product: { minStockLevel: number; reorderPoint: number }
+): string => {
+  if (quantity <= product.minStockLevel) return "BELOW_MIN";
+  if (quantity <= product.reorderPoint) return "BELOW_REORDER";
+  return "OK";
+};
+
+// Apply one stock change. Fails with InsufficientStockError when it would leave negative
+// available or reserved stock, and with ConflictError when the row keeps changing underneath.
+// Returns the row before and after the change; no movement is recorded when nothing changed.
+export const recordStockMovement = async (tx: TransactionClient, input: StockMovementInput) => {
+  const { warehouseId, productId } = input;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const current = await findOrCreateInventory(tx, warehouseId, productId);
+
+    if (input.expectedVersion !== undefined && current.version !== input.expectedVersion) {
+      throw new ConflictError(
+        `Inventory for ${current.product.name} changed since version ${input.expectedVersion}`,
+        { currentVersion: current.version }
+      );
+    }
+
+    const quantity =
+      input.setQuantity !== undefined
+        ? input.setQuantity
+        : current.quantity + (input.quantityDelta ?? 0);
+    const reserved = current.reserved + (input.reservedDelta ?? 0);
+    const available = quantity - reserved;
+
+    if (reserved < 0) {
+      throw new InsufficientStockError(
+        `Insufficient reserved stock for product ${current.product.name}`,
+        { productId, requested: -(input.reservedDelta ?? 0), available: current.reserved }
+      );
+    }
+    if (available < 0 && input.setQuantity !== undefined) {
+      throw new InsufficientStockError(
+        `Cannot set stock of ${current.product.name} to ${quantity}: ${reserved} units are reserved`,
+        { productId, requested: reserved, available: quantity }
+      );
+    }
+    if (available < 0) {
+      throw new InsufficientStockError(
+        `Insufficient stock for product ${current.product.name}`,
+        { productId, requested: current.available - available, available: current.available }
+      );
+    }
+
+    if (quantity === current.quantity && reserved === current.reserved) {
+      return { previous: current, inventory: current, movement: null };
+    }
+
+    const { count } = await tx.inventory.updateMany({
+      where: { id: current.id, version: current.version },
+      data: {
+        quantity,
+        reserved,
+        available,
+        version: { increment: 1 },
+        reorderStatus: calculateReorderStatus(quantity, current.product),
+        lastUpdated: new Date(),
+      },
+    });
+
+    // Someone else wrote the row since it was read; start over from their result
+    if (count === 0) {
+      if (input.expectedVersion !== undefined) {
+        throw new ConflictError(
+          `Inventory for ${current.product.name} changed since version ${input.expectedVersion}`
+        );
+      }
+      continue;
+    }
+
+    const movement = await tx.inventoryMovement.create({
+      data: {
+        warehouseId,
+        productId,
+        type: input.type,
+        quantityDelta: quantity - current.quantity,
+        reservedDelta: reserved - current.reserved,
+        quantityAfter: quantity,
+        reservedAfter: reserved,
+        availableAfter: available,
+        transactionId: input.transactionId,
+        referenceId: input.referenceId,
+        referenceType: input.referenceType,
+        performedById: input.performedById,
+        notes: input.notes,
+      },
+    });
+
+    const inventory = {
+      ...current,
+      quantity,
+      reserved,
+      available,
+      version: current.version + 1,
+    };
+
+    return { previous: current, inventory, movement };
+  }
+
+  throw new ConflictError(
+    `Inventory for product ${productId} in warehouse ${warehouseId} is being changed concurrently, please retry`
+  );
+};
+
+// Stock rows appear on first use. Skipping duplicates lets two first movements race
+// without either failing on the unique key.
+const findOrCreateInventory = async (
+  tx: TransactionClient,
+  warehouseId: string,
+  productId: string
+) => {
+  const where = { warehouseId_productId: { warehouseId, productId } };
+  const include = {
+    product: { select: { name: true, minStockLevel: true, reorderPoint: true } },
+  };
+
+  const existing = await tx.inventory.findUnique({ where, include });
+  if (existing) return existing;
+
+  await tx.inventory.createMany({
+    data: [{ warehouseId, productId }],
+    skipDuplicates: true,
+  });
+
+  return (await tx.inventory.findUnique({ where, include }))!;
+};
@@ -0,0 +1,84 @@
+import fs from "fs";
+import { createPublicKey, KeyObject } from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import dotenv from "dotenv";
+dotenv.config();
+
+// Supported configurations:
+//   JWT_SECRET     -> HS256 tokens (e.g. the Supabase project JWT secret)
+//   JWT_JWKS_PATH  -> RS256 tokens verified against a local JWKS file
+// Both may be set at the same time; the token header decides which is used.
+const jwtSecret = process.env.JWT_SECRET;
+const jwksPath = process.env.JWT_JWKS_PATH;
+const issuer = process.env.JWT_ISSUER || undefined;
+const audience = process.env.JWT_AUDIENCE || undefined;
+
+if (!jwtSecret && !jwksPath)
+  throw new Error("JWT_SECRET or JWT_JWKS_PATH must be defined in .env file");
+
+interface Jwk {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+// Load the JWKS file once and index the public keys by kid
+const loadJwks = (path: string): Map<string, KeyObject> => {
+  const raw = JSON.parse(fs.readFileSync(path, "utf8"));
+  const keys: Jwk[] = Array.isArray(raw.keys) ? raw.keys : [];
+  const keyMap = new Map<string, KeyObject>();
+
+  keys
+    .filter((key) => key.kty === "RSA" && (!key.use || key.use === "sig"))
+    .forEach((key, index) => {
+      keyMap.set(key.kid || `key-${index}`, createPublicKey({ key, format: "jwk" }));
+    });
+
+  if (keyMap.size === 0) {
+    throw new Error(`No RSA signing keys found in JWKS file ${path}`);
+  }
+
+  return keyMap;
+};
+
+const jwks = jwksPath ? loadJwks(jwksPath) : null;
+
+// Resolve the verification key for a token based on its header
+const resolveKey = (header: jwt.JwtHeader): { key: string | KeyObject; algorithm: jwt.Algorithm } => {
+  if (header.alg === "HS256") {
+    if (!jwtSecret) throw new Error("HS256 tokens are not accepted");
+    return { key: jwtSecret, algorithm: "HS256" };
+  }
+
+  if (header.alg === "RS256") {
+    if (!jwks) throw new Error("RS256 tokens are not accepted");
+    const key = header.kid ? jwks.get(header.kid) : jwks.size === 1 ? jwks.values().next().value : undefined;
+    if (!key) throw new Error("Unknown signing key");
+    return { key, algorithm: "RS256" };
+  }
+
+  throw new Error(`Unsupported token algorithm: ${header.alg}`);
+};
+
+// Verify a bearer token and return its claims. Throws on any failure.
+export const verifyAccessToken = (token: string): JwtPayload & { sub: string } => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error("Malformed token");
+  }
+
+  const { key, algorithm } = resolveKey(decoded.header);
+  const payload = jwt.verify(token, key, {
+    algorithms: [algorithm],
+    issuer,
+    audience,
+  }) as JwtPayload;
+
+  if (!payload.sub) {
+    throw new Error("Token is missing the subject claim");
+  }
+
+  return payload as JwtPayload & { sub: string };
+};
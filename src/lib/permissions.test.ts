@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PERMISSIONS, ROLES, ROLE_PERMISSIONS, getRolePermissions, hasPermission } from "./permissions";
+
+describe("permission matrix", () => {
+  it("grants admins every permission", () => {
+    for (const permission of PERMISSIONS) {
+      assert.ok(hasPermission("admin", permission), permission);
+    }
+  });
+
+  it("keeps settings and user management to admins", () => {
+    for (const role of ROLES.filter((role) => role !== "admin")) {
+      assert.equal(hasPermission(role, "setting:write"), false, role);
+      assert.equal(hasPermission(role, "user:write"), false, role);
+    }
+  });
+
+  it("keeps destructive and approval actions to managers and admins", () => {
+    const managerOnly = [
+      "warehouse:delete",
+      "inventory:bulk-update",
+      "transfer:complete",
+      "transfer:approve",
+      "transaction:delete",
+      "pricing:override",
+      "stock-count:review",
+    ] as const;
+
+    for (const permission of managerOnly) {
+      const granted = ROLES.filter((role) => hasPermission(role, permission));
+      assert.deepEqual(granted, ["admin", "manager"], permission);
+    }
+  });
+
+  it("lets staff record stock movements but not edit levels or the catalog", () => {
+    assert.ok(hasPermission("staff", "transaction:stock-in"));
+    assert.ok(hasPermission("staff", "transaction:stock-out"));
+    assert.ok(hasPermission("staff", "transfer:create"));
+
+    assert.equal(hasPermission("staff", "inventory:write"), false);
+    assert.equal(hasPermission("staff", "product:write"), false);
+    assert.equal(hasPermission("staff", "transfer:update"), false);
+    assert.equal(hasPermission("staff", "transaction:adjust"), false);
+  });
+
+  it("gives analysts read access only, without audit logs or users", () => {
+    const permissions = getRolePermissions("analyst");
+    assert.ok(permissions.length > 0);
+    assert.ok(permissions.every((permission) => permission.endsWith(":read")));
+    assert.equal(hasPermission("analyst", "audit-log:read"), false);
+    assert.equal(hasPermission("analyst", "user:read"), false);
+  });
+
+  it("grants nothing to unknown roles", () => {
+    assert.equal(hasPermission("guest", "warehouse:read"), false);
+    assert.deepEqual(getRolePermissions("guest"), []);
+  });
+
+  it("only grants declared permissions, once each", () => {
+    for (const role of ROLES) {
+      const permissions = ROLE_PERMISSIONS[role];
+      assert.equal(new Set(permissions).size, permissions.length, role);
+      assert.ok(permissions.every((permission) => PERMISSIONS.includes(permission)), role);
+    }
+  });
+});
@@ -0,0 +1,136 @@
+// Role-based permission matrix. Kept free of any database/express imports so it
+// can be inspected and tested on its own.
+
+export const PERMISSIONS = [
+  // Warehouses
+  "warehouse:read",
+  "warehouse:create",
+  "warehouse:update",
+  "warehouse:delete",
+  // Inventory
+  "inventory:read",
+  "inventory:write",
+  "inventory:delete",
+  "inventory:bulk-update",
+  // Products
+  "product:read",
+  "product:write",
+  "product:delete",
+  "product:bulk-update",
+  // Categories
+  "category:read",
+  "category:write",
+  "category:delete",
+  // Transactions
+  "transaction:read",
+  "transaction:stock-in",
+  "transaction:stock-out",
+  "transaction:adjust",
+  "transaction:waste",
+  "transaction:update",
+  "transaction:delete",
+  // Orders
+  "order:read",
+  "order:create",
+  "order:update",
+  "order:fulfill",
+  // Customers
+  "customer:read",
+  "customer:write",
+  "customer:delete",
+  // Pricing
+  "pricing:read",
+  "pricing:write",
+  "pricing:override",
+  // Transfers
+  "transfer:read",
+  "transfer:create",
+  "transfer:update",
+  "transfer:complete",
+  "transfer:approve",
+  "transfer:delete",
+  // Sustainability
+  "sustainability:read",
+  "sustainability:write",
+  "sustainability:delete",
+  // Suppliers
+  "supplier:read",
+  "supplier:write",
+  "supplier:delete",
+  // Purchase orders
+  "purchase-order:read",
+  "purchase-order:write",
+  "purchase-order:approve",
+  // Deliveries
+  "delivery:read",
+  "delivery:write",
+  "delivery:receive",
+  // Stock counts
+  "stock-count:read",
+  "stock-count:write",
+  "stock-count:review",
+  // Audit log
+  "audit-log:read",
+  // System settings
+  "setting:read",
+  "setting:write",
+  // Users
+  "user:read",
+  "user:write",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = ["admin", "manager", "staff", "analyst", "sustainability"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Read permissions only admins and managers get
+const RESTRICTED_READ_PERMISSIONS: Permission[] = ["audit-log:read", "user:read"];
+
+const READ_PERMISSIONS: Permission[] = PERMISSIONS.filter(
+  (permission) =>
+    permission.endsWith(":read") && !RESTRICTED_READ_PERMISSIONS.includes(permission),
+);
+
+// Permissions reserved for admins
+const ADMIN_ONLY_PERMISSIONS: Permission[] = ["setting:write", "user:write"];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  manager: PERMISSIONS.filter((permission) => !ADMIN_ONLY_PERMISSIONS.includes(permission)),
+  // Floor work: stock moves through transactions and documents, never by editing levels or the catalog
+  staff: [
+    ...READ_PERMISSIONS,
+    "transaction:stock-in",
+    "transaction:stock-out",
+    "transaction:update",
+    "order:create",
+    "order:update",
+    "order:fulfill",
+    "customer:write",
+    "transfer:create",
+    "sustainability:write",
+    "purchase-order:write",
+    "delivery:write",
+    "delivery:receive",
+    "stock-count:write",
+  ],
+  analyst: READ_PERMISSIONS,
+  sustainability: [
+    ...READ_PERMISSIONS,
+    "sustainability:write",
+    "sustainability:delete",
+  ],
+};
+
+// Check whether a role grants a permission. Unknown roles get nothing.
+export const hasPermission = (role: string, permission: Permission): boolean => {
+  const permissions = ROLE_PERMISSIONS[role as Role];
+  return permissions ? permissions.includes(permission) : false;
+};
+
+// List every permission granted to a role
+export const getRolePermissions = (role: string): readonly Permission[] => {
+  return ROLE_PERMISSIONS[role as Role] || [];
+};
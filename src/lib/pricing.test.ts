@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateShippingCost,
+  calculateTax,
+  chargeableWeightKg,
+  PriceBreak,
+  resolveTaxRule,
+  selectPriceBreak,
+} from "./pricing";
+
+const priceBreak = (overrides: Partial<PriceBreak>): PriceBreak => ({
+  priceListId: "list",
+  specific: false,
+  priority: 0,
+  minQuantity: 1,
+  unitPrice: 10,
+  ...overrides,
+});
+
+describe("selectPriceBreak", () => {
+  const breaks = [
+    priceBreak({ minQuantity: 1, unitPrice: 10 }),
+    priceBreak({ minQuantity: 10, unitPrice: 9 }),
+    priceBreak({ minQuantity: 50, unitPrice: 8 }),
+  ];
+
+  it("uses the largest quantity break reached", () => {
+    assert.equal(selectPriceBreak(breaks, 1)?.unitPrice, 10);
+    assert.equal(selectPriceBreak(breaks, 9)?.unitPrice, 10);
+    assert.equal(selectPriceBreak(breaks, 10)?.unitPrice, 9);
+    assert.equal(selectPriceBreak(breaks, 49)?.unitPrice, 9);
+    assert.equal(selectPriceBreak(breaks, 500)?.unitPrice, 8);
+  });
+
+  it("returns null when no break is reached", () => {
+    assert.equal(selectPriceBreak([priceBreak({ minQuantity: 5 })], 4), null);
+    assert.equal(selectPriceBreak([], 1), null);
+  });
+
+  it("prefers specific lists, then priority, over a larger break", () => {
+    const candidates = [
+      priceBreak({ priceListId: "general", minQuantity: 100, unitPrice: 5 }),
+      priceBreak({ priceListId: "promo", priority: 5, minQuantity: 1, unitPrice: 7 }),
+      priceBreak({ priceListId: "customer", specific: true, minQuantity: 1, unitPrice: 9 }),
+    ];
+
+    assert.equal(selectPriceBreak(candidates, 100)?.priceListId, "customer");
+    assert.equal(selectPriceBreak(candidates.slice(0, 2), 100)?.priceListId, "promo");
+  });
+});
+
+describe("shipping", () => {
+  const rates = { baseCost: 5, costPerKg: 2, volumetricKgPerM3: 200 };
+
+  it("charges the higher of actual and volumetric weight", () => {
+    const heavy = [{ quantity: 2, weightKg: 10, volumeM3: 0.01 }];
+    const bulky = [{ quantity: 2, weightKg: 1, volumeM3: 0.5 }];
+
+    assert.equal(chargeableWeightKg(heavy, rates), 20);
+    assert.equal(chargeableWeightKg(bulky, rates), 200);
+  });
+
+  it("charges nothing when there is nothing to carry", () => {
+    assert.equal(calculateShippingCost(0, rates), 0);
+    assert.equal(calculateShippingCost(20, rates), 45);
+  });
+});
+
+describe("tax", () => {
+  it("applies the jurisdiction's rate, including shipping when it says so", () => {
+    const rule = resolveTaxRule({ country: "DE", rate: 0.19, appliesToShipping: true }, 0.1);
+
+    assert.deepEqual(rule, { rate: 0.19, appliesToShipping: true, jurisdiction: "DE" });
+    assert.equal(calculateTax(100, 10, rule), 110 * 0.19);
+  });
+
+  it("falls back to the default rate on goods only without a jurisdiction rate", () => {
+    const rule = resolveTaxRule(null, 0.1);
+
+    assert.deepEqual(rule, { rate: 0.1, appliesToShipping: false, jurisdiction: null });
+    assert.equal(calculateTax(100, 10, rule), 10);
+  });
+});
@@ -0,0 +1,80 @@
+export const PRICE_LIST_TYPES = ["SALES", "PURCHASE"] as const;
+
+export type PriceListType = (typeof PRICE_LIST_TYPES)[number];
+
+export interface PriceBreak {
+  priceListId: string;
+  // Lists aimed at the customer group or supplier beat catch-all lists
+  specific: boolean;
+  priority: number;
+  minQuantity: number;
+  unitPrice: number;
+}
+
+export interface ShippingRates {
+  baseCost: number;
+  costPerKg: number;
+  // Bulky goods are charged by volume: 1 m³ counts as this many kg when heavier than the goods
+  volumetricKgPerM3: number;
+}
+
+export interface ShippableLine {
+  quantity: number;
+  weightKg: number | null;
+  volumeM3: number | null;
+}
+
+export interface TaxRule {
+  rate: number;
+  appliesToShipping: boolean;
+}
+
+// The break that prices a quantity: the most specific list first, then the list with the
+// highest priority, then the largest quantity break reached. Null when nothing applies.
+export const selectPriceBreak = (breaks: PriceBreak[], quantity: number): PriceBreak | null => {
+  const reached = breaks.filter((priceBreak) => priceBreak.minQuantity <= quantity);
+  if (reached.length === 0) return null;
+
+  return reached.sort(
+    (a, b) =>
+      Number(b.specific) - Number(a.specific) ||
+      b.priority - a.priority ||
+      b.minQuantity - a.minQuantity,
+  )[0];
+};
+
+// Weight the carrier charges for: actual weight or volumetric weight, whichever is higher
+export const chargeableWeightKg = (lines: ShippableLine[], rates: ShippingRates): number => {
+  const actualKg = lines.reduce((sum, line) => sum + line.quantity * (line.weightKg ?? 0), 0);
+  const volumeM3 = lines.reduce((sum, line) => sum + line.quantity * (line.volumeM3 ?? 0), 0);
+
+  return Math.max(actualKg, volumeM3 * rates.volumetricKgPerM3);
+};
+
+// Nothing to carry costs nothing; otherwise a base charge plus the rate per chargeable kg
+export const calculateShippingCost = (chargeableKg: number, rates: ShippingRates): number => {
+  if (chargeableKg <= 0) return 0;
+  return rates.baseCost + chargeableKg * rates.costPerKg;
+};
+
+// The jurisdiction's active rate, or the default rate (not applied to shipping) when the
+// order has no country or the country has no rate of its own
+export const resolveTaxRule = (
+  taxRate: { country: string; rate: number; appliesToShipping: boolean } | null,
+  fallbackRate: number,
+): TaxRule & { jurisdiction: string | null } => {
+  if (!taxRate) {
+    return { rate: fallbackRate, appliesToShipping: false, jurisdiction: null };
+  }
+
+  return {
+    rate: taxRate.rate,
+    appliesToShipping: taxRate.appliesToShipping,
+    jurisdiction: taxRate.country,
+  };
+};
+
+export const calculateTax = (subtotal: number, shippingCost: number, rule: TaxRule): number => {
+  const taxable = subtotal + (rule.appliesToShipping ? shippingCost : 0);
+  return taxable * rule.rate;
+};
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { planRebalancing, StockPosition } from "./rebalancing";
+
+const position = (
+  warehouseId: string,
+  available: number,
+  reorderPoint: number,
+  location: StockPosition["location"] = null,
+  productId = "p1",
+): StockPosition => ({ warehouseId, location, productId, available, reorderPoint });
+
+describe("planRebalancing", () => {
+  it("fills sites at their reorder point up to the target multiple", () => {
+    const plan = planRebalancing([position("low", 5, 10), position("full", 100, 10)], 2);
+
+    // Target is 20 at both sites: "low" needs 15, "full" can spare 80
+    assert.deepEqual(plan.moves, [
+      {
+        sourceWarehouseId: "full",
+        destinationWarehouseId: "low",
+        productId: "p1",
+        quantity: 15,
+        distanceKm: null,
+      },
+    ]);
+    assert.deepEqual(plan.shortfalls, []);
+  });
+
+  it("only gives away stock above the donor's own target", () => {
+    const plan = planRebalancing([position("low", 0, 10), position("donor", 35, 10)], 3);
+
+    // The donor keeps its target of 30 and can spare 5 of the 30 needed
+    assert.deepEqual(
+      plan.moves.map((move) => move.quantity),
+      [5],
+    );
+    assert.deepEqual(plan.shortfalls, [{ warehouseId: "low", productId: "p1", quantity: 25 }]);
+  });
+
+  it("rounds fractional targets up", () => {
+    const plan = planRebalancing([position("low", 0, 3), position("full", 50, 3)], 1.5);
+
+    assert.equal(plan.moves[0].quantity, 5);
+  });
+
+  it("leaves sites above their reorder point alone", () => {
+    const plan = planRebalancing([position("ok", 11, 10), position("full", 100, 10)], 2);
+
+    assert.deepEqual(plan, { moves: [], shortfalls: [] });
+  });
+
+  it("serves the emptiest site first, each from the nearest donor", () => {
+    const berlin = { latitude: 52.52, longitude: 13.405 };
+    const potsdam = { latitude: 52.39, longitude: 13.06 };
+    const munich = { latitude: 48.137, longitude: 11.575 };
+
+    const plan = planRebalancing(
+      [
+        position("berlin", 8, 10, berlin),
+        position("empty", 0, 10, munich),
+        position("potsdam", 40, 10, potsdam),
+        position("munich-donor", 30, 10, munich),
+      ],
+      2,
+    );
+
+    // "empty" needs 20 and drains the Munich donor before reaching Potsdam; Berlin then
+    // gets what Potsdam has left
+    assert.deepEqual(
+      plan.moves.map((move) => [move.destinationWarehouseId, move.sourceWarehouseId, move.quantity]),
+      [
+        ["empty", "munich-donor", 10],
+        ["empty", "potsdam", 10],
+        ["berlin", "potsdam", 10],
+      ],
+    );
+    assert.deepEqual(plan.shortfalls, [{ warehouseId: "berlin", productId: "p1", quantity: 2 }]);
+  });
+
+  it("plans each product separately", () => {
+    const plan = planRebalancing(
+      [
+        position("a", 0, 5, null, "p1"),
+        position("b", 20, 5, null, "p1"),
+        position("a", 20, 5, null, "p2"),
+        position("b", 0, 5, null, "p2"),
+      ],
+      2,
+    );
+
+    assert.deepEqual(
+      plan.moves.map((move) => [move.productId, move.sourceWarehouseId, move.quantity]),
+      [
+        ["p1", "b", 10],
+        ["p2", "a", 10],
+      ],
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { Coordinates, distanceKm } from "./geo";
+
+export interface StockPosition {
+  warehouseId: string;
+  location: Coordinates | null;
+  productId: string;
+  available: number;
+  reorderPoint: number;
+}
+
+export interface RebalanceMove {
+  sourceWarehouseId: string;
+  destinationWarehouseId: string;
+  productId: string;
+  quantity: number;
+  distanceKm: number | null;
+}
+
+export interface RebalanceShortfall {
+  warehouseId: string;
+  productId: string;
+  // Units still missing to reach the target level after every move
+  quantity: number;
+}
+
+export interface RebalancePlan {
+  moves: RebalanceMove[];
+  shortfalls: RebalanceShortfall[];
+}
+
+// Unknown distances sort after known ones
+const compareDistance = (a: number | null, b: number | null) => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+};
+
+// Move stock of each product from sites holding more than the target level (reorder point
+// times targetMultiple) to sites at or below their reorder point, filling them up to the
+// target. The emptiest sites are served first, each from the nearest sites with surplus.
+export const planRebalancing = (
+  positions: StockPosition[],
+  targetMultiple: number,
+): RebalancePlan => {
+  const moves: RebalanceMove[] = [];
+  const shortfalls: RebalanceShortfall[] = [];
+  const productIds = [...new Set(positions.map((position) => position.productId))];
+
+  for (const productId of productIds) {
+    const sites = positions.filter((position) => position.productId === productId);
+    const target = (site: StockPosition) => Math.ceil(site.reorderPoint * targetMultiple);
+
+    const surplus = new Map(
+      sites
+        .filter((site) => site.available > target(site))
+        .map((site) => [site.warehouseId, site.available - target(site)]),
+    );
+
+    const deficits = sites
+      .filter((site) => site.available <= site.reorderPoint)
+      .sort((a, b) => a.available - a.reorderPoint - (b.available - b.reorderPoint));
+
+    for (const deficit of deficits) {
+      let needed = target(deficit) - deficit.available;
+
+      const donors = sites
+        .filter((site) => (surplus.get(site.warehouseId) ?? 0) > 0)
+        .map((site) => ({ site, distance: distanceKm(site.location, deficit.location) }))
+        .sort((a, b) => compareDistance(a.distance, b.distance));
+
+      for (const { site, distance } of donors) {
+        if (needed === 0) break;
+
+        const quantity = Math.min(needed, surplus.get(site.warehouseId)!);
+        surplus.set(site.warehouseId, surplus.get(site.warehouseId)! - quantity);
+        needed -= quantity;
+
+        moves.push({
+          sourceWarehouseId: site.warehouseId,
+          destinationWarehouseId: deficit.warehouseId,
+          productId,
+          quantity,
+          distanceKm: distance,
+        });
+      }
+
+      if (needed > 0) {
+        shortfalls.push({ warehouseId: deficit.warehouseId, productId, quantity: needed });
+      }
+    }
+  }
+
+  return { moves, shortfalls };
+};
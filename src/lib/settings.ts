@@ -0,0 +1,324 @@
+import { prisma } from "./db";
+import { ValidationError } from "./errors";
+
+export const SETTING_VALUE_TYPES = ["STRING", "NUMBER", "BOOLEAN", "JSON"] as const;
+
+export type SettingValueType = (typeof SETTING_VALUE_TYPES)[number];
+
+interface ValueTypeMap {
+  STRING: string;
+  NUMBER: number;
+  BOOLEAN: boolean;
+  JSON: unknown;
+}
+
+export interface SettingDefinition {
+  category: string;
+  valueType: SettingValueType;
+  defaultValue: unknown;
+  description: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// Settings the application reads. Stored rows override these defaults; keys not listed
+// here can still be created through the API as free-form settings.
+export const SETTING_DEFINITIONS = {
+  "order.taxRate": {
+    category: "ORDER",
+    valueType: "NUMBER",
+    defaultValue: 0,
+    description: "Tax rate applied to order subtotals when the shipping country has no tax rate (0.12 = 12%)",
+    min: 0,
+    max: 1,
+  },
+  "order.allocationStrategy": {
+    category: "ORDER",
+    valueType: "STRING",
+    defaultValue: "MOST_STOCK",
+    description: "How warehouses are chosen for orders without a fulfillment warehouse (NEAREST, MOST_STOCK, LOWEST_CARBON)",
+  },
+  "order.allowBackorders": {
+    category: "ORDER",
+    valueType: "BOOLEAN",
+    defaultValue: false,
+    description: "Accept order lines that cannot be reserved in full and keep the rest on backorder",
+  },
+  "shipping.baseCost": {
+    category: "SHIPPING",
+    valueType: "NUMBER",
+    defaultValue: 0,
+    description: "Flat charge added to the shipping cost of every order or purchase order that carries goods",
+    min: 0,
+  },
+  "shipping.costPerKg": {
+    category: "SHIPPING",
+    valueType: "NUMBER",
+    defaultValue: 0,
+    description: "Shipping charge per chargeable kg (the higher of actual and volumetric weight)",
+    min: 0,
+  },
+  "shipping.volumetricKgPerM3": {
+    category: "SHIPPING",
+    valueType: "NUMBER",
+    defaultValue: 167,
+    description: "kg charged per m³ of goods when that exceeds their actual weight",
+    min: 0,
+  },
+  "transfer.approvalValueThreshold": {
+    category: "TRANSFER",
+    valueType: "NUMBER",
+    defaultValue: 0,
+    description: "Transfers worth more than this (at cost price) wait for approval; 0 disables the check",
+    min: 0,
+  },
+  "transfer.approvalQuantityThreshold": {
+    category: "TRANSFER",
+    valueType: "NUMBER",
+    defaultValue: 0,
+    description: "Transfers of more units than this wait for approval; 0 disables the check",
+    min: 0,
+    integer: true,
+  },
+  "transfer.rebalanceTargetMultiple": {
+    category: "TRANSFER",
+    valueType: "NUMBER",
+    defaultValue: 2,
+    description: "Rebalancing fills short sites up to this multiple of the reorder point and only takes stock above it",
+    min: 1,
+  },
+  "inventory.defaultMinStockLevel": {
+    category: "INVENTORY",
+    valueType: "NUMBER",
+    defaultValue: 10,
+    description: "Minimum stock level for new products that do not set one",
+    min: 0,
+    integer: true,
+  },
+  "inventory.defaultReorderPoint": {
+    category: "INVENTORY",
+    valueType: "NUMBER",
+    defaultValue: 20,
+    description: "Reorder point for new products that do not set one",
+    min: 0,
+    integer: true,
+  },
+  "numbering.orderPrefix": {
+    category: "NUMBERING",
+    valueType: "STRING",
+    defaultValue: "ORD",
+    description: "Prefix for order numbers",
+  },
+  "numbering.transferPrefix": {
+    category: "NUMBERING",
+    valueType: "STRING",
+    defaultValue: "TRF",
+    description: "Prefix for transfer numbers",
+  },
+  "numbering.purchaseOrderPrefix": {
+    category: "NUMBERING",
+    valueType: "STRING",
+    defaultValue: "PO",
+    description: "Prefix for purchase order numbers",
+  },
+  "numbering.deliveryPrefix": {
+    category: "NUMBERING",
+    valueType: "STRING",
+    defaultValue: "DEL",
+    description: "Prefix for delivery numbers",
+  },
+  "numbering.stockCountPrefix": {
+    category: "NUMBERING",
+    valueType: "STRING",
+    defaultValue: "CNT",
+    description: "Prefix for stock count session numbers",
+  },
+  "numbering.shipmentPrefix": {
+    category: "NUMBERING",
+    valueType: "STRING",
+    defaultValue: "SHP",
+    description: "Prefix for order shipment numbers",
+  },
+  "numbering.returnPrefix": {
+    category: "NUMBERING",
+    valueType: "STRING",
+    defaultValue: "RMA",
+    description: "Prefix for return authorization numbers",
+  },
+  "carbon.transportKgPerKg": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.05,
+    description: "kg CO2e emitted per kg of goods moved by a transfer between warehouses without coordinates",
+    min: 0,
+  },
+  "carbon.roadKgPerTonneKm": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.1,
+    description: "kg CO2e per tonne-km for transfers by road (diesel truck)",
+    min: 0,
+  },
+  "carbon.railKgPerTonneKm": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.03,
+    description: "kg CO2e per tonne-km for transfers by rail",
+    min: 0,
+  },
+  "carbon.seaKgPerTonneKm": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.015,
+    description: "kg CO2e per tonne-km for transfers by sea",
+    min: 0,
+  },
+  "carbon.airKgPerTonneKm": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.6,
+    description: "kg CO2e per tonne-km for transfers by air freight",
+    min: 0,
+  },
+  "carbon.evVanKgPerTonneKm": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.04,
+    description: "kg CO2e per tonne-km for transfers by electric van",
+    min: 0,
+  },
+  "carbon.shippingKgPerTonneKm": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.1,
+    description: "kg CO2e emitted per tonne of goods shipped one km, used to rank warehouses by carbon",
+    min: 0,
+  },
+  "carbon.landfillKgPerKg": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.5,
+    description: "kg CO2e emitted per kg of returned goods written off as waste, on top of their product footprint",
+    min: 0,
+  },
+  "carbon.recyclingSavedKgPerKg": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 1.5,
+    description: "kg CO2e saved per kg of returned goods sent to recycling instead of landfill",
+    min: 0,
+  },
+  "carbon.ecoPackagingFactor": {
+    category: "CARBON",
+    valueType: "NUMBER",
+    defaultValue: 0.8,
+    description: "Multiplier applied to an order's product footprint when shipped in eco-friendly packaging",
+    min: 0,
+    max: 1,
+  },
+} satisfies Record<string, SettingDefinition>;
+
+export type SettingKey = keyof typeof SETTING_DEFINITIONS;
+
+export type SettingValue<K extends SettingKey> =
+  ValueTypeMap[(typeof SETTING_DEFINITIONS)[K]["valueType"]];
+
+export const isDefinedSetting = (key: string): key is SettingKey => {
+  return Object.prototype.hasOwnProperty.call(SETTING_DEFINITIONS, key);
+};
+
+// Parse a stored string into its declared type. Throws when the value does not fit.
+export const parseSettingValue = (
+  raw: string,
+  valueType: SettingValueType,
+  definition?: SettingDefinition,
+): unknown => {
+  switch (valueType) {
+    case "NUMBER": {
+      const value = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(value)) {
+        throw new ValidationError(`Invalid number: ${raw}`);
+      }
+      if (definition?.integer && !Number.isInteger(value)) {
+        throw new ValidationError(`Value must be an integer: ${raw}`);
+      }
+      if (definition?.min !== undefined && value < definition.min) {
+        throw new ValidationError(`Value must be at least ${definition.min}`);
+      }
+      if (definition?.max !== undefined && value > definition.max) {
+        throw new ValidationError(`Value must be at most ${definition.max}`);
+      }
+      return value;
+    }
+    case "BOOLEAN":
+      if (raw !== "true" && raw !== "false") {
+        throw new ValidationError(`Invalid boolean: ${raw}`);
+      }
+      return raw === "true";
+    case "JSON":
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new ValidationError("Invalid JSON value");
+      }
+    default:
+      return raw;
+  }
+};
+
+// Serialize an incoming value (any JSON type) to the string stored in the database
+export const serializeSettingValue = (value: unknown, valueType: SettingValueType): string => {
+  if (value === undefined || value === null) {
+    throw new ValidationError("Setting value is required");
+  }
+  if (valueType === "JSON") {
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// ===== In-process cache =====
+// All stored settings are loaded at once and kept for CACHE_TTL_MS; writes through the
+// settings API invalidate it immediately.
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache: Map<string, unknown> | null = null;
+let cacheLoadedAt = 0;
+
+const loadCache = async (): Promise<Map<string, unknown>> => {
+  if (cache && Date.now() - cacheLoadedAt < CACHE_TTL_MS) {
+    return cache;
+  }
+
+  const rows = await prisma.systemSetting.findMany();
+  const next = new Map<string, unknown>();
+
+  for (const row of rows) {
+    const definition = isDefinedSetting(row.key) ? SETTING_DEFINITIONS[row.key] : undefined;
+    try {
+      next.set(
+        row.key,
+        parseSettingValue(row.value, definition?.valueType ?? (row.valueType as SettingValueType), definition),
+      );
+    } catch (error: any) {
+      // A bad stored value must not break business logic; fall back to the default
+      console.error(`Ignoring invalid setting ${row.key}: ${error.message}`);
+    }
+  }
+
+  cache = next;
+  cacheLoadedAt = Date.now();
+  return next;
+};
+
+export const invalidateSettingsCache = (): void => {
+  cache = null;
+};
+
+// Read a setting, falling back to its declared default
+export const getSetting = async <K extends SettingKey>(key: K): Promise<SettingValue<K>> => {
+  const values = await loadCache();
+  const value = values.has(key) ? values.get(key) : SETTING_DEFINITIONS[key].defaultValue;
+  return value as SettingValue<K>;
+};
@@ -0,0 +1,37 @@
+import { TransactionClient } from "./db";
+import { StockReference, recordStockMovement } from "./inventoryLedger";
+
+// Move units from available to reserved. The ledger only writes while enough stock is
+// available, so two requests racing for the same units cannot both succeed.
+export const reserveStock = async (
+  tx: TransactionClient,
+  warehouseId: string,
+  productId: string,
+  quantity: number,
+  reference?: StockReference,
+) => {
+  await recordStockMovement(tx, {
+    warehouseId,
+    productId,
+    type: "RESERVE",
+    reservedDelta: quantity,
+    ...reference,
+  });
+};
+
+// Give reserved units back to available stock
+export const releaseStock = async (
+  tx: TransactionClient,
+  warehouseId: string,
+  productId: string,
+  quantity: number,
+  reference?: StockReference,
+) => {
+  await recordStockMovement(tx, {
+    warehouseId,
+    productId,
+    type: "RELEASE",
+    reservedDelta: -quantity,
+    ...reference,
+  });
+};
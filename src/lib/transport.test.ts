@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { distanceKm } from "./geo";
+import { estimateTransportCarbon } from "./transport";
+import { DEFAULT_UNIT_WEIGHT_KG, unitWeightKg } from "./weight";
+
+const berlin = { latitude: 52.52, longitude: 13.405 };
+const munich = { latitude: 48.137, longitude: 11.575 };
+
+describe("distanceKm", () => {
+  it("measures the great-circle distance", () => {
+    const km = distanceKm(berlin, munich)!;
+    assert.ok(km > 500 && km < 510, `${km}`);
+    assert.equal(distanceKm(berlin, berlin), 0);
+  });
+
+  it("is unknown without coordinates on either side", () => {
+    assert.equal(distanceKm(berlin, null), null);
+    assert.equal(distanceKm(null, munich), null);
+  });
+});
+
+describe("estimateTransportCarbon", () => {
+  it("multiplies tonnes carried by distance and the mode's factor", () => {
+    const estimate = estimateTransportCarbon({
+      from: berlin,
+      to: munich,
+      weightKg: 2000,
+      kgPerTonneKm: 0.1,
+      fallbackKgPerKg: 0.05,
+    });
+
+    assert.equal(estimate.distanceKm, distanceKm(berlin, munich));
+    assert.equal(estimate.carbonKg, 2 * estimate.distanceKm! * 0.1);
+  });
+
+  it("uses the flat per-kg factor when the distance is unknown", () => {
+    const estimate = estimateTransportCarbon({
+      from: berlin,
+      to: null,
+      weightKg: 2000,
+      kgPerTonneKm: 0.1,
+      fallbackKgPerKg: 0.05,
+    });
+
+    assert.deepEqual(estimate, { distanceKm: null, carbonKg: 100 });
+  });
+});
+
+describe("unitWeightKg", () => {
+  it("uses the recorded weight", () => {
+    assert.equal(unitWeightKg({ weight: 2.5 }), 2.5);
+  });
+
+  it("falls back to the default weight for products without one", () => {
+    assert.ok(DEFAULT_UNIT_WEIGHT_KG > 0);
+    assert.equal(unitWeightKg({ weight: null }), DEFAULT_UNIT_WEIGHT_KG);
+    assert.equal(unitWeightKg({ weight: 0 }), DEFAULT_UNIT_WEIGHT_KG);
+    assert.equal(unitWeightKg(undefined), DEFAULT_UNIT_WEIGHT_KG);
+  });
+
+  it("keeps weightless products from estimating zero emissions", () => {
+    const estimate = estimateTransportCarbon({
+      from: berlin,
+      to: munich,
+      weightKg: 10 * unitWeightKg({ weight: null }),
+      kgPerTonneKm: 0.1,
+      fallbackKgPerKg: 0.05,
+    });
+
+    assert.ok(estimate.carbonKg > 0);
+  });
+});
@@ -0,0 +1,41 @@
+import { Coordinates, distanceKm } from "./geo";
+import type { SettingKey } from "./settings";
+
+export const TRANSPORT_MODES = ["ROAD", "RAIL", "SEA", "AIR", "EV_VAN"] as const;
+
+export type TransportMode = (typeof TRANSPORT_MODES)[number];
+
+// Setting holding the emission factor (kg CO2e per tonne-km) of each mode
+export const TRANSPORT_EMISSION_SETTINGS = {
+  ROAD: "carbon.roadKgPerTonneKm",
+  RAIL: "carbon.railKgPerTonneKm",
+  SEA: "carbon.seaKgPerTonneKm",
+  AIR: "carbon.airKgPerTonneKm",
+  EV_VAN: "carbon.evVanKgPerTonneKm",
+} as const satisfies Record<TransportMode, SettingKey>;
+
+export interface TransportLeg {
+  from: Coordinates | null;
+  to: Coordinates | null;
+  weightKg: number;
+  kgPerTonneKm: number;
+  // Used when either end has no coordinates, so the distance is unknown
+  fallbackKgPerKg: number;
+}
+
+export interface TransportEstimate {
+  distanceKm: number | null;
+  carbonKg: number;
+}
+
+// Emissions of moving goods between two points: tonnes carried times distance times the
+// mode's factor. Without a distance the flat per-kg factor applies instead.
+export const estimateTransportCarbon = (leg: TransportLeg): TransportEstimate => {
+  const km = distanceKm(leg.from, leg.to);
+
+  if (km === null) {
+    return { distanceKm: null, carbonKg: leg.weightKg * leg.fallbackKgPerKg };
+  }
+
+  return { distanceKm: km, carbonKg: (leg.weightKg / 1000) * km * leg.kgPerTonneKm };
+};
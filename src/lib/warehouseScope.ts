@@ -0,0 +1,53 @@
+import type { AuthUser } from "../middleware/auth";
+import { ForbiddenError } from "./errors";
+
+// Warehouses a user may see and mutate. `null` means unrestricted.
+export type WarehouseScope = string[] | null;
+
+export const WAREHOUSE_ACCESS_DENIED = "Warehouse access denied";
+
+// Managers are limited to the warehouses they run; everyone else keeps global visibility
+export const getWarehouseScope = (user: AuthUser): WarehouseScope => {
+  return user.role === "manager" ? user.managedWarehouseIds : null;
+};
+
+export const canAccessWarehouse = (
+  scope: WarehouseScope | undefined,
+  warehouseId: string,
+): boolean => {
+  return !scope || scope.includes(warehouseId);
+};
+
+// Throw when the warehouse is outside the caller's scope
+export const assertWarehouseAccess = (
+  scope: WarehouseScope | undefined,
+  warehouseId: string,
+): void => {
+  if (!canAccessWarehouse(scope, warehouseId)) {
+    throw new ForbiddenError(WAREHOUSE_ACCESS_DENIED);
+  }
+};
+
+// Build the `warehouseId` where-condition combining a requested warehouse filter with the scope.
+// Returns undefined when no condition is needed.
+export const scopedWarehouseFilter = (
+  scope: WarehouseScope | undefined,
+  requestedWarehouseId?: string,
+): string | { in: string[] } | undefined => {
+  if (!scope) return requestedWarehouseId || undefined;
+  if (requestedWarehouseId) {
+    return scope.includes(requestedWarehouseId) ? requestedWarehouseId : { in: [] };
+  }
+  return { in: scope };
+};
+
+// Transfers are visible when either side belongs to the scope
+export const transferScopeCondition = (scope: WarehouseScope | undefined) => {
+  if (!scope) return undefined;
+  return {
+    OR: [
+      { sourceWarehouseId: { in: scope } },
+      { destWarehouseId: { in: scope } },
+    ],
+  };
+};
@@ -0,0 +1,6 @@
+// Weight assumed for a unit of a product with no recorded weight. Emission estimates use
+// it so that missing catalog data never makes goods weigh, and emit, nothing.
+export const DEFAULT_UNIT_WEIGHT_KG = 1;
+
+export const unitWeightKg = (product: { weight: number | null } | null | undefined): number =>
+  product?.weight || DEFAULT_UNIT_WEIGHT_KG;
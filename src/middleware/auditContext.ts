@@ -0,0 +1,34 @@
+import { NextFunction, Request, Response } from "express";
+import { prisma } from "../lib/db";
+import { AuditContext, auditStorage } from "../lib/audit";
+
+// Open an audit context for the request and persist its entries once the response
+// has been sent successfully. The user is read at flush time because `authenticate`
+// runs after this middleware.
+export const auditContext = (req: Request, res: Response, next: NextFunction) => {
+  const context: AuditContext = { req, entries: [] };
+
+  res.on("finish", () => {
+    if (res.statusCode >= 400 || context.entries.length === 0) return;
+
+    prisma.auditLog
+      .createMany({
+        data: context.entries.map((entry) => ({
+          userId: req.user?.id ?? null,
+          userEmail: req.user?.email ?? null,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          oldValues: entry.oldValues ?? undefined,
+          newValues: entry.newValues ?? undefined,
+          ipAddress: req.ip ?? null,
+          userAgent: req.get("user-agent") ?? null,
+        })),
+      })
+      .catch((error) => {
+        console.error("Failed to write audit log:", error);
+      });
+  });
+
+  auditStorage.run(context, () => next());
+};
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../lib/db";
+import { verifyAccessToken } from "../lib/jwt";
+import { auditStorage } from "../lib/audit";
+import { ForbiddenError, UnauthorizedError } from "../lib/errors";
+
+export interface AuthUser {
+  id: string;
+  supabaseUid: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  department: string | null;
+  managedWarehouseIds: string[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Only touch lastLoginAt when it is older than this, to avoid a write per request
+const LAST_LOGIN_REFRESH_MS = 5 * 60 * 1000;
+
+// Verify the bearer token, resolve the caller to a User and attach it to the request
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization || "";
+  const [scheme, token] = header.split(" ");
+
+  if (scheme !== "Bearer" || !token) {
+    throw new UnauthorizedError("Missing bearer token");
+  }
+
+  let supabaseUid: string;
+  try {
+    supabaseUid = verifyAccessToken(token).sub;
+  } catch (error: any) {
+    throw new UnauthorizedError("Invalid or expired token");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { supabaseUid },
+    include: {
+      managedWarehouses: {
+        select: { id: true },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new UnauthorizedError("User not registered");
+  }
+
+  if (!user.isActive) {
+    throw new ForbiddenError("User account is inactive");
+  }
+
+  const now = new Date();
+  if (!user.lastLoginAt || now.getTime() - user.lastLoginAt.getTime() > LAST_LOGIN_REFRESH_MS) {
+    // Login bookkeeping is not an auditable change
+    await auditStorage.exit(() =>
+      prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: now },
+      }),
+    );
+  }
+
+  req.user = {
+    id: user.id,
+    supabaseUid: user.supabaseUid,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    department: user.department,
+    managedWarehouseIds: user.managedWarehouses.map((warehouse) => warehouse.id),
+  };
+
+  next();
+};
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from "express";
+import { ForbiddenError, UnauthorizedError } from "../lib/errors";
+import { hasPermission, Permission } from "../lib/permissions";
+
+// Require the authenticated user's role to grant the given permission
+export const authorize = (permission: Permission) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required");
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      throw new ForbiddenError(`Missing permission: ${permission}`, { permission });
+    }
+
+    next();
+  };
+
+  // Keep the permission reachable from the router stack
+  return Object.assign(middleware, { permission });
+};
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "../../generated/prisma";
+import {
+  AppError,
+  ConflictError,
+  ERROR_CODES,
+  NotFoundError,
+} from "../lib/errors";
+
+// Translate Prisma constraint failures that slip past the service checks
+const fromPrismaError = (error: Prisma.PrismaClientKnownRequestError): AppError | undefined => {
+  switch (error.code) {
+    case "P2025":
+      return new NotFoundError(String(error.meta?.modelName ?? "Record"));
+    case "P2002":
+      return new ConflictError("A record with the same unique value already exists", {
+        target: error.meta?.target,
+      });
+    case "P2003":
+      return new ConflictError("Operation violates a relation to another record", {
+        field: error.meta?.field_name,
+      });
+    case "P2034":
+      return new ConflictError("The record was changed by a concurrent request, please retry");
+    default:
+      return undefined;
+  }
+};
+
+// Last middleware in the chain: every error thrown by a handler ends up here
+export const errorHandler = (error: any, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  let appError: AppError | undefined;
+
+  if (error instanceof AppError) {
+    appError = error;
+  } else if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    appError = fromPrismaError(error);
+  } else if (error?.type === "entity.parse.failed") {
+    appError = new AppError("Malformed JSON body", 400, ERROR_CODES.INVALID_JSON);
+  }
+
+  if (!appError) {
+    console.error(`[${req.method} ${req.originalUrl}]`, error);
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      code: ERROR_CODES.INTERNAL_ERROR,
+    });
+  }
+
+  res.status(appError.status).json({
+    success: false,
+    error: appError.message,
+    code: appError.code,
+    ...(appError.details !== undefined && { details: appError.details }),
+  });
+};
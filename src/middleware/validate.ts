@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { ValidationError } from "../lib/errors";
+
+export interface RequestSchemas {
+  body?: z.ZodType;
+  params?: z.ZodType;
+  query?: z.ZodType;
+}
+
+export interface FieldError {
+  location: keyof RequestSchemas;
+  field: string;
+  message: string;
+}
+
+const LOCATIONS: (keyof RequestSchemas)[] = ["params", "query", "body"];
+
+// Parse body/params/query against the route's schemas; reject with every field error at once
+export const validate = (schemas: RequestSchemas) => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const details: FieldError[] = [];
+    const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        for (const issue of result.error.issues) {
+          details.push({
+            location,
+            field: issue.path.join("."),
+            message: issue.message,
+          });
+        }
+      }
+    }
+
+    if (details.length > 0) {
+      return next(new ValidationError("Validation failed", details));
+    }
+
+    // Handlers see the parsed values (coerced numbers/dates, unknown keys stripped)
+    if (parsed.body !== undefined) req.body = parsed.body;
+    if (parsed.params !== undefined) req.params = parsed.params as Request["params"];
+    if (parsed.query !== undefined) {
+      // req.query is a getter in Express 5
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+
+    next();
+  };
+
+  // Keep the schemas reachable from the router stack
+  return Object.assign(middleware, { schemas });
+};
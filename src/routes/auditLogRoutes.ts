@@ -0,0 +1,22 @@
+import express from "express";
+const router = express.Router();
+import AuditLogController from "../controllers/auditLogControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams } from "../schemas/common";
+import { auditLogSearchBody, entityHistoryParams } from "../schemas/auditLogSchemas";
+
+const auditLogController = new AuditLogController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search audit logs (entity type/id, user, action, date range)
+router.post("/search", authorize("audit-log:read"), validate({ body: auditLogSearchBody }), auditLogController.searchAuditLogs);
+
+// GET change history of a single entity
+router.get("/entity/:entityType/:entityId", authorize("audit-log:read"), validate({ params: entityHistoryParams }), auditLogController.getEntityHistory);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET audit log entry by ID
+router.get("/:id", authorize("audit-log:read"), validate({ params: idParams }), auditLogController.getAuditLogById);
+
+export default router;
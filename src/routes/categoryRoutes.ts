@@ -1,37 +1,41 @@
 import express from "express";
 const router = express.Router();
 import CategoryController from "../controllers/categoryControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { categoryIdParams, idParams, searchBodySchema } from "../schemas/common";
+import { createCategoryBody, parentIdParams, updateCategoryBody } from "../schemas/categorySchemas";
 
 const categoryController = new CategoryController();
 
 // =================== SEARCH & QUERY OPERATIONS ===================
 // POST search categories with pagination/filters
-router.post("/search", categoryController.searchCategories);
+router.post("/search", authorize("category:read"), validate({ body: searchBodySchema }), categoryController.searchCategories);
 
 // GET full category tree (hierarchical)
-router.get("/tree", categoryController.getCategoryTree);
+router.get("/tree", authorize("category:read"), validate({}), categoryController.getCategoryTree);
 
 // GET subcategories by parent ID
-router.get("/parent/:parentId/subcategories", categoryController.getSubcategories);
+router.get("/parent/:parentId/subcategories", authorize("category:read"), validate({ params: parentIdParams }), categoryController.getSubcategories);
 
 // POST products by category with pagination
-router.post("/:categoryId/products", categoryController.getProductsByCategory);
+router.post("/:categoryId/products", authorize("category:read"), validate({ params: categoryIdParams, body: searchBodySchema }), categoryController.getProductsByCategory);
 
 // =================== SINGLE RECORD OPERATIONS ===================
 // GET category by ID
-router.get("/:id", categoryController.getCategoryById);
+router.get("/:id", authorize("category:read"), validate({ params: idParams }), categoryController.getCategoryById);
 
 // POST create new category
-router.post("/", categoryController.createCategory);
+router.post("/", authorize("category:write"), validate({ body: createCategoryBody }), categoryController.createCategory);
 
 // PUT update category
-router.put("/:id", categoryController.updateCategory);
+router.put("/:id", authorize("category:write"), validate({ params: idParams, body: updateCategoryBody }), categoryController.updateCategory);
 
 // DELETE category
-router.delete("/:id", categoryController.deleteCategory);
+router.delete("/:id", authorize("category:delete"), validate({ params: idParams }), categoryController.deleteCategory);
 
 // =================== STATISTICS ===================
 // GET category statistics
-router.get("/statistics/dashboard", categoryController.getCategoryStatistics);
+router.get("/statistics/dashboard", authorize("category:read"), validate({}), categoryController.getCategoryStatistics);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,51 @@
+import express from "express";
+const router = express.Router();
+import CustomerController from "../controllers/customerControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema } from "../schemas/common";
+import {
+  createCustomerBody,
+  customerAddressBody,
+  customerAddressParams,
+  updateCustomerAddressBody,
+  updateCustomerBody,
+} from "../schemas/customerSchemas";
+
+const customerController = new CustomerController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search customers with pagination/filters
+router.post("/search", authorize("customer:read"), validate({ body: searchBodySchema }), customerController.searchCustomers);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET customer by ID with addresses
+router.get("/:id", authorize("customer:read"), validate({ params: idParams }), customerController.getCustomerById);
+
+// POST create new customer
+router.post("/", authorize("customer:write"), validate({ body: createCustomerBody }), customerController.createCustomer);
+
+// PUT update customer
+router.put("/:id", authorize("customer:write"), validate({ params: idParams, body: updateCustomerBody }), customerController.updateCustomer);
+
+// DELETE customer (only without orders)
+router.delete("/:id", authorize("customer:delete"), validate({ params: idParams }), customerController.deleteCustomer);
+
+// =================== ORDER HISTORY ===================
+// POST search the customer's orders
+router.post("/:id/orders/search", authorize("order:read"), validate({ params: idParams, body: searchBodySchema }), customerController.searchCustomerOrders);
+
+// GET lifetime value and order summary
+router.get("/:id/statistics", authorize("customer:read"), validate({ params: idParams }), customerController.getCustomerStatistics);
+
+// =================== CUSTOMER ADDRESSES ===================
+// POST add address to customer
+router.post("/:id/addresses", authorize("customer:write"), validate({ params: idParams, body: customerAddressBody }), customerController.addCustomerAddress);
+
+// PUT update customer address
+router.put("/:id/addresses/:addressId", authorize("customer:write"), validate({ params: customerAddressParams, body: updateCustomerAddressBody }), customerController.updateCustomerAddress);
+
+// DELETE remove customer address
+router.delete("/:id/addresses/:addressId", authorize("customer:write"), validate({ params: customerAddressParams }), customerController.removeCustomerAddress);
+
+export default router;
@@ -0,0 +1,29 @@
+import express from "express";
+const router = express.Router();
+import DeliveryController from "../controllers/deliveryControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, reasonBodySchema, searchBodySchema } from "../schemas/common";
+import { createDeliveryBody, receiveDeliveryBody } from "../schemas/deliverySchemas";
+
+const deliveryController = new DeliveryController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search deliveries with pagination/filters
+router.post("/search", authorize("delivery:read"), validate({ body: searchBodySchema }), deliveryController.searchDeliveries);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET delivery by ID
+router.get("/:id", authorize("delivery:read"), validate({ params: idParams }), deliveryController.getDeliveryById);
+
+// POST record delivery against an ordered purchase order (IN_TRANSIT)
+router.post("/", authorize("delivery:write"), validate({ body: createDeliveryBody }), deliveryController.createDelivery);
+
+// =================== RECEIVING ===================
+// POST receive items (-> PARTIALLY_RECEIVED / COMPLETED)
+router.post("/:id/receive", authorize("delivery:receive"), validate({ params: idParams, body: receiveDeliveryBody }), deliveryController.receiveDelivery);
+
+// POST mark in-transit delivery as delayed
+router.post("/:id/delay", authorize("delivery:write"), validate({ params: idParams, body: reasonBodySchema }), deliveryController.markDeliveryDelayed);
+
+export default router;
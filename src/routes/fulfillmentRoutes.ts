@@ -0,0 +1,37 @@
+import express from "express";
+const router = express.Router();
+import FulfillmentController from "../controllers/fulfillmentControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, warehouseIdParams } from "../schemas/common";
+import {
+  confirmPicksBody,
+  deliverShipmentBody,
+  packShipmentBody,
+  shipShipmentBody,
+} from "../schemas/fulfillmentSchemas";
+
+const fulfillmentController = new FulfillmentController();
+
+// =================== PICKING ===================
+// GET reserved units to pick in a warehouse, grouped by aisle/shelf/bin
+router.get("/pick-lists/:warehouseId", authorize("order:read"), validate({ params: warehouseIdParams }), fulfillmentController.getPickList);
+
+// POST confirm picks for an order (short picks go back on backorder)
+router.post("/orders/:id/picks", authorize("order:fulfill"), validate({ params: idParams, body: confirmPicksBody }), fulfillmentController.confirmPicks);
+
+// =================== PACKING ===================
+// POST pack picked units from one warehouse into a shipment
+router.post("/orders/:id/shipments", authorize("order:fulfill"), validate({ params: idParams, body: packShipmentBody }), fulfillmentController.packShipment);
+
+// =================== SHIPPING ===================
+// GET shipment with its lines
+router.get("/shipments/:id", authorize("order:read"), validate({ params: idParams }), fulfillmentController.getShipmentById);
+
+// POST ship a packed shipment (posts STOCK_OUT; order becomes PARTIALLY_SHIPPED or SHIPPED)
+router.post("/shipments/:id/ship", authorize("order:fulfill"), validate({ params: idParams, body: shipShipmentBody }), fulfillmentController.shipShipment);
+
+// POST mark a shipment delivered (order becomes DELIVERED with the last one)
+router.post("/shipments/:id/deliver", authorize("order:fulfill"), validate({ params: idParams, body: deliverShipmentBody }), fulfillmentController.deliverShipment);
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router } from "express";
+import warehouseRoutes from "./warehouseRoutes";
+import inventoryRoutes from "./inventoryRoutes";
+import productRoutes from "./productRoutes";
+import categoryRoutes from "./categoryRoutes";
+import transactionRoutes from "./transactionRoutes";
+import orderRoutes from "./orderRoutes";
+import customerRoutes from "./customerRoutes";
+import pricingRoutes from "./pricingRoutes";
+import transferRoutes from "./transferRoutes";
+import fulfillmentRoutes from "./fulfillmentRoutes";
+import returnRoutes from "./returnRoutes";
+import sustainabilityRoutes from "./sustainabilityRoutes";
+import supplierRoutes from "./supplierRoutes";
+import purchaseOrderRoutes from "./purchaseOrderRoutes";
+import deliveryRoutes from "./deliveryRoutes";
+import stockCountRoutes from "./stockCountRoutes";
+import auditLogRoutes from "./auditLogRoutes";
+import settingRoutes from "./settingRoutes";
+import userRoutes from "./userRoutes";
+
+export interface RouteMount {
+  path: string;
+  tag: string;
+  router: Router;
+}
+
+// Every authenticated router and where it is mounted; app.ts and the OpenAPI document both read this
+export const apiRoutes: RouteMount[] = [
+  { path: "/warehouses", tag: "Warehouses", router: warehouseRoutes },
+  { path: "/inventory", tag: "Inventory", router: inventoryRoutes },
+  { path: "/products", tag: "Products", router: productRoutes },
+  { path: "/category", tag: "Categories", router: categoryRoutes },
+  { path: "/transactions", tag: "Transactions", router: transactionRoutes },
+  { path: "/orders", tag: "Orders", router: orderRoutes },
+  { path: "/customers", tag: "Customers", router: customerRoutes },
+  { path: "/pricing", tag: "Pricing", router: pricingRoutes },
+  { path: "/fulfillment", tag: "Fulfillment", router: fulfillmentRoutes },
+  { path: "/returns", tag: "Returns", router: returnRoutes },
+  { path: "/transfers", tag: "Transfers", router: transferRoutes },
+  { path: "/sustainability", tag: "Sustainability", router: sustainabilityRoutes },
+  { path: "/suppliers", tag: "Suppliers", router: supplierRoutes },
+  { path: "/purchase-orders", tag: "Purchase Orders", router: purchaseOrderRoutes },
+  { path: "/deliveries", tag: "Deliveries", router: deliveryRoutes },
+  { path: "/stock-counts", tag: "Stock Counts", router: stockCountRoutes },
+  { path: "/audit-logs", tag: "Audit Logs", router: auditLogRoutes },
+  { path: "/settings", tag: "Settings", router: settingRoutes },
+  { path: "/users", tag: "Users", router: userRoutes },
+];
@@ -2,44 +2,62 @@
 import express from "express";
 const router = express.Router();
 import InventoryController from "../controllers/inventoryControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import {
+  idParams,
+  productIdParams,
+  searchBodySchema,
+  warehouseIdParams,
+} from "../schemas/common";
+import {
+  bulkUpdateInventoryBody,
+  inventoryValueReportBody,
+  lowStockInventorySearchBody,
+  updateInventoryQuantityBody,
+  upsertInventoryBody,
+} from "../schemas/inventorySchemas";
 
 const inventoryController = new InventoryController();
 
 // =================== SEARCH & QUERY OPERATIONS ===================
 // POST search inventory with pagination/filters
-router.post("/search", inventoryController.searchInventory);
+router.post("/search", authorize("inventory:read"), validate({ body: searchBodySchema }), inventoryController.searchInventory);
 
 // POST search low stock inventory
-router.post("/low-stock/search", inventoryController.searchLowStockInventory);
+router.post("/low-stock/search", authorize("inventory:read"), validate({ body: lowStockInventorySearchBody }), inventoryController.searchLowStockInventory);
 
 // POST search inventory by warehouse with pagination
-router.post("/warehouse/:warehouseId/search", inventoryController.searchInventoryByWarehouse);
+router.post("/warehouse/:warehouseId/search", authorize("inventory:read"), validate({ params: warehouseIdParams, body: searchBodySchema }), inventoryController.searchInventoryByWarehouse);
 
 // POST search inventory by product with pagination
-router.post("/product/:productId/search", inventoryController.searchInventoryByProduct);
+router.post("/product/:productId/search", authorize("inventory:read"), validate({ params: productIdParams, body: searchBodySchema }), inventoryController.searchInventoryByProduct);
 
 // =================== SINGLE RECORD OPERATIONS ===================
 // GET inventory by ID
-router.get("/:id", inventoryController.getInventoryById);
+router.get("/:id", authorize("inventory:read"), validate({ params: idParams }), inventoryController.getInventoryById);
 
 // POST create new inventory record (or update if exists)
-router.post("/", inventoryController.upsertInventory);
+router.post("/", authorize("inventory:write"), validate({ body: upsertInventoryBody }), inventoryController.upsertInventory);
 
 // PUT update inventory quantity (with action tracking)
-router.put("/:id/quantity", inventoryController.updateInventoryQuantity);
+router.put("/:id/quantity", authorize("inventory:write"), validate({ params: idParams, body: updateInventoryQuantityBody }), inventoryController.updateInventoryQuantity);
+
+// POST search the stock movements recorded for an inventory record
+router.post("/:id/movements/search", authorize("inventory:read"), validate({ params: idParams, body: searchBodySchema }), inventoryController.searchInventoryMovements);
 
 // DELETE inventory record
-router.delete("/:id", inventoryController.deleteInventory);
+router.delete("/:id", authorize("inventory:delete"), validate({ params: idParams }), inventoryController.deleteInventory);
 
 // =================== BULK & BATCH OPERATIONS ===================
 // POST bulk update multiple inventory records
-router.post("/bulk-update", inventoryController.bulkUpdateInventory);
+router.post("/bulk-update", authorize("inventory:bulk-update"), validate({ body: bulkUpdateInventoryBody }), inventoryController.bulkUpdateInventory);
 
 // =================== REPORTS & ANALYTICS ===================
 // GET inventory summary for dashboard
-router.get("/summary/dashboard", inventoryController.getInventorySummary);
+router.get("/summary/dashboard", authorize("inventory:read"), validate({}), inventoryController.getInventorySummary);
 
 // POST inventory value report with filters
-router.post("/reports/value", inventoryController.getInventoryValueReport);
+router.post("/reports/value", authorize("inventory:read"), validate({ body: inventoryValueReportBody }), inventoryController.getInventoryValueReport);
 
 export default router;
\ No newline at end of file
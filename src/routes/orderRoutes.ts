@@ -1,31 +1,47 @@
 import express from "express";
 const router = express.Router();
 import OrderController from "../controllers/orderControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema } from "../schemas/common";
+import {
+  createOrderBody,
+  orderAvailabilityBody,
+  orderStatusParams,
+  updateOrderBody,
+} from "../schemas/orderSchemas";
 
 const orderController = new OrderController();
 
 // =================== SEARCH & QUERY OPERATIONS ===================
 // POST search all orders with pagination/filters
-router.post("/search", orderController.searchOrders);
+router.post("/search", authorize("order:read"), validate({ body: searchBodySchema }), orderController.searchOrders);
 
 // POST search orders by status
-router.post("/status/:status/search", orderController.searchOrdersByStatus);
+router.post("/status/:status/search", authorize("order:read"), validate({ params: orderStatusParams, body: searchBodySchema }), orderController.searchOrdersByStatus);
 
 // POST search orders to fulfill (for fulfillment dashboard)
-router.post("/fulfill/search", orderController.searchOrdersToFulfill);
+router.post("/fulfill/search", authorize("order:read"), validate({ body: searchBodySchema }), orderController.searchOrdersToFulfill);
 
 // =================== SINGLE RECORD OPERATIONS ===================
 // GET order by ID
-router.get("/:id", orderController.getOrderById);
+router.get("/:id", authorize("order:read"), validate({ params: idParams }), orderController.getOrderById);
 
 // POST create new order
-router.post("/", orderController.createOrder);
+router.post("/", authorize("order:create"), validate({ body: createOrderBody }), orderController.createOrder);
 
 // PUT update order status/details
-router.put("/:id", orderController.updateOrder);
+router.put("/:id", authorize("order:update"), validate({ params: idParams, body: updateOrderBody }), orderController.updateOrder);
+
+// =================== RESERVATION ===================
+// POST check which warehouses could reserve an order's lines (no stock is reserved)
+router.post("/availability", authorize("order:read"), validate({ body: orderAvailabilityBody }), orderController.checkAvailability);
+
+// POST reserve stock for backordered lines
+router.post("/:id/allocate", authorize("order:update"), validate({ params: idParams }), orderController.allocateBackorders);
 
 // =================== STATISTICS ===================
 // GET order statistics for dashboard
-router.get("/statistics/dashboard", orderController.getOrderStatistics);
+router.get("/statistics/dashboard", authorize("order:read"), validate({}), orderController.getOrderStatistics);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,51 @@
+import express from "express";
+const router = express.Router();
+import PricingController from "../controllers/pricingControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema } from "../schemas/common";
+import {
+  createPriceListBody,
+  priceQuoteBody,
+  setPriceListItemsBody,
+  taxRateParams,
+  updatePriceListBody,
+  upsertTaxRateBody,
+} from "../schemas/pricingSchemas";
+
+const pricingController = new PricingController();
+
+// =================== QUOTES ===================
+// POST price items for a customer and destination without placing an order
+router.post("/quote", authorize("order:read"), validate({ body: priceQuoteBody }), pricingController.quotePrice);
+
+// =================== PRICE LISTS ===================
+// POST search price lists with pagination/filters
+router.post("/price-lists/search", authorize("pricing:read"), validate({ body: searchBodySchema }), pricingController.searchPriceLists);
+
+// GET price list by ID with its quantity breaks
+router.get("/price-lists/:id", authorize("pricing:read"), validate({ params: idParams }), pricingController.getPriceListById);
+
+// POST create new price list
+router.post("/price-lists", authorize("pricing:write"), validate({ body: createPriceListBody }), pricingController.createPriceList);
+
+// PUT update price list
+router.put("/price-lists/:id", authorize("pricing:write"), validate({ params: idParams, body: updatePriceListBody }), pricingController.updatePriceList);
+
+// PUT replace the prices of a price list
+router.put("/price-lists/:id/items", authorize("pricing:write"), validate({ params: idParams, body: setPriceListItemsBody }), pricingController.setPriceListItems);
+
+// DELETE price list
+router.delete("/price-lists/:id", authorize("pricing:write"), validate({ params: idParams }), pricingController.deletePriceList);
+
+// =================== TAX RATES ===================
+// GET tax rates by jurisdiction
+router.get("/tax-rates", authorize("pricing:read"), validate({}), pricingController.getTaxRates);
+
+// PUT create or replace the tax rate of a country
+router.put("/tax-rates/:country", authorize("pricing:write"), validate({ params: taxRateParams, body: upsertTaxRateBody }), pricingController.upsertTaxRate);
+
+// DELETE tax rate
+router.delete("/tax-rates/:country", authorize("pricing:write"), validate({ params: taxRateParams }), pricingController.deleteTaxRate);
+
+export default router;
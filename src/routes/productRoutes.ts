@@ -1,53 +1,69 @@
 import express from "express";
 const router = express.Router();
 import ProductController from "../controllers/productControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import {
+  categoryIdParams,
+  idParams,
+  productIdParams,
+  searchBodySchema,
+  warehouseIdParams,
+} from "../schemas/common";
+import {
+  bulkUpdateProductsBody,
+  lowStockSearchBody,
+  productAnalyticsBody,
+  productTurnoverQuery,
+  upsertProductBody,
+} from "../schemas/productSchemas";
 
 const productController = new ProductController();
 
 // =================== SEARCH & QUERY OPERATIONS ===================
 // POST search products with pagination/filters
-router.post("/search", productController.searchProducts);
+router.post("/search", authorize("product:read"), validate({ body: searchBodySchema }), productController.searchProducts);
 
 // POST search low stock products
-router.post("/low-stock/search", productController.searchLowStockProducts);
+router.post("/low-stock/search", authorize("product:read"), validate({ body: lowStockSearchBody }), productController.searchLowStockProducts);
 
 // POST search products by category with pagination
-router.post("/category/:categoryId/search", productController.searchProductsByCategory);
+router.post("/category/:categoryId/search", authorize("product:read"), validate({ params: categoryIdParams, body: searchBodySchema }), productController.searchProductsByCategory);
 
 // =================== SINGLE RECORD OPERATIONS ===================
 // GET product by ID
-router.get("/:id", productController.getProductById);
+router.get("/:id", authorize("product:read"), validate({ params: idParams }), productController.getProductById);
 
 // POST create/update product (upsert)
-router.post("/", productController.upsertProduct);
+router.post("/", authorize("product:write"), validate({ body: upsertProductBody }), productController.upsertProduct);
 
 // DELETE product
-router.delete("/:id", productController.deleteProduct);
+router.delete("/:id", authorize("product:delete"), validate({ params: idParams }), productController.deleteProduct);
 
 // =================== INVENTORY RELATED ===================
 // GET product inventory across all warehouses
-router.get("/:productId/inventory", productController.getProductInventory);
+router.get("/:productId/inventory", authorize("product:read"), validate({ params: productIdParams }), productController.getProductInventory);
 
 // =================== BULK OPERATIONS ===================
 // POST bulk update multiple products
-router.post("/bulk-update", productController.bulkUpdateProducts);
+router.post("/bulk-update", authorize("product:bulk-update"), validate({ body: bulkUpdateProductsBody }), productController.bulkUpdateProducts);
 
 // =================== STATISTICS ===================
 // GET product statistics for dashboard
-router.get("/statistics/dashboard", productController.getProductStatistics);
+router.get("/statistics/dashboard", authorize("product:read"), validate({}), productController.getProductStatistics);
 
 // =================== DASHBOARD & ANALYTICS ===================
 // GET products dashboard summary
-router.get("/summary/dashboard", productController.getProductsDashboardSummary);
+router.get("/summary/dashboard", authorize("product:read"), validate({}), productController.getProductsDashboardSummary);
 
 // POST product analytics with filters
-router.post("/analytics", productController.getProductAnalytics);
+router.post("/analytics", authorize("product:read"), validate({ body: productAnalyticsBody }), productController.getProductAnalytics);
 
 // GET product turnover analytics
-router.get("/analytics/turnover", productController.getProductTurnover);
+router.get("/analytics/turnover", authorize("product:read"), validate({ query: productTurnoverQuery }), productController.getProductTurnover);
 
 // =================== WAREHOUSE VIEW ===================
 // POST products by warehouse (for warehouse-view page)
-router.post("/warehouse/:warehouseId/view", productController.getProductsByWarehouse);
+router.post("/warehouse/:warehouseId/view", authorize("product:read"), validate({ params: warehouseIdParams, body: searchBodySchema }), productController.getProductsByWarehouse);
 
 export default router;
\ No newline at end of file
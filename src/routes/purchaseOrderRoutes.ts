@@ -0,0 +1,44 @@
+import express from "express";
+const router = express.Router();
+import PurchaseOrderController from "../controllers/purchaseOrderControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, reasonBodySchema, searchBodySchema } from "../schemas/common";
+import { createPurchaseOrderBody, updatePurchaseOrderBody } from "../schemas/purchaseOrderSchemas";
+
+const purchaseOrderController = new PurchaseOrderController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search purchase orders with pagination/filters
+router.post("/search", authorize("purchase-order:read"), validate({ body: searchBodySchema }), purchaseOrderController.searchPurchaseOrders);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET purchase order by ID
+router.get("/:id", authorize("purchase-order:read"), validate({ params: idParams }), purchaseOrderController.getPurchaseOrderById);
+
+// POST create new purchase order (DRAFT)
+router.post("/", authorize("purchase-order:write"), validate({ body: createPurchaseOrderBody }), purchaseOrderController.createPurchaseOrder);
+
+// PUT update draft purchase order
+router.put("/:id", authorize("purchase-order:write"), validate({ params: idParams, body: updatePurchaseOrderBody }), purchaseOrderController.updatePurchaseOrder);
+
+// DELETE draft purchase order
+router.delete("/:id", authorize("purchase-order:write"), validate({ params: idParams }), purchaseOrderController.deletePurchaseOrder);
+
+// =================== WORKFLOW ACTIONS ===================
+// POST submit for approval (DRAFT -> PENDING_APPROVAL)
+router.post("/:id/submit", authorize("purchase-order:write"), validate({ params: idParams }), purchaseOrderController.submitPurchaseOrder);
+
+// POST approve (PENDING_APPROVAL -> APPROVED)
+router.post("/:id/approve", authorize("purchase-order:approve"), validate({ params: idParams }), purchaseOrderController.approvePurchaseOrder);
+
+// POST reject back to draft (PENDING_APPROVAL -> DRAFT)
+router.post("/:id/reject", authorize("purchase-order:approve"), validate({ params: idParams, body: reasonBodySchema }), purchaseOrderController.rejectPurchaseOrder);
+
+// POST place with supplier (APPROVED -> ORDERED)
+router.post("/:id/place", authorize("purchase-order:approve"), validate({ params: idParams }), purchaseOrderController.placePurchaseOrder);
+
+// POST cancel purchase order
+router.post("/:id/cancel", authorize("purchase-order:approve"), validate({ params: idParams, body: reasonBodySchema }), purchaseOrderController.cancelPurchaseOrder);
+
+export default router;
@@ -0,0 +1,32 @@
+import express from "express";
+const router = express.Router();
+import ReturnController from "../controllers/returnControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema } from "../schemas/common";
+import { createReturnBody, inspectReturnBody, receiveReturnBody } from "../schemas/returnSchemas";
+
+const returnController = new ReturnController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search return authorizations with pagination/filters
+router.post("/search", authorize("order:read"), validate({ body: searchBodySchema }), returnController.searchReturns);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET return authorization by ID
+router.get("/:id", authorize("order:read"), validate({ params: idParams }), returnController.getReturnById);
+
+// POST authorize a return for shipped order lines
+router.post("/", authorize("order:update"), validate({ body: createReturnBody }), returnController.createReturn);
+
+// POST cancel a return before its units arrive
+router.post("/:id/cancel", authorize("order:update"), validate({ params: idParams }), returnController.cancelReturn);
+
+// =================== RECEIVING & INSPECTION ===================
+// POST record that the returned units arrived
+router.post("/:id/receive", authorize("order:fulfill"), validate({ params: idParams, body: receiveReturnBody }), returnController.receiveReturn);
+
+// POST inspect units as RESTOCK, REFURBISH, RECYCLE or WASTE (return completes when all are inspected)
+router.post("/:id/inspect", authorize("order:fulfill"), validate({ params: idParams, body: inspectReturnBody }), returnController.inspectReturn);
+
+export default router;
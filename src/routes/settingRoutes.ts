@@ -0,0 +1,39 @@
+import express from "express";
+const router = express.Router();
+import SettingController from "../controllers/settingControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import {
+  createSettingBody,
+  listSettingsQuery,
+  settingCategoryParams,
+  settingKeyParams,
+  updateSettingBody,
+} from "../schemas/settingSchemas";
+
+const settingController = new SettingController();
+
+// =================== QUERY OPERATIONS ===================
+// GET all settings (optional ?category=)
+router.get("/", authorize("setting:read"), validate({ query: listSettingsQuery }), settingController.getSettings);
+
+// GET setting categories
+router.get("/categories", authorize("setting:read"), validate({}), settingController.getCategories);
+
+// GET settings of one category
+router.get("/category/:category", authorize("setting:read"), validate({ params: settingCategoryParams }), settingController.getSettingsByCategory);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET setting by key
+router.get("/:key", authorize("setting:read"), validate({ params: settingKeyParams }), settingController.getSettingByKey);
+
+// POST create free-form setting
+router.post("/", authorize("setting:write"), validate({ body: createSettingBody }), settingController.createSetting);
+
+// PUT update setting value
+router.put("/:key", authorize("setting:write"), validate({ params: settingKeyParams, body: updateSettingBody }), settingController.updateSetting);
+
+// DELETE setting (declared settings reset to default)
+router.delete("/:key", authorize("setting:write"), validate({ params: settingKeyParams }), settingController.deleteSetting);
+
+export default router;
@@ -0,0 +1,38 @@
+import express from "express";
+const router = express.Router();
+import StockCountController from "../controllers/stockCountControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, reasonBodySchema, searchBodySchema } from "../schemas/common";
+import { openSessionBody, reviewSessionBody, submitCountsBody } from "../schemas/stockCountSchemas";
+
+const stockCountController = new StockCountController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search count sessions with pagination/filters
+router.post("/search", authorize("stock-count:read"), validate({ body: searchBodySchema }), stockCountController.searchSessions);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET count session with counts and variance summary
+router.get("/:id", authorize("stock-count:read"), validate({ params: idParams }), stockCountController.getSessionById);
+
+// GET blind count sheet for a session
+router.get("/:id/sheet", authorize("stock-count:read"), validate({ params: idParams }), stockCountController.getCountSheet);
+
+// POST open count session for a warehouse (optional aisle/category)
+router.post("/", authorize("stock-count:write"), validate({ body: openSessionBody }), stockCountController.openSession);
+
+// =================== COUNTING WORKFLOW ===================
+// POST submit counted quantities
+router.post("/:id/counts", authorize("stock-count:write"), validate({ params: idParams, body: submitCountsBody }), stockCountController.submitCounts);
+
+// POST finish counting (OPEN -> IN_REVIEW)
+router.post("/:id/complete", authorize("stock-count:write"), validate({ params: idParams }), stockCountController.completeSession);
+
+// POST approve/reject variances (approved variances post an ADJUSTMENT)
+router.post("/:id/review", authorize("stock-count:review"), validate({ params: idParams, body: reviewSessionBody }), stockCountController.reviewSession);
+
+// POST cancel open session
+router.post("/:id/cancel", authorize("stock-count:write"), validate({ params: idParams, body: reasonBodySchema }), stockCountController.cancelSession);
+
+export default router;
@@ -0,0 +1,49 @@
+import express from "express";
+const router = express.Router();
+import SupplierController from "../controllers/supplierControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema } from "../schemas/common";
+import {
+  createSupplierBody,
+  setSupplierWarehousesBody,
+  supplierProductBody,
+  supplierProductParams,
+  updateSupplierBody,
+  updateSupplierProductBody,
+} from "../schemas/supplierSchemas";
+
+const supplierController = new SupplierController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search suppliers with pagination/filters
+router.post("/search", authorize("supplier:read"), validate({ body: searchBodySchema }), supplierController.searchSuppliers);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET supplier by ID
+router.get("/:id", authorize("supplier:read"), validate({ params: idParams }), supplierController.getSupplierById);
+
+// POST create new supplier
+router.post("/", authorize("supplier:write"), validate({ body: createSupplierBody }), supplierController.createSupplier);
+
+// PUT update supplier
+router.put("/:id", authorize("supplier:write"), validate({ params: idParams, body: updateSupplierBody }), supplierController.updateSupplier);
+
+// DELETE supplier
+router.delete("/:id", authorize("supplier:delete"), validate({ params: idParams }), supplierController.deleteSupplier);
+
+// =================== SUPPLIER PRODUCTS ===================
+// POST link product to supplier (supplier SKU, unit cost, lead time, MOQ)
+router.post("/:id/products", authorize("supplier:write"), validate({ params: idParams, body: supplierProductBody }), supplierController.addSupplierProduct);
+
+// PUT update supplier product terms
+router.put("/:id/products/:productId", authorize("supplier:write"), validate({ params: supplierProductParams, body: updateSupplierProductBody }), supplierController.updateSupplierProduct);
+
+// DELETE unlink product from supplier
+router.delete("/:id/products/:productId", authorize("supplier:write"), validate({ params: supplierProductParams }), supplierController.removeSupplierProduct);
+
+// =================== SUPPLIER WAREHOUSES ===================
+// PUT replace the warehouses served by supplier
+router.put("/:id/warehouses", authorize("supplier:write"), validate({ params: idParams, body: setSupplierWarehousesBody }), supplierController.setSupplierWarehouses);
+
+export default router;
@@ -1,69 +1,80 @@
 import express from "express";
 const router = express.Router();
 import SustainabilityController from "../controllers/sustainabilityControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema, warehouseIdParams } from "../schemas/common";
+import {
+  createCarbonTrackingBody,
+  createMaterialFlowBody,
+  createRecyclingRecordBody,
+  updateCarbonTrackingBody,
+  updateMaterialFlowBody,
+  updateRecyclingRecordBody,
+} from "../schemas/sustainabilitySchemas";
 
 const sustainabilityController = new SustainabilityController();
 
 // ==================== CARBON TRACKING ROUTES ====================
 
 // POST search carbon tracking
-router.post("/carbon/search", sustainabilityController.searchCarbonTracking);
+router.post("/carbon/search", authorize("sustainability:read"), validate({ body: searchBodySchema }), sustainabilityController.searchCarbonTracking);
 
 // GET carbon tracking by ID
-router.get("/carbon/:id", sustainabilityController.getCarbonTrackingById);
+router.get("/carbon/:id", authorize("sustainability:read"), validate({ params: idParams }), sustainabilityController.getCarbonTrackingById);
 
 // POST create carbon tracking
-router.post("/carbon", sustainabilityController.createCarbonTracking);
+router.post("/carbon", authorize("sustainability:write"), validate({ body: createCarbonTrackingBody }), sustainabilityController.createCarbonTracking);
 
 // PUT update carbon tracking
-router.put("/carbon/:id", sustainabilityController.updateCarbonTracking);
+router.put("/carbon/:id", authorize("sustainability:write"), validate({ params: idParams, body: updateCarbonTrackingBody }), sustainabilityController.updateCarbonTracking);
 
 // DELETE carbon tracking
-router.delete("/carbon/:id", sustainabilityController.deleteCarbonTracking);
+router.delete("/carbon/:id", authorize("sustainability:delete"), validate({ params: idParams }), sustainabilityController.deleteCarbonTracking);
 
 // ==================== RECYCLING RECORDS ROUTES ====================
 
 // POST search recycling records
-router.post("/recycling/search", sustainabilityController.searchRecyclingRecords);
+router.post("/recycling/search", authorize("sustainability:read"), validate({ body: searchBodySchema }), sustainabilityController.searchRecyclingRecords);
 
 // GET recycling record by ID
-router.get("/recycling/:id", sustainabilityController.getRecyclingRecordById);
+router.get("/recycling/:id", authorize("sustainability:read"), validate({ params: idParams }), sustainabilityController.getRecyclingRecordById);
 
 // POST create recycling record
-router.post("/recycling", sustainabilityController.createRecyclingRecord);
+router.post("/recycling", authorize("sustainability:write"), validate({ body: createRecyclingRecordBody }), sustainabilityController.createRecyclingRecord);
 
 // PUT update recycling record
-router.put("/recycling/:id", sustainabilityController.updateRecyclingRecord);
+router.put("/recycling/:id", authorize("sustainability:write"), validate({ params: idParams, body: updateRecyclingRecordBody }), sustainabilityController.updateRecyclingRecord);
 
 // DELETE recycling record
-router.delete("/recycling/:id", sustainabilityController.deleteRecyclingRecord);
+router.delete("/recycling/:id", authorize("sustainability:delete"), validate({ params: idParams }), sustainabilityController.deleteRecyclingRecord);
 
 // ==================== MATERIAL FLOW ROUTES ====================
 
 // POST search material flows
-router.post("/material-flow/search", sustainabilityController.searchMaterialFlows);
+router.post("/material-flow/search", authorize("sustainability:read"), validate({ body: searchBodySchema }), sustainabilityController.searchMaterialFlows);
 
 // GET material flow by ID
-router.get("/material-flow/:id", sustainabilityController.getMaterialFlowById);
+router.get("/material-flow/:id", authorize("sustainability:read"), validate({ params: idParams }), sustainabilityController.getMaterialFlowById);
 
 // POST create material flow
-router.post("/material-flow", sustainabilityController.createMaterialFlow);
+router.post("/material-flow", authorize("sustainability:write"), validate({ body: createMaterialFlowBody }), sustainabilityController.createMaterialFlow);
 
 // PUT update material flow
-router.put("/material-flow/:id", sustainabilityController.updateMaterialFlow);
+router.put("/material-flow/:id", authorize("sustainability:write"), validate({ params: idParams, body: updateMaterialFlowBody }), sustainabilityController.updateMaterialFlow);
 
 // DELETE material flow
-router.delete("/material-flow/:id", sustainabilityController.deleteMaterialFlow);
+router.delete("/material-flow/:id", authorize("sustainability:delete"), validate({ params: idParams }), sustainabilityController.deleteMaterialFlow);
 
 // ==================== DASHBOARD ROUTES ====================
 
 // GET sustainability dashboard
-router.get("/dashboard", sustainabilityController.getSustainabilityDashboard);
+router.get("/dashboard", authorize("sustainability:read"), validate({}), sustainabilityController.getSustainabilityDashboard);
 
 // GET carbon summary by warehouse
-router.get("/carbon/warehouse/:warehouseId", sustainabilityController.getCarbonByWarehouse);
+router.get("/carbon/warehouse/:warehouseId", authorize("sustainability:read"), validate({ params: warehouseIdParams }), sustainabilityController.getCarbonByWarehouse);
 
 // GET recycling summary by warehouse
-router.get("/recycling/warehouse/:warehouseId", sustainabilityController.getRecyclingByWarehouse);
+router.get("/recycling/warehouse/:warehouseId", authorize("sustainability:read"), validate({ params: warehouseIdParams }), sustainabilityController.getRecyclingByWarehouse);
 
 export default router;
\ No newline at end of file
@@ -1,41 +1,50 @@
 import express from "express";
 const router = express.Router();
 import TransactionController from "../controllers/transactionControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema, warehouseIdParams } from "../schemas/common";
+import {
+  adjustmentBody,
+  stockMovementBody,
+  updateTransactionBody,
+  wasteBody,
+} from "../schemas/transactionSchemas";
 
 const transactionController = new TransactionController();
 
 // =================== SEARCH & QUERY OPERATIONS ===================
 // POST search transactions with pagination/filters
-router.post("/search", transactionController.searchTransactions);
+router.post("/search", authorize("transaction:read"), validate({ body: searchBodySchema }), transactionController.searchTransactions);
 
 // POST transactions by warehouse with pagination
-router.post("/warehouse/:warehouseId/search", transactionController.getTransactionsByWarehouse);
+router.post("/warehouse/:warehouseId/search", authorize("transaction:read"), validate({ params: warehouseIdParams, body: searchBodySchema }), transactionController.getTransactionsByWarehouse);
 
 // =================== SPECIFIC TRANSACTION TYPES ===================
 // POST create stock in transaction
-router.post("/stock-in", transactionController.createStockIn);
+router.post("/stock-in", authorize("transaction:stock-in"), validate({ body: stockMovementBody }), transactionController.createStockIn);
 
 // POST create stock out transaction
-router.post("/stock-out", transactionController.createStockOut);
+router.post("/stock-out", authorize("transaction:stock-out"), validate({ body: stockMovementBody }), transactionController.createStockOut);
 
 // POST create adjustment transaction
-router.post("/adjustment", transactionController.createAdjustment);
+router.post("/adjustment", authorize("transaction:adjust"), validate({ body: adjustmentBody }), transactionController.createAdjustment);
 
 // POST create waste/recycling transaction
-router.post("/waste", transactionController.createWasteTransaction);
+router.post("/waste", authorize("transaction:waste"), validate({ body: wasteBody }), transactionController.createWasteTransaction);
 
 // =================== SINGLE RECORD OPERATIONS ===================
 // GET transaction by ID
-router.get("/:id", transactionController.getTransactionById);
+router.get("/:id", authorize("transaction:read"), validate({ params: idParams }), transactionController.getTransactionById);
 
 // PUT update transaction (notes, etc.)
-router.put("/:id", transactionController.updateTransaction);
+router.put("/:id", authorize("transaction:update"), validate({ params: idParams, body: updateTransactionBody }), transactionController.updateTransaction);
 
 // DELETE transaction (with inventory reversal)
-router.delete("/:id", transactionController.deleteTransaction);
+router.delete("/:id", authorize("transaction:delete"), validate({ params: idParams }), transactionController.deleteTransaction);
 
 // =================== STATISTICS & ANALYTICS ===================
 // GET transaction statistics for dashboard
-router.get("/statistics/dashboard", transactionController.getTransactionStatistics);
+router.get("/statistics/dashboard", authorize("transaction:read"), validate({}), transactionController.getTransactionStatistics);
 
 export default router;
\ No newline at end of file
@@ -1,38 +1,64 @@
 import express from "express";
 const router = express.Router();
 import TransferController from "../controllers/transferControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, reasonBodySchema, searchBodySchema, warehouseIdParams } from "../schemas/common";
+import {
+  createTransferBody,
+  dispatchTransferBody,
+  rebalanceBody,
+  receiveTransferBody,
+  updateTransferBody,
+  updateTransferStatusBody,
+} from "../schemas/transferSchemas";
 
 const transferController = new TransferController();
 
 // =================== SEARCH & QUERY OPERATIONS ===================
 // POST search transfers with pagination/filters
-router.post("/search", transferController.searchTransfers);
+router.post("/search", authorize("transfer:read"), validate({ body: searchBodySchema }), transferController.searchTransfers);
 
 // POST transfers by warehouse with pagination
-router.post("/warehouse/:warehouseId", transferController.getTransfersByWarehouse);
+router.post("/warehouse/:warehouseId", authorize("transfer:read"), validate({ params: warehouseIdParams, body: searchBodySchema }), transferController.getTransfersByWarehouse);
+
+// GET in-transit ledger: dispatched stock not yet received, per destination and product
+router.get("/in-transit/stock", authorize("transfer:read"), validate({}), transferController.getInTransitStock);
+
+// POST rebalancing suggestions: draft transfers from surplus to short warehouses
+router.post("/rebalancing/suggestions", authorize("transfer:read"), validate({ body: rebalanceBody }), transferController.getRebalancingSuggestions);
 
 // =================== SINGLE RECORD OPERATIONS ===================
 // GET transfer by ID
-router.get("/:id", transferController.getTransferById);
+router.get("/:id", authorize("transfer:read"), validate({ params: idParams }), transferController.getTransferById);
 
 // POST create new transfer
-router.post("/", transferController.createTransfer);
+router.post("/", authorize("transfer:create"), validate({ body: createTransferBody }), transferController.createTransfer);
 
 // PUT update transfer
-router.put("/:id", transferController.updateTransfer);
+router.put("/:id", authorize("transfer:update"), validate({ params: idParams, body: updateTransferBody }), transferController.updateTransfer);
 
-// PATCH update transfer status
-router.patch("/:id/status", transferController.updateTransferStatus);
+// PATCH update transfer status (cancel only; stock moves through dispatch and receive)
+router.patch("/:id/status", authorize("transfer:update"), validate({ params: idParams, body: updateTransferStatusBody }), transferController.updateTransferStatus);
 
 // DELETE transfer
-router.delete("/:id", transferController.deleteTransfer);
+router.delete("/:id", authorize("transfer:delete"), validate({ params: idParams }), transferController.deleteTransfer);
 
 // =================== TRANSFER ACTIONS ===================
-// POST complete transfer
-router.post("/:id/complete", transferController.completeTransfer);
+// POST approve (PENDING_APPROVAL -> PENDING)
+router.post("/:id/approve", authorize("transfer:approve"), validate({ params: idParams }), transferController.approveTransfer);
+
+// POST reject (PENDING_APPROVAL -> CANCELLED)
+router.post("/:id/reject", authorize("transfer:approve"), validate({ params: idParams, body: reasonBodySchema }), transferController.rejectTransfer);
+
+// POST dispatch transfer - STOCK_OUT at the source, goods go in transit
+router.post("/:id/dispatch", authorize("transfer:complete"), validate({ params: idParams, body: dispatchTransferBody }), transferController.dispatchTransfer);
+
+// POST receive transfer - per-line receipt, STOCK_IN of the good units at the destination
+router.post("/:id/receive", authorize("transfer:complete"), validate({ params: idParams, body: receiveTransferBody }), transferController.receiveTransfer);
 
 // =================== STATISTICS ===================
 // GET transfer statistics
-router.get("/statistics/dashboard", transferController.getTransferStatistics);
+router.get("/statistics/dashboard", authorize("transfer:read"), validate({}), transferController.getTransferStatistics);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import express from "express";
+const router = express.Router();
+import UserController from "../controllers/userControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { dateRangeQuery, idParams, searchBodySchema } from "../schemas/common";
+import { changeRoleBody, createUserBody, updateUserBody } from "../schemas/userSchemas";
+
+const userController = new UserController();
+
+// =================== SEARCH & QUERY OPERATIONS ===================
+// POST search users with pagination/filters
+router.post("/search", authorize("user:read"), validate({ body: searchBodySchema }), userController.searchUsers);
+
+// GET current user (any authenticated user)
+router.get("/me", validate({}), userController.getCurrentUser);
+
+// =================== SINGLE RECORD OPERATIONS ===================
+// GET user by ID
+router.get("/:id", authorize("user:read"), validate({ params: idParams }), userController.getUserById);
+
+// GET user activity summary (optional ?startDate=&endDate=)
+router.get("/:id/activity", authorize("user:read"), validate({ params: idParams, query: dateRangeQuery }), userController.getUserActivity);
+
+// POST invite/create user tied to a supabaseUid
+router.post("/", authorize("user:write"), validate({ body: createUserBody }), userController.createUser);
+
+// PUT update user profile
+router.put("/:id", authorize("user:write"), validate({ params: idParams, body: updateUserBody }), userController.updateUser);
+
+// =================== ROLE & ACTIVATION ===================
+// PUT change role
+router.put("/:id/role", authorize("user:write"), validate({ params: idParams, body: changeRoleBody }), userController.changeRole);
+
+// POST deactivate user (last admin cannot be deactivated)
+router.post("/:id/deactivate", authorize("user:write"), validate({ params: idParams }), userController.deactivateUser);
+
+// POST reactivate user
+router.post("/:id/reactivate", authorize("user:write"), validate({ params: idParams }), userController.reactivateUser);
+
+export default router;
@@ -1,37 +1,41 @@
 import express from "express";
 const router = express.Router();
 import WarehouseController from "../controllers/warehouseControllers";
+import { authorize } from "../middleware/authorize";
+import { validate } from "../middleware/validate";
+import { idParams, searchBodySchema } from "../schemas/common";
+import { createWarehouseBody, updateWarehouseBody } from "../schemas/warehouseSchemas";
 
 const warehouseController = new WarehouseController();
 
 // I'm using POST for search operations allowing complex filters in the body
 // POST search warehouses
-router.post("/search", warehouseController.searchWarehouses);
+router.post("/search", authorize("warehouse:read"), validate({ body: searchBodySchema }), warehouseController.searchWarehouses);
 
 // POST search warehouses with low stock
-router.post("/reports/low-stock/search", warehouseController.searchWarehousesWithLowStock);
+router.post("/reports/low-stock/search", authorize("warehouse:read"), validate({ body: searchBodySchema }), warehouseController.searchWarehousesWithLowStock);
 
 // =================== SINGLE RECORD OPERATIONS ===================
 // GET single warehouse by ID
-router.get("/:id", warehouseController.getWarehouseById);
+router.get("/:id", authorize("warehouse:read"), validate({ params: idParams }), warehouseController.getWarehouseById);
 
 // POST create new warehouse
-router.post("/", warehouseController.createWarehouse);
+router.post("/", authorize("warehouse:create"), validate({ body: createWarehouseBody }), warehouseController.createWarehouse);
 
 // PUT update warehouse
-router.put("/:id", warehouseController.updateWarehouse);
+router.put("/:id", authorize("warehouse:update"), validate({ params: idParams, body: updateWarehouseBody }), warehouseController.updateWarehouse);
 
 // DELETE warehouse
-router.delete("/:id", warehouseController.deleteWarehouse);
+router.delete("/:id", authorize("warehouse:delete"), validate({ params: idParams }), warehouseController.deleteWarehouse);
 
 // GET warehouse inventory summary
-router.get("/:id/inventory-summary", warehouseController.getWarehouseInventorySummary);
+router.get("/:id/inventory-summary", authorize("warehouse:read"), validate({ params: idParams }), warehouseController.getWarehouseInventorySummary);
 
 // GET warehouse statistics
-router.get("/:id/stats", warehouseController.getWarehouseStats);
+router.get("/:id/stats", authorize("warehouse:read"), validate({ params: idParams }), warehouseController.getWarehouseStats);
 
 // GET active warehouses (for dropdowns/selects)
-router.get("/active/list", warehouseController.getActiveWarehouses);
+router.get("/active/list", authorize("warehouse:read"), validate({}), warehouseController.getActiveWarehouses);
 
 
 export default router;
\ No newline at end of file
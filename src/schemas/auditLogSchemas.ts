@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { idSchema, searchBodySchema } from "./common";
+
+export const auditLogSearchBody = searchBodySchema.extend({
+  filters: z
+    .object({
+      entityType: z.string().optional(),
+      entityId: z.string().optional(),
+      userId: z.string().optional(),
+      action: z.enum(["CREATE", "UPDATE", "DELETE"]).optional(),
+      startDate: z.coerce.date().optional(),
+      endDate: z.coerce.date().optional(),
+    })
+    .optional(),
+});
+
+export const entityHistoryParams = z.object({
+  entityType: z.string().trim().min(1),
+  entityId: idSchema,
+});
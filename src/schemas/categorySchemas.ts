@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { idSchema, nullableString } from "./common";
+
+export const createCategoryBody = z.object({
+  name: z.string().trim().min(1, "Category name is required"),
+  description: nullableString,
+  parentId: idSchema.nullable().optional(),
+  isRecyclable: z.boolean().optional(),
+});
+
+export const updateCategoryBody = createCategoryBody.partial();
+
+export const parentIdParams = z.object({ parentId: idSchema });
+
+export type CreateCategoryInput = z.infer<typeof createCategoryBody>;
+export type UpdateCategoryInput = z.infer<typeof updateCategoryBody>;
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+// Prisma ids are cuids, but seeded/imported rows may use other formats
+export const idSchema = z.string().trim().min(1, "Required");
+
+export const idParams = z.object({ id: idSchema });
+
+export const warehouseIdParams = z.object({ warehouseId: idSchema });
+
+export const productIdParams = z.object({ productId: idSchema });
+
+export const categoryIdParams = z.object({ categoryId: idSchema });
+
+export const optionalString = z.string().trim().optional();
+
+export const nullableString = z.string().trim().nullable().optional();
+
+export const positiveInt = z.coerce.number().int().positive();
+
+export const nonNegativeInt = z.coerce.number().int().min(0);
+
+export const nonNegativeNumber = z.coerce.number().min(0);
+
+export const dateInput = z.coerce.date();
+
+export const sortSchema = z.object({
+  field: z.string().min(1),
+  order: z.enum(["asc", "desc"]),
+});
+
+// Search endpoints apply their own defaults, so every field stays optional here
+export const searchBodySchema = z.object({
+  search: z.string().optional(),
+  currentPage: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+  filters: z.record(z.string(), z.any()).optional(),
+  sort: sortSchema.optional(),
+});
+
+export const filtersBodySchema = z.object({
+  filters: z.record(z.string(), z.any()).optional(),
+});
+
+export const reasonBodySchema = z.object({
+  reason: optionalString,
+});
+
+export const dateRangeQuery = z.object({
+  startDate: dateInput.optional(),
+  endDate: dateInput.optional(),
+});
+
+export type SearchBody = z.infer<typeof searchBodySchema>;
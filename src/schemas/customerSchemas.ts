@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { idSchema, nullableString } from "./common";
+
+export const customerAddressBody = z.object({
+  label: nullableString,
+  line1: z.string().trim().min(1, "Address line is required"),
+  line2: nullableString,
+  city: nullableString,
+  postalCode: nullableString,
+  country: nullableString,
+  latitude: z.coerce.number().min(-90).max(90).nullable().optional(),
+  longitude: z.coerce.number().min(-180).max(180).nullable().optional(),
+  // The default address ships orders that do not pick one
+  isDefault: z.boolean().optional(),
+});
+
+export const updateCustomerAddressBody = customerAddressBody.partial();
+
+const customerFields = {
+  name: z.string().trim().min(1, "Name is required"),
+  companyName: nullableString,
+  // Stored lower-case so the same address cannot be registered twice
+  email: z.email().toLowerCase().nullable().optional(),
+  phone: nullableString,
+  // Selects the sales price lists aimed at this group
+  customerGroup: nullableString,
+  prefersEcoPackaging: z.boolean().optional(),
+  prefersLowCarbonShipping: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  notes: nullableString,
+};
+
+export const createCustomerBody = z.object({
+  ...customerFields,
+  addresses: z.array(customerAddressBody).optional(),
+});
+
+export const updateCustomerBody = z.object(customerFields).partial();
+
+export const customerAddressParams = z.object({
+  id: idSchema,
+  addressId: idSchema,
+});
+
+export type CustomerAddressInput = z.infer<typeof customerAddressBody>;
+export type UpdateCustomerAddressInput = z.infer<typeof updateCustomerAddressBody>;
+export type CreateCustomerInput = z.infer<typeof createCustomerBody>;
+export type UpdateCustomerInput = z.infer<typeof updateCustomerBody>;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { dateInput, idSchema, nonNegativeNumber, optionalString, positiveInt } from "./common";
+
+const ITEM_CONDITIONS = ["GOOD", "DAMAGED", "EXPIRED"] as const;
+
+export const createDeliveryBody = z.object({
+  purchaseOrderId: idSchema,
+  carrier: optionalString,
+  trackingNumber: optionalString,
+  shippedDate: dateInput.optional(),
+  deliveryCarbonKg: nonNegativeNumber.optional(),
+  notes: optionalString,
+  // Defaults to everything still pending on the purchase order
+  items: z
+    .array(
+      z.object({
+        productId: idSchema,
+        quantity: positiveInt,
+      }),
+    )
+    .optional(),
+});
+
+export const receiveDeliveryBody = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: idSchema,
+        receivedQty: positiveInt,
+        condition: z.enum(ITEM_CONDITIONS).default("GOOD"),
+      }),
+    )
+    .min(1, "At least one received item is required"),
+  notes: optionalString,
+});
+
+export type CreateDeliveryInput = z.infer<typeof createDeliveryBody>;
+export type ReceiveDeliveryInput = z.infer<typeof receiveDeliveryBody>;
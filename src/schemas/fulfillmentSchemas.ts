@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { dateInput, idSchema, nonNegativeInt, optionalString, positiveInt } from "./common";
+
+export const confirmPicksBody = z.object({
+  picks: z
+    .array(
+      z
+        .object({
+          allocationId: idSchema,
+          pickedQuantity: nonNegativeInt,
+          // Units that were expected on the shelf but not found
+          shortQuantity: nonNegativeInt.default(0),
+        })
+        .refine((pick) => pick.pickedQuantity + pick.shortQuantity > 0, {
+          message: "Pick at least one unit or report a short pick",
+          path: ["pickedQuantity"],
+        }),
+    )
+    .min(1, "At least one pick is required"),
+});
+
+export const packShipmentBody = z.object({
+  warehouseId: idSchema,
+  lines: z
+    .array(
+      z.object({
+        orderItemId: idSchema,
+        quantity: positiveInt,
+      }),
+    )
+    .min(1, "At least one line is required"),
+  carrier: optionalString,
+  trackingNumber: optionalString,
+  notes: optionalString,
+});
+
+// Carrier details can be given when the parcel is handed over instead of at packing
+export const shipShipmentBody = z.object({
+  carrier: optionalString,
+  trackingNumber: optionalString,
+  shippedAt: dateInput.optional(),
+});
+
+export const deliverShipmentBody = z.object({
+  deliveredAt: dateInput.optional(),
+});
+
+export type ConfirmPicksInput = z.infer<typeof confirmPicksBody>;
+export type PackShipmentInput = z.infer<typeof packShipmentBody> & { packedById: string };
+export type ShipShipmentInput = z.infer<typeof shipShipmentBody> & { shippedById: string };
+export type DeliverShipmentInput = z.infer<typeof deliverShipmentBody>;
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import {
+  filtersBodySchema,
+  idSchema,
+  nonNegativeInt,
+  nullableString,
+  optionalString,
+  searchBodySchema,
+} from "./common";
+
+export const inventoryActionSchema = z.enum(["SET", "ADD", "SUBTRACT"]);
+
+export const upsertInventoryBody = z.object({
+  warehouseId: idSchema,
+  productId: idSchema,
+  quantity: nonNegativeInt.default(0),
+  aisle: nullableString,
+  shelf: nullableString,
+  bin: nullableString,
+});
+
+export const updateInventoryQuantityBody = z.object({
+  quantity: nonNegativeInt,
+  action: inventoryActionSchema.default("SET"),
+  notes: optionalString,
+  // Version the client last read; the update fails if the stock has changed since
+  version: nonNegativeInt.optional(),
+});
+
+export const bulkUpdateInventoryBody = z.object({
+  updates: z
+    .array(updateInventoryQuantityBody.extend({ id: idSchema }))
+    .min(1, "At least one update is required"),
+});
+
+export const lowStockInventorySearchBody = searchBodySchema.extend({
+  threshold: nonNegativeInt.optional(),
+});
+
+export const inventoryValueReportBody = filtersBodySchema;
+
+export type UpsertInventoryInput = z.infer<typeof upsertInventoryBody>;
+export type InventoryAction = z.infer<typeof inventoryActionSchema>;
+export type InventoryQuantityUpdate = z.infer<typeof updateInventoryQuantityBody>;
+export type BulkInventoryUpdate = z.infer<typeof bulkUpdateInventoryBody>["updates"][number];
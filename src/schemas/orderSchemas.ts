@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { ALLOCATION_STRATEGIES } from "../lib/fulfillment";
+import {
+  dateInput,
+  idSchema,
+  nonNegativeNumber,
+  nullableString,
+  optionalString,
+  positiveInt,
+} from "./common";
+
+export const ORDER_STATUSES = [
+  "NEW",
+  "PROCESSING",
+  "PICKING",
+  "PACKED",
+  "PARTIALLY_SHIPPED",
+  "SHIPPED",
+  "DELIVERED",
+  "RETURNED",
+  "CANCELLED",
+] as const;
+
+export const orderStatusSchema = z.enum(ORDER_STATUSES);
+
+export const orderPrioritySchema = z.enum(["LOW", "NORMAL", "HIGH", "URGENT"]);
+
+export const packagingTypeSchema = z.enum(["STANDARD", "ECO_FRIENDLY"]);
+
+export const allocationStrategySchema = z.enum(ALLOCATION_STRATEGIES);
+
+export const shippingLocationSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+});
+
+export const orderItemBody = z.object({
+  productId: idSchema,
+  quantity: positiveInt,
+  // Hand-set price instead of the price list's; needs pricing:override
+  unitPrice: nonNegativeNumber.optional(),
+});
+
+const orderFields = z.object({
+  // A linked customer supplies the contact details, address and eco preferences
+  // that are not given on the order itself
+  customerId: idSchema.optional(),
+  shippingAddressId: idSchema.optional(),
+  customerName: z.string().trim().min(1, "Customer name is required").optional(),
+  customerEmail: z.email().optional(),
+  customerPhone: optionalString,
+  shippingAddress: optionalString,
+  // Tax jurisdiction of the order
+  shippingCountry: optionalString,
+  shippingLocation: shippingLocationSchema.optional(),
+  // Without a warehouse, one is chosen (or several when allowSplit) by allocationStrategy
+  fulfillmentWarehouseId: idSchema.optional(),
+  allocationStrategy: allocationStrategySchema.optional(),
+  allowSplit: z.boolean().optional(),
+  allowBackorder: z.boolean().optional(),
+  priority: orderPrioritySchema.optional(),
+  requiredDate: dateInput.optional(),
+  items: z.array(orderItemBody).min(1, "At least one item is required"),
+  // Replace the tax, shipping and carbon the engine would work out; needs pricing:override
+  tax: nonNegativeNumber.optional(),
+  shippingCost: nonNegativeNumber.optional(),
+  estimatedCarbonKg: nonNegativeNumber.optional(),
+  packagingType: packagingTypeSchema.optional(),
+  notes: optionalString,
+});
+
+export const createOrderBody = orderFields
+  .refine((data) => data.customerId || data.customerName, {
+    message: "Customer name is required",
+    path: ["customerName"],
+  })
+  .refine((data) => !data.shippingAddressId || data.customerId, {
+    message: "shippingAddressId needs a customerId",
+    path: ["shippingAddressId"],
+  });
+
+export const orderAvailabilityBody = orderFields.pick({
+  items: true,
+  shippingLocation: true,
+  fulfillmentWarehouseId: true,
+  allocationStrategy: true,
+  allowSplit: true,
+});
+
+// A line of an edited order: an existing line by id, or a new line by product
+export const orderLineEditBody = z
+  .object({
+    id: idSchema.optional(),
+    productId: idSchema.optional(),
+    quantity: positiveInt,
+    unitPrice: nonNegativeNumber.optional(),
+  })
+  .refine((line) => Boolean(line.id) !== Boolean(line.productId), {
+    message: "Give either the id of an existing line or the productId of a new one",
+    path: ["id"],
+  });
+
+export const updateOrderBody = z
+  .object({
+    status: orderStatusSchema.optional(),
+    priority: orderPrioritySchema.optional(),
+    customerName: z.string().trim().min(1).optional(),
+    customerEmail: z.email().nullable().optional(),
+    customerPhone: nullableString,
+    shippingAddress: nullableString,
+    shippingCountry: nullableString,
+    requiredDate: dateInput.nullable().optional(),
+    shippedDate: dateInput.nullable().optional(),
+    deliveredDate: dateInput.nullable().optional(),
+    packagingType: packagingTypeSchema.optional(),
+    notes: nullableString,
+    // The complete set of lines the order should have; lines left out are removed.
+    // Only while the order is NEW or PROCESSING.
+    items: z.array(orderLineEditBody).min(1, "At least one item is required").optional(),
+    // Replace the tax and shipping the pricing engine would charge; needs pricing:override
+    tax: nonNegativeNumber.optional(),
+    shippingCost: nonNegativeNumber.optional(),
+  })
+  .refine((data) => !(data.items && data.status), {
+    message: "Change the order lines and the status in separate requests",
+    path: ["items"],
+  });
+
+export const orderStatusParams = z.object({ status: orderStatusSchema });
+
+export type CreateOrderInput = z.infer<typeof createOrderBody> & { createdById: string };
+export type OrderAvailabilityInput = z.infer<typeof orderAvailabilityBody>;
+export type OrderLineEditInput = z.infer<typeof orderLineEditBody>;
+export type UpdateOrderInput = z.infer<typeof updateOrderBody> & { fulfilledById?: string };
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { PRICE_LIST_TYPES } from "../lib/pricing";
+import { dateInput, idSchema, nonNegativeNumber, nullableString, optionalString, positiveInt } from "./common";
+import { orderItemBody } from "./orderSchemas";
+
+export const priceListTypeSchema = z.enum(PRICE_LIST_TYPES);
+
+export const priceListItemBody = z.object({
+  productId: idSchema,
+  minQuantity: positiveInt.default(1),
+  unitPrice: nonNegativeNumber,
+});
+
+const priceListFields = {
+  code: z.string().trim().min(1, "Code is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  type: priceListTypeSchema.optional(),
+  customerGroup: nullableString,
+  supplierId: idSchema.nullable().optional(),
+  priority: z.coerce.number().int().optional(),
+  validFrom: dateInput.nullable().optional(),
+  validTo: dateInput.nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const createPriceListBody = z
+  .object({
+    ...priceListFields,
+    items: z.array(priceListItemBody).optional(),
+  })
+  .refine((data) => data.type !== "PURCHASE" || data.supplierId, {
+    message: "Purchase price lists need a supplierId",
+    path: ["supplierId"],
+  });
+
+export const updatePriceListBody = z.object(priceListFields).partial();
+
+export const setPriceListItemsBody = z.object({
+  items: z.array(priceListItemBody),
+});
+
+export const taxRateParams = z.object({
+  country: z.string().trim().min(1),
+});
+
+export const upsertTaxRateBody = z.object({
+  name: nullableString,
+  rate: z.coerce.number().min(0).max(1),
+  appliesToShipping: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const priceQuoteBody = z.object({
+  customerId: idSchema.optional(),
+  shippingCountry: optionalString,
+  items: z.array(orderItemBody).min(1, "At least one item is required"),
+});
+
+export type PriceListItemInput = z.infer<typeof priceListItemBody>;
+export type CreatePriceListInput = z.infer<typeof createPriceListBody>;
+export type UpdatePriceListInput = z.infer<typeof updatePriceListBody>;
+export type UpsertTaxRateInput = z.infer<typeof upsertTaxRateBody>;
+export type PriceQuoteInput = z.infer<typeof priceQuoteBody>;
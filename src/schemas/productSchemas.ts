@@ -0,0 +1,56 @@
+import { z } from "zod";
+import {
+  filtersBodySchema,
+  idSchema,
+  nonNegativeInt,
+  nonNegativeNumber,
+  nullableString,
+  searchBodySchema,
+} from "./common";
+
+const productFields = {
+  sku: z.string().trim().min(1, "SKU is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  description: nullableString,
+  categoryId: idSchema,
+  unit: z.string().trim().min(1, "Unit is required"),
+  weight: nonNegativeNumber.nullable().optional(),
+  volume: nonNegativeNumber.nullable().optional(),
+  isEcoFriendly: z.boolean().optional(),
+  materialType: nullableString,
+  costPrice: nonNegativeNumber,
+  sellingPrice: nonNegativeNumber.nullable().optional(),
+  minStockLevel: nonNegativeInt.optional(),
+  reorderPoint: nonNegativeInt.optional(),
+  carbonFootprintKg: nonNegativeNumber.nullable().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const upsertProductBody = z.object({
+  id: idSchema.optional(),
+  ...productFields,
+});
+
+export const bulkUpdateProductsBody = z.object({
+  updates: z
+    .array(
+      z.object({
+        id: idSchema,
+        data: z.object(productFields),
+      }),
+    )
+    .min(1, "At least one update is required"),
+});
+
+export const lowStockSearchBody = searchBodySchema.extend({
+  threshold: nonNegativeInt.optional(),
+});
+
+export const productAnalyticsBody = filtersBodySchema;
+
+export const productTurnoverQuery = z.object({
+  period: z.string().trim().min(1).optional(),
+});
+
+export type UpsertProductInput = z.infer<typeof upsertProductBody>;
+export type BulkProductUpdate = z.infer<typeof bulkUpdateProductsBody>["updates"][number];
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { dateInput, idSchema, nonNegativeNumber, optionalString, positiveInt } from "./common";
+
+export const purchaseOrderPrioritySchema = z.enum(["LOW", "NORMAL", "HIGH", "URGENT"]);
+
+export const purchaseOrderItemBody = z.object({
+  productId: idSchema,
+  quantity: positiveInt,
+});
+
+export const createPurchaseOrderBody = z.object({
+  supplierId: idSchema,
+  deliveryWarehouseId: idSchema,
+  items: z.array(purchaseOrderItemBody).min(1, "Purchase order must contain at least one item"),
+  priority: purchaseOrderPrioritySchema.optional(),
+  expectedDelivery: dateInput.optional(),
+  // Replace the tax rate of the delivery country and the shipping the pricing engine would charge
+  taxRate: z.coerce.number().min(0).max(1).optional(),
+  shippingCost: nonNegativeNumber.optional(),
+  notes: optionalString,
+});
+
+export const updatePurchaseOrderBody = createPurchaseOrderBody
+  .omit({ supplierId: true })
+  .partial();
+
+export type PurchaseOrderItemInput = z.infer<typeof purchaseOrderItemBody>;
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderBody> & {
+  createdById: string;
+};
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderBody>;
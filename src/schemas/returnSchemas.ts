@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { dateInput, idSchema, optionalString, positiveInt } from "./common";
+import { createRecyclingRecordBody } from "./sustainabilitySchemas";
+
+export const RETURN_DISPOSITIONS = ["RESTOCK", "REFURBISH", "RECYCLE", "WASTE"] as const;
+
+export const returnDispositionSchema = z.enum(RETURN_DISPOSITIONS);
+
+export const createReturnBody = z.object({
+  orderId: idSchema,
+  // Defaults to the order's fulfillment warehouse
+  warehouseId: idSchema.optional(),
+  reason: optionalString,
+  notes: optionalString,
+  items: z
+    .array(
+      z.object({
+        orderItemId: idSchema,
+        quantity: positiveInt,
+        reason: optionalString,
+      }),
+    )
+    .min(1, "At least one item is required"),
+});
+
+export const receiveReturnBody = z.object({
+  receivedAt: dateInput.optional(),
+});
+
+export const inspectReturnBody = z.object({
+  inspections: z
+    .array(
+      z
+        .object({
+          returnItemId: idSchema,
+          disposition: returnDispositionSchema,
+          quantity: positiveInt,
+          // Recycled units are booked as a recycling record of this type and method
+          recyclingType: createRecyclingRecordBody.shape.recyclingType.optional(),
+          method: createRecyclingRecordBody.shape.method.default("MECHANICAL"),
+        })
+        .refine((inspection) => inspection.disposition !== "RECYCLE" || inspection.recyclingType, {
+          message: "recyclingType is required for recycled units",
+          path: ["recyclingType"],
+        }),
+    )
+    .min(1, "At least one inspection is required"),
+  notes: optionalString,
+});
+
+export type ReturnDisposition = z.infer<typeof returnDispositionSchema>;
+export type CreateReturnInput = z.infer<typeof createReturnBody> & { createdById: string };
+export type ReceiveReturnInput = z.infer<typeof receiveReturnBody>;
+export type InspectReturnInput = z.infer<typeof inspectReturnBody> & { inspectedById: string };
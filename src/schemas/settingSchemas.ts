@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { SETTING_VALUE_TYPES } from "../lib/settings";
+import { optionalString } from "./common";
+
+export const settingKeyParams = z.object({
+  key: z.string().trim().min(1),
+});
+
+export const settingCategoryParams = z.object({
+  category: z.string().trim().min(1),
+});
+
+export const listSettingsQuery = z.object({
+  category: optionalString,
+});
+
+// Values are checked against the setting's declared type by the service
+export const createSettingBody = z.object({
+  key: z.string().trim().min(1, "Key is required"),
+  value: z.unknown(),
+  valueType: z.enum(SETTING_VALUE_TYPES).optional(),
+  category: optionalString,
+  description: optionalString,
+});
+
+export const updateSettingBody = z.object({
+  value: z.unknown(),
+  description: optionalString,
+});
+
+export type CreateSettingInput = z.infer<typeof createSettingBody> & { updatedById: string };
+export type UpdateSettingInput = z.infer<typeof updateSettingBody>;
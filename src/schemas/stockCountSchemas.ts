@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { idSchema, nonNegativeInt, optionalString } from "./common";
+
+export const openSessionBody = z.object({
+  warehouseId: idSchema,
+  aisle: optionalString,
+  categoryId: idSchema.optional(),
+  notes: optionalString,
+});
+
+export const countItemBody = z.object({
+  productId: idSchema,
+  countedQty: nonNegativeInt,
+  notes: optionalString,
+});
+
+export const submitCountsBody = z.object({
+  items: z.array(countItemBody).min(1, "At least one counted item is required"),
+});
+
+export const reviewDecisionBody = z.object({
+  countId: idSchema,
+  action: z.enum(["APPROVE", "REJECT"]),
+});
+
+export const reviewSessionBody = z.object({
+  decisions: z.array(reviewDecisionBody).min(1, "At least one review decision is required"),
+});
+
+export type OpenSessionInput = z.infer<typeof openSessionBody> & { openedById: string };
+export type CountInput = z.infer<typeof countItemBody>;
+export type ReviewDecision = z.infer<typeof reviewDecisionBody>;
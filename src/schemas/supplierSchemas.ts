@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { idSchema, nonNegativeNumber, nullableString, optionalString } from "./common";
+
+const supplierFields = {
+  code: z.string().trim().min(1, "Code is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  contactName: nullableString,
+  email: z.email().nullable().optional(),
+  phone: nullableString,
+  address: nullableString,
+  city: nullableString,
+  country: nullableString,
+  sustainabilityRating: z.number().int().min(0).max(5).nullable().optional(),
+  isCertifiedEco: z.boolean().optional(),
+  // A single certification string is accepted and stored as a one-element list
+  certifications: z.union([z.array(z.string()), z.string()]).nullable().optional(),
+  isActive: z.boolean().optional(),
+  paymentTerms: optionalString,
+};
+
+export const createSupplierBody = z.object({
+  ...supplierFields,
+  warehouseIds: z.array(idSchema).optional(),
+});
+
+export const updateSupplierBody = z.object(supplierFields).partial();
+
+export const supplierProductBody = z.object({
+  productId: idSchema,
+  supplierSku: optionalString,
+  unitCost: nonNegativeNumber,
+  leadTimeDays: z.coerce.number().int().min(0).optional(),
+  minOrderQty: z.coerce.number().int().min(1).optional(),
+});
+
+export const updateSupplierProductBody = supplierProductBody.omit({ productId: true }).partial();
+
+export const supplierProductParams = z.object({
+  id: idSchema,
+  productId: idSchema,
+});
+
+export const setSupplierWarehousesBody = z.object({
+  warehouseIds: z.array(idSchema),
+});
+
+export type CreateSupplierInput = z.infer<typeof createSupplierBody>;
+export type UpdateSupplierInput = z.infer<typeof updateSupplierBody>;
+export type SupplierProductInput = z.infer<typeof supplierProductBody>;
+export type UpdateSupplierProductInput = z.infer<typeof updateSupplierProductBody>;
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { dateInput, idSchema, nonNegativeNumber, nullableString, optionalString, positiveInt } from "./common";
+
+export const carbonScopeSchema = z.enum(["SCOPE_1", "SCOPE_2", "SCOPE_3"]);
+
+export const carbonCategorySchema = z.enum(["TRANSPORT", "ENERGY", "WASTE", "MATERIALS"]);
+
+export const calculationMethodSchema = z.enum(["ESTIMATED", "MEASURED", "CALCULATED"]);
+
+export const createCarbonTrackingBody = z.object({
+  scope: carbonScopeSchema,
+  category: carbonCategorySchema,
+  carbonKg: nonNegativeNumber,
+  sourceId: idSchema.optional(),
+  sourceType: optionalString,
+  measurementPeriod: z.string().trim().min(1, "Measurement period is required"),
+  calculationMethod: calculationMethodSchema.optional(),
+  notes: optionalString,
+});
+
+export const updateCarbonTrackingBody = z.object({
+  carbonKg: nonNegativeNumber.optional(),
+  calculationMethod: calculationMethodSchema.optional(),
+  notes: nullableString,
+});
+
+export const createRecyclingRecordBody = z.object({
+  processingWarehouseId: idSchema,
+  productId: idSchema,
+  quantity: positiveInt,
+  weightKg: nonNegativeNumber.optional(),
+  recyclingType: z.enum(["PLASTIC", "PAPER", "METAL", "ELECTRONIC", "ORGANIC"]),
+  method: z.enum(["MECHANICAL", "CHEMICAL", "COMPOSTING"]),
+  carbonSavedKg: nonNegativeNumber.optional(),
+  landfillDivertedKg: nonNegativeNumber.optional(),
+});
+
+export const updateRecyclingRecordBody = z.object({
+  quantity: positiveInt.optional(),
+  weightKg: nonNegativeNumber.nullable().optional(),
+  carbonSavedKg: nonNegativeNumber.nullable().optional(),
+  landfillDivertedKg: nonNegativeNumber.nullable().optional(),
+});
+
+export const createMaterialFlowBody = z.object({
+  materialType: z.string().trim().min(1, "Material type is required"),
+  category: z.enum(["INPUT", "OUTPUT", "WASTE", "RECYCLED"]),
+  quantity: positiveInt,
+  unit: z.string().trim().min(1, "Unit is required"),
+  sourceId: idSchema.optional(),
+  sourceType: optionalString,
+  destId: idSchema.optional(),
+  destType: optionalString,
+  flowDate: dateInput.optional(),
+});
+
+export const updateMaterialFlowBody = z.object({
+  quantity: positiveInt.optional(),
+});
+
+export type CreateCarbonTrackingInput = z.infer<typeof createCarbonTrackingBody>;
+export type UpdateCarbonTrackingInput = z.infer<typeof updateCarbonTrackingBody>;
+export type CreateRecyclingRecordInput = z.infer<typeof createRecyclingRecordBody> & {
+  processedById: string;
+};
+export type UpdateRecyclingRecordInput = z.infer<typeof updateRecyclingRecordBody>;
+export type CreateMaterialFlowInput = z.infer<typeof createMaterialFlowBody>;
+export type UpdateMaterialFlowInput = z.infer<typeof updateMaterialFlowBody>;
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { idSchema, nonNegativeInt, nonNegativeNumber, optionalString, positiveInt } from "./common";
+
+const transactionItem = (quantity: z.ZodType<number>) =>
+  z.object({
+    productId: idSchema,
+    quantity,
+    unitPrice: nonNegativeNumber.optional(),
+  });
+
+const transactionFields = {
+  warehouseId: idSchema,
+  referenceId: optionalString,
+  referenceType: optionalString,
+  notes: optionalString,
+};
+
+export const stockMovementBody = z.object({
+  ...transactionFields,
+  items: z.array(transactionItem(positiveInt)).min(1, "At least one item is required"),
+});
+
+// Adjustments carry the counted (target) quantity, which may be zero
+export const adjustmentBody = z.object({
+  ...transactionFields,
+  items: z.array(transactionItem(nonNegativeInt)).min(1, "At least one item is required"),
+});
+
+export const wasteBody = stockMovementBody.extend({
+  wasteType: z.enum(["WASTE", "RECYCLING"]).default("WASTE"),
+});
+
+export const updateTransactionBody = z.object({
+  notes: optionalString,
+});
+
+export const transactionTypeSchema = z.enum([
+  "STOCK_IN",
+  "STOCK_OUT",
+  "ADJUSTMENT",
+  "RETURN",
+  "WASTE",
+  "RECYCLING",
+]);
+
+export type StockMovementInput = z.infer<typeof stockMovementBody>;
+export type TransactionType = z.infer<typeof transactionTypeSchema>;
+export type UpdateTransactionInput = z.infer<typeof updateTransactionBody>;
+
+// Shape accepted by the transaction service once the caller and type are resolved
+export type CreateTransactionInput = Omit<StockMovementInput, "items"> & {
+  type: TransactionType;
+  // A line may name the inventory version its quantity was worked out from (adjustments
+  // derived from a stock level read earlier); the transaction then fails instead of
+  // overwriting stock that has moved since
+  items: (StockMovementInput["items"][number] & { expectedVersion?: number })[];
+  performedById: string;
+  // STOCK_OUT of units already reserved (order shipments): taken from `reserved`, not `available`
+  fromReserved?: boolean;
+  // Units that are not held as stock (returned goods sent to refurbishment or disposal):
+  // the movement is recorded without touching inventory
+  outsideStock?: boolean;
+  carbonImpactKg?: number;
+};
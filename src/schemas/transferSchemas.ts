@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { TRANSPORT_MODES } from "../lib/transport";
+import {
+  dateInput,
+  idSchema,
+  nonNegativeInt,
+  nullableString,
+  optionalString,
+  positiveInt,
+} from "./common";
+
+export const transferStatusSchema = z.enum([
+  "PENDING_APPROVAL",
+  "PENDING",
+  "IN_TRANSIT",
+  "COMPLETED",
+  "CANCELLED",
+]);
+
+export const transportModeSchema = z.enum(TRANSPORT_MODES);
+
+export const transferItemBody = z.object({
+  productId: idSchema,
+  quantity: positiveInt,
+});
+
+export const createTransferBody = z.object({
+  sourceWarehouseId: idSchema,
+  destinationWarehouseId: idSchema,
+  items: z.array(transferItemBody).min(1, "At least one item is required"),
+  // Picks the emission factor of the carbon estimate; defaults to ROAD
+  transportMode: transportModeSchema.optional(),
+  notes: optionalString,
+  estimatedArrival: dateInput.optional(),
+});
+
+export const updateTransferBody = z.object({
+  // Only before dispatch; the stock is reserved again at the new source
+  sourceWarehouseId: idSchema.optional(),
+  destinationWarehouseId: idSchema.optional(),
+  notes: nullableString,
+  estimatedArrival: dateInput.optional(),
+  // Only while PENDING; the carbon estimate is recalculated
+  transportMode: transportModeSchema.optional(),
+  status: transferStatusSchema.optional(),
+});
+
+export const updateTransferStatusBody = z.object({
+  status: transferStatusSchema,
+});
+
+export const dispatchTransferBody = z.object({
+  notes: optionalString,
+});
+
+export const transferReceiptLineBody = z.object({
+  // Transfer item the counts are for
+  id: idSchema,
+  receivedQuantity: nonNegativeInt,
+  damagedQuantity: nonNegativeInt.default(0),
+  // Why fewer units arrived than were dispatched
+  discrepancyNote: optionalString,
+});
+
+export const receiveTransferBody = z.object({
+  // Lines left out arrived in full and undamaged
+  items: z.array(transferReceiptLineBody).default([]),
+  notes: optionalString,
+});
+
+export const rebalanceBody = z.object({
+  // Limit the analysis; everything active is considered by default
+  productIds: z.array(idSchema).optional(),
+  warehouseIds: z.array(idSchema).optional(),
+});
+
+export type TransferItemInput = z.infer<typeof transferItemBody>;
+export type CreateTransferInput = z.infer<typeof createTransferBody> & { requestedById: string };
+export type UpdateTransferInput = z.infer<typeof updateTransferBody>;
+export type TransferStatus = z.infer<typeof transferStatusSchema>;
+export type DispatchTransferInput = z.infer<typeof dispatchTransferBody>;
+export type ReceiveTransferInput = z.infer<typeof receiveTransferBody>;
+export type RebalanceInput = z.infer<typeof rebalanceBody>;
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { ROLES } from "../lib/permissions";
+import { nullableString } from "./common";
+
+export const roleSchema = z.enum(ROLES);
+
+export const createUserBody = z.object({
+  supabaseUid: z.string().trim().min(1, "supabaseUid is required"),
+  email: z.email(),
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  role: roleSchema.optional(),
+  department: nullableString,
+});
+
+export const updateUserBody = z.object({
+  email: z.email().optional(),
+  firstName: z.string().trim().min(1).optional(),
+  lastName: z.string().trim().min(1).optional(),
+  department: nullableString,
+});
+
+export const changeRoleBody = z.object({
+  role: roleSchema,
+});
+
+export type CreateUserInput = z.infer<typeof createUserBody>;
+export type UpdateUserInput = z.infer<typeof updateUserBody>;
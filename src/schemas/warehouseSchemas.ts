@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { idSchema, nonNegativeNumber, nullableString } from "./common";
+
+const requiredString = (label: string) => z.string().trim().min(1, `${label} is required`);
+
+export const createWarehouseBody = z.object({
+  code: requiredString("Code"),
+  name: requiredString("Name"),
+  location: requiredString("Location"),
+  address: requiredString("Address"),
+  city: requiredString("City"),
+  country: requiredString("Country"),
+  postalCode: nullableString,
+  latitude: z.coerce.number().min(-90).max(90).nullable().optional(),
+  longitude: z.coerce.number().min(-180).max(180).nullable().optional(),
+  capacity: z.coerce.number().int().positive(),
+  managerId: idSchema.nullable().optional(),
+  carbonPerSqMeter: nonNegativeNumber.nullable().optional(),
+  energySource: nullableString,
+  solarPercentage: z.coerce.number().min(0).max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateWarehouseBody = createWarehouseBody.partial();
+
+export type CreateWarehouseInput = z.infer<typeof createWarehouseBody>;
+export type UpdateWarehouseInput = z.infer<typeof updateWarehouseBody>;
@@ -0,0 +1,156 @@
+import { prisma } from "../lib/db";
+import { NotFoundError } from "../lib/errors";
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export default class AuditLogServices {
+  // MAIN SEARCH METHOD with pagination
+  searchAuditLogsService = async (params: SearchParams): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+
+    const sort = params.sort || { field: "timestamp", order: "desc" };
+
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    if (search) {
+      where.AND.push({
+        OR: [
+          { entityId: { contains: search, mode: "insensitive" } },
+          { userEmail: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.entityType) {
+      where.AND.push({ entityType: String(filters.entityType).toUpperCase() });
+    }
+    if (filters.entityId) {
+      where.AND.push({ entityId: filters.entityId });
+    }
+    if (filters.userId) {
+      where.AND.push({ userId: filters.userId });
+    }
+    if (filters.action) {
+      where.AND.push({ action: String(filters.action).toUpperCase() });
+    }
+    if (filters.startDate) {
+      where.AND.push({ timestamp: { gte: new Date(filters.startDate) } });
+    }
+    if (filters.endDate) {
+      where.AND.push({ timestamp: { lte: new Date(filters.endDate) } });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort && sort.field) {
+      orderBy[sort.field] = sort.order;
+    } else {
+      orderBy.timestamp = "desc";
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
+          },
+        },
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET audit log entry by ID
+  getAuditLogByIdService = async (id: string) => {
+    const auditLog = await prisma.auditLog.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    if (!auditLog) {
+      throw new NotFoundError("Audit log");
+    }
+
+    return auditLog;
+  };
+
+  // GET full history of a single entity, oldest first
+  getEntityHistoryService = async (entityType: string, entityId: string) => {
+    return await prisma.auditLog.findMany({
+      where: {
+        entityType: entityType.toUpperCase(),
+        entityId,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { timestamp: "asc" },
+    });
+  };
+}
@@ -1,4 +1,6 @@
 import { prisma } from "../lib/db";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors";
+import { CreateCategoryInput, UpdateCategoryInput } from "../schemas/categorySchemas";
 
 interface SearchParams {
   search: string;
@@ -187,7 +189,7 @@ export default class CategoryServices {
     });
 
     if (!category) {
-      throw new Error("Category not found");
+      throw new NotFoundError("Category");
     }
 
     return category;
@@ -326,21 +328,16 @@ export default class CategoryServices {
   };
 
   // CREATE category
-  createCategoryService = async (data: any): Promise<any> => {
+  createCategoryService = async (data: CreateCategoryInput): Promise<any> => {
     const { name, description, parentId, isRecyclable = false } = data;
 
-    // Validate required fields
-    if (!name) {
-      throw new Error("Category name is required");
-    }
-
     // Check if category name already exists
     const existingCategory = await prisma.category.findUnique({
       where: { name }
     });
 
     if (existingCategory) {
-      throw new Error(`Category with name "${name}" already exists`);
+      throw new ConflictError(`Category with name "${name}" already exists`);
     }
 
     // If parentId is provided, validate it exists
@@ -350,7 +347,7 @@ export default class CategoryServices {
       });
       
       if (!parent) {
-        throw new Error("Parent category not found");
+        throw new NotFoundError("Parent category");
       }
     }
 
@@ -373,37 +370,37 @@ export default class CategoryServices {
   };
 
   // UPDATE category
-  updateCategoryService = async (id: string, data: any): Promise<any> => {
+  updateCategoryService = async (id: string, data: UpdateCategoryInput): Promise<any> => {
     // Check if category exists
     const existingCategory = await prisma.category.findUnique({
       where: { id }
     });
 
     if (!existingCategory) {
-      throw new Error("Category not found");
+      throw new NotFoundError("Category");
     }
 
     // Prevent circular hierarchy
     if (data.parentId === id) {
-      throw new Error("Category cannot be its own parent");
+      throw new ValidationError("Category cannot be its own parent");
     }
 
     // If parentId is being set, check for circular references
     if (data.parentId) {
-      let currentParentId = data.parentId;
+      let currentParentId: string | null = data.parentId;
       const visited = new Set<string>();
       
       while (currentParentId) {
         if (visited.has(currentParentId)) {
-          throw new Error("Circular reference detected in category hierarchy");
+          throw new ValidationError("Circular reference detected in category hierarchy");
         }
         
         if (currentParentId === id) {
-          throw new Error("Circular reference detected");
+          throw new ValidationError("Circular reference detected");
         }
         
         visited.add(currentParentId);
-        const parent = await prisma.category.findUnique({
+        const parent: { parentId: string | null } | null = await prisma.category.findUnique({
           where: { id: currentParentId },
           select: { parentId: true }
         });
@@ -419,7 +416,7 @@ export default class CategoryServices {
       });
       
       if (duplicateCategory) {
-        throw new Error(`Category with name "${data.name}" already exists`);
+        throw new ConflictError(`Category with name "${data.name}" already exists`);
       }
     }
 
@@ -455,17 +452,17 @@ export default class CategoryServices {
     });
 
     if (!category) {
-      throw new Error("Category not found");
+      throw new NotFoundError("Category");
     }
 
     // Check if category has products
     if (category._count.products > 0) {
-      throw new Error("Cannot delete category with products. Move or delete products first.");
+      throw new ConflictError("Cannot delete category with products. Move or delete products first.");
     }
 
     // Check if category has subcategories
     if (category._count.children > 0) {
-      throw new Error("Cannot delete category with subcategories. Delete or move subcategories first.");
+      throw new ConflictError("Cannot delete category with subcategories. Delete or move subcategories first.");
     }
 
     await prisma.category.delete({
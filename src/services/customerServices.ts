@@ -0,0 +1,432 @@
+import { prisma, TransactionClient } from "../lib/db";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import {
+  CreateCustomerInput,
+  CustomerAddressInput,
+  UpdateCustomerAddressInput,
+  UpdateCustomerInput,
+} from "../schemas/customerSchemas";
+import OrderService from "./orderServices";
+
+const orderService = new OrderService();
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export default class CustomerServices {
+  // MAIN SEARCH METHOD with pagination
+  searchCustomersService = async (params: SearchParams): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+
+    const sort = params.sort || { field: "name", order: "asc" };
+
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    // Search across customer fields and their addresses
+    if (search) {
+      where.AND.push({
+        OR: [
+          { name: { contains: search, mode: "insensitive" } },
+          { companyName: { contains: search, mode: "insensitive" } },
+          { email: { contains: search, mode: "insensitive" } },
+          { phone: { contains: search, mode: "insensitive" } },
+          { addresses: { some: { city: { contains: search, mode: "insensitive" } } } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.isActive !== undefined) {
+      where.AND.push({ isActive: filters.isActive === true || filters.isActive === "true" });
+    }
+    if (filters.prefersEcoPackaging !== undefined) {
+      where.AND.push({
+        prefersEcoPackaging:
+          filters.prefersEcoPackaging === true || filters.prefersEcoPackaging === "true",
+      });
+    }
+    if (filters.prefersLowCarbonShipping !== undefined) {
+      where.AND.push({
+        prefersLowCarbonShipping:
+          filters.prefersLowCarbonShipping === true || filters.prefersLowCarbonShipping === "true",
+      });
+    }
+    if (filters.country) {
+      where.AND.push({ addresses: { some: { country: filters.country } } });
+    }
+    if (filters.customerGroup) {
+      where.AND.push({ customerGroup: filters.customerGroup });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort && sort.field) {
+      if (sort.field === "orderCount") {
+        orderBy.orders = { _count: sort.order };
+      } else {
+        orderBy[sort.field] = sort.order;
+      }
+    } else {
+      orderBy.name = "asc";
+    }
+
+    // Get data and count
+    const [data, total] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        include: {
+          addresses: {
+            where: { isDefault: true },
+          },
+          _count: {
+            select: {
+              orders: true,
+            },
+          },
+        },
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.customer.count({ where }),
+    ]);
+
+    return {
+      data: data.map(({ addresses, ...customer }) => ({
+        ...customer,
+        defaultAddress: addresses[0] ?? null,
+      })),
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET customer by ID (single record)
+  getCustomerByIdService = async (id: string) => {
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      include: {
+        addresses: {
+          orderBy: [{ isDefault: "desc" }, { label: "asc" }],
+        },
+        _count: {
+          select: {
+            orders: true,
+          },
+        },
+      },
+    });
+
+    if (!customer) {
+      throw new NotFoundError("Customer");
+    }
+
+    return customer;
+  };
+
+  // POST search a customer's order history
+  searchCustomerOrdersService = async (id: string, params: SearchParams): Promise<SearchResult> => {
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!customer) {
+      throw new NotFoundError("Customer");
+    }
+
+    return orderService.searchOrdersService({
+      ...params,
+      filters: { ...params.filters, customerId: id },
+    });
+  };
+
+  // GET customer statistics - lifetime value and order history summary
+  getCustomerStatisticsService = async (id: string) => {
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      select: { id: true, name: true },
+    });
+
+    if (!customer) {
+      throw new NotFoundError("Customer");
+    }
+
+    // Cancelled orders never earned anything, as in the order dashboard
+    const counted = { customerId: id, status: { not: "CANCELLED" } };
+
+    const [totals, byStatus, ecoOrders, returnedItems] = await Promise.all([
+      prisma.order.aggregate({
+        where: counted,
+        _count: { id: true },
+        _sum: { totalAmount: true, estimatedCarbonKg: true },
+        _avg: { totalAmount: true },
+        _min: { orderDate: true },
+        _max: { orderDate: true },
+      }),
+      prisma.order.groupBy({
+        by: ["status"],
+        where: { customerId: id },
+        _count: { id: true },
+      }),
+      prisma.order.count({
+        where: { ...counted, packagingType: "ECO_FRIENDLY" },
+      }),
+      prisma.orderItem.findMany({
+        where: { order: counted, returnedQuantity: { gt: 0 } },
+        select: { returnedQuantity: true, unitPrice: true },
+      }),
+    ]);
+
+    const grossValue = totals._sum.totalAmount || 0;
+    const returnedValue = returnedItems.reduce(
+      (sum, item) => sum + item.returnedQuantity * item.unitPrice,
+      0,
+    );
+    const orderCount = totals._count.id;
+
+    return {
+      customer,
+      orderCount,
+      // What the customer has spent, less the goods they sent back
+      lifetimeValue: grossValue - returnedValue,
+      grossValue,
+      returnedValue,
+      averageOrderValue: totals._avg.totalAmount || 0,
+      firstOrderDate: totals._min.orderDate,
+      lastOrderDate: totals._max.orderDate,
+      estimatedCarbonKg: totals._sum.estimatedCarbonKg || 0,
+      ecoPackagingShare: orderCount > 0 ? ecoOrders / orderCount : 0,
+      byStatus: byStatus.map((o) => ({
+        status: o.status,
+        count: o._count.id,
+      })),
+    };
+  };
+
+  // CREATE customer
+  createCustomerService = async (data: CreateCustomerInput) => {
+    if (data.email) {
+      await this.assertEmailAvailable(data.email);
+    }
+
+    const { addresses = [], ...fields } = data;
+
+    // The first address marked as default wins; otherwise the first one is the default
+    const defaultIndex = Math.max(0, addresses.findIndex((address) => address.isDefault));
+
+    return await prisma.customer.create({
+      data: {
+        ...fields,
+        addresses: {
+          create: addresses.map((address, index) => ({
+            ...address,
+            isDefault: index === defaultIndex,
+          })),
+        },
+      },
+      include: {
+        addresses: true,
+      },
+    });
+  };
+
+  // UPDATE customer
+  updateCustomerService = async (id: string, data: UpdateCustomerInput) => {
+    const existing = await prisma.customer.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Customer");
+    }
+
+    // Check for duplicate email (only if email is being changed)
+    if (data.email && data.email !== existing.email) {
+      await this.assertEmailAvailable(data.email);
+    }
+
+    return await prisma.customer.update({
+      where: { id },
+      data,
+      include: {
+        addresses: true,
+      },
+    });
+  };
+
+  // DELETE customer (only without order history)
+  deleteCustomerService = async (id: string): Promise<{ message: string }> => {
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            orders: true,
+          },
+        },
+      },
+    });
+
+    if (!customer) {
+      throw new NotFoundError("Customer");
+    }
+
+    if (customer._count.orders > 0) {
+      throw new ConflictError(
+        "Cannot delete customer with order history. Consider marking as inactive instead.",
+      );
+    }
+
+    await prisma.customer.delete({
+      where: { id },
+    });
+
+    return { message: "Customer deleted successfully" };
+  };
+
+  // =================== CUSTOMER ADDRESSES ===================
+
+  // POST add address to customer
+  addCustomerAddressService = async (customerId: string, data: CustomerAddressInput) => {
+    return await prisma.$transaction(async (tx) => {
+      const customer = await tx.customer.findUnique({
+        where: { id: customerId },
+        include: {
+          _count: {
+            select: { addresses: true },
+          },
+        },
+      });
+
+      if (!customer) {
+        throw new NotFoundError("Customer");
+      }
+
+      // A customer's first address is always the default
+      const isDefault = data.isDefault || customer._count.addresses === 0;
+      if (isDefault) {
+        await this.clearDefaultAddress(tx, customerId);
+      }
+
+      return await tx.customerAddress.create({
+        data: { ...data, customerId, isDefault },
+      });
+    });
+  };
+
+  // PUT update customer address
+  updateCustomerAddressService = async (
+    customerId: string,
+    addressId: string,
+    data: UpdateCustomerAddressInput,
+  ) => {
+    return await prisma.$transaction(async (tx) => {
+      const address = await tx.customerAddress.findFirst({
+        where: { id: addressId, customerId },
+      });
+
+      if (!address) {
+        throw new NotFoundError("Customer address");
+      }
+
+      if (data.isDefault) {
+        await this.clearDefaultAddress(tx, customerId);
+      }
+
+      return await tx.customerAddress.update({
+        where: { id: addressId },
+        data,
+      });
+    });
+  };
+
+  // DELETE customer address (orders keep their own copy of the address)
+  removeCustomerAddressService = async (
+    customerId: string,
+    addressId: string,
+  ): Promise<{ message: string }> => {
+    await prisma.$transaction(async (tx) => {
+      const address = await tx.customerAddress.findFirst({
+        where: { id: addressId, customerId },
+      });
+
+      if (!address) {
+        throw new NotFoundError("Customer address");
+      }
+
+      await tx.customerAddress.delete({
+        where: { id: addressId },
+      });
+
+      // Promote another address so the customer keeps a default
+      if (address.isDefault) {
+        const next = await tx.customerAddress.findFirst({
+          where: { customerId },
+          orderBy: { label: "asc" },
+        });
+
+        if (next) {
+          await tx.customerAddress.update({
+            where: { id: next.id },
+            data: { isDefault: true },
+          });
+        }
+      }
+    });
+
+    return { message: "Customer address removed successfully" };
+  };
+
+  // Helper: e-mail addresses identify customers, so two cannot share one
+  private assertEmailAvailable = async (email: string) => {
+    const existing = await prisma.customer.findUnique({
+      where: { email },
+    });
+
+    if (existing) {
+      throw new ConflictError("A customer with this email already exists");
+    }
+  };
+
+  // Helper: unset the current default before another address takes its place
+  private clearDefaultAddress = async (tx: TransactionClient, customerId: string) => {
+    await tx.customerAddress.updateMany({
+      where: { customerId, isDefault: true },
+      data: { isDefault: false },
+    });
+  };
+}
@@ -0,0 +1,499 @@
+import { prisma } from "../lib/db";
+import { ConflictError, InvalidTransitionError, NotFoundError, ValidationError } from "../lib/errors";
+import { getSetting } from "../lib/settings";
+import { assertWarehouseAccess, canAccessWarehouse, WarehouseScope } from "../lib/warehouseScope";
+import { CreateDeliveryInput, ReceiveDeliveryInput } from "../schemas/deliverySchemas";
+import TransactionService from "./transactionServices";
+
+const transactionService = new TransactionService();
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+const RECEIVABLE_STATUSES = ["IN_TRANSIT", "PARTIALLY_RECEIVED", "DELAYED"];
+
+const deliveryInclude = {
+  purchaseOrder: {
+    select: {
+      id: true,
+      poNumber: true,
+      status: true,
+      supplierId: true,
+      deliveryWarehouseId: true,
+      supplier: {
+        select: {
+          id: true,
+          code: true,
+          name: true,
+        },
+      },
+      deliveryWarehouse: {
+        select: {
+          id: true,
+          code: true,
+          name: true,
+        },
+      },
+    },
+  },
+  receivedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          sku: true,
+          name: true,
+          unit: true,
+        },
+      },
+    },
+  },
+};
+
+export default class DeliveryServices {
+  // Generate delivery number
+  private generateDeliveryNumber = async (): Promise<string> => {
+    const date = new Date();
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const prefix = `${await getSetting("numbering.deliveryPrefix")}-${year}${month}-`;
+    const deliveryCount = await prisma.delivery.count({
+      where: {
+        deliveryNumber: { startsWith: prefix },
+      },
+    });
+
+    return `${prefix}${String(deliveryCount + 1).padStart(5, "0")}`;
+  };
+
+  // MAIN SEARCH METHOD with pagination
+  searchDeliveriesService = async (
+    params: SearchParams,
+    scope?: WarehouseScope,
+  ): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+
+    const sort = params.sort || { field: "shippedDate", order: "desc" };
+
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    if (search) {
+      where.AND.push({
+        OR: [
+          { deliveryNumber: { contains: search, mode: "insensitive" } },
+          { trackingNumber: { contains: search, mode: "insensitive" } },
+          { carrier: { contains: search, mode: "insensitive" } },
+          { purchaseOrder: { poNumber: { contains: search, mode: "insensitive" } } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.status) {
+      where.AND.push({ status: filters.status });
+    }
+    if (filters.purchaseOrderId) {
+      where.AND.push({ purchaseOrderId: filters.purchaseOrderId });
+    }
+    if (filters.supplierId) {
+      where.AND.push({ purchaseOrder: { supplierId: filters.supplierId } });
+    }
+    if (filters.warehouseId) {
+      where.AND.push({ purchaseOrder: { deliveryWarehouseId: filters.warehouseId } });
+    }
+    if (filters.startDate) {
+      where.AND.push({ shippedDate: { gte: new Date(filters.startDate) } });
+    }
+    if (filters.endDate) {
+      where.AND.push({ shippedDate: { lte: new Date(filters.endDate) } });
+    }
+
+    // Restrict to deliveries bound for warehouses in scope
+    if (scope) {
+      where.AND.push({ purchaseOrder: { deliveryWarehouseId: { in: scope } } });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort && sort.field) {
+      if (sort.field.includes(".")) {
+        const [relation, field] = sort.field.split(".");
+        orderBy[relation] = { [field]: sort.order };
+      } else {
+        orderBy[sort.field] = sort.order;
+      }
+    } else {
+      orderBy.shippedDate = "desc";
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.delivery.findMany({
+        where,
+        include: {
+          purchaseOrder: {
+            select: {
+              id: true,
+              poNumber: true,
+              supplier: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+              deliveryWarehouse: {
+                select: {
+                  id: true,
+                  code: true,
+                  name: true,
+                },
+              },
+            },
+          },
+          _count: {
+            select: { items: true },
+          },
+        },
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.delivery.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET delivery by ID (single record)
+  getDeliveryByIdService = async (id: string, scope?: WarehouseScope): Promise<any> => {
+    const delivery = await prisma.delivery.findUnique({
+      where: { id },
+      include: deliveryInclude,
+    });
+
+    if (!delivery || !canAccessWarehouse(scope, delivery.purchaseOrder.deliveryWarehouseId)) {
+      throw new NotFoundError("Delivery");
+    }
+
+    return delivery;
+  };
+
+  // CREATE delivery against an ORDERED purchase order (starts IN_TRANSIT)
+  createDeliveryService = async (
+    data: CreateDeliveryInput,
+    scope?: WarehouseScope,
+  ): Promise<any> => {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: data.purchaseOrderId },
+      include: { items: true },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundError("Purchase order");
+    }
+
+    assertWarehouseAccess(scope, purchaseOrder.deliveryWarehouseId);
+
+    if (purchaseOrder.status !== "ORDERED") {
+      throw new InvalidTransitionError("Deliveries can only be recorded against ordered purchase orders");
+    }
+
+    const requestedItems =
+      data.items && data.items.length > 0
+        ? data.items
+        : purchaseOrder.items
+            .filter((item) => item.pendingQty > 0)
+            .map((item) => ({ productId: item.productId, quantity: item.pendingQty }));
+
+    if (requestedItems.length === 0) {
+      throw new ValidationError("Purchase order has nothing left to deliver");
+    }
+
+    const productIds = requestedItems.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new ValidationError("Each product may only appear once per delivery");
+    }
+
+    for (const item of requestedItems) {
+      const poItem = purchaseOrder.items.find((i) => i.productId === item.productId);
+
+      if (!poItem) {
+        throw new ValidationError(`Product ${item.productId} is not on this purchase order`);
+      }
+      if (item.quantity > poItem.pendingQty) {
+        throw new ValidationError(
+          `Quantity for product ${item.productId} exceeds the ${poItem.pendingQty} units still pending`,
+        );
+      }
+    }
+
+    return await prisma.delivery.create({
+      data: {
+        deliveryNumber: await this.generateDeliveryNumber(),
+        purchaseOrderId: purchaseOrder.id,
+        carrier: data.carrier,
+        trackingNumber: data.trackingNumber,
+        status: "IN_TRANSIT",
+        shippedDate: data.shippedDate ? new Date(data.shippedDate) : new Date(),
+        deliveryCarbonKg: data.deliveryCarbonKg,
+        notes: data.notes,
+        items: {
+          create: requestedItems.map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            receivedQty: 0,
+            condition: "GOOD",
+          })),
+        },
+      },
+      include: deliveryInclude,
+    });
+  };
+
+  // RECEIVE delivery items. GOOD units are stocked in at the PO's delivery warehouse;
+  // DAMAGED/EXPIRED units are split onto their own rows and never reach inventory.
+  receiveDeliveryService = async (
+    id: string,
+    data: ReceiveDeliveryInput,
+    receivedById: string,
+    scope?: WarehouseScope,
+  ): Promise<any> => {
+    return await prisma.$transaction(async (tx) => {
+      // Claim the delivery before reading it: a concurrent receipt of the same delivery
+      // waits here until this one commits, then sees the units it already received
+      const { count } = await tx.delivery.updateMany({
+        where: { id, status: { in: RECEIVABLE_STATUSES } },
+        data: { receivedById },
+      });
+
+      const delivery = await tx.delivery.findUnique({
+        where: { id },
+        include: {
+          items: true,
+          purchaseOrder: {
+            include: { items: true },
+          },
+        },
+      });
+
+      if (!delivery || !canAccessWarehouse(scope, delivery.purchaseOrder.deliveryWarehouseId)) {
+        throw new NotFoundError("Delivery");
+      }
+
+      if (count !== 1) {
+        throw new InvalidTransitionError(`Cannot receive a ${delivery.status.toLowerCase()} delivery`);
+      }
+
+      const purchaseOrder = delivery.purchaseOrder;
+      if (purchaseOrder.status !== "ORDERED") {
+        throw new InvalidTransitionError(
+          `Cannot receive a delivery for a ${purchaseOrder.status.toLowerCase()} purchase order`,
+        );
+      }
+      const stockInItems: { productId: string; quantity: number; unitPrice: number }[] = [];
+
+      for (const item of data.items) {
+        const { condition, receivedQty: quantity } = item;
+
+        // The GOOD row carries the units still expected for the product
+        const goodRow = delivery.items.find(
+          (row) => row.productId === item.productId && row.condition === "GOOD",
+        );
+        if (!goodRow) {
+          throw new ValidationError(`Product ${item.productId} is not on this delivery`);
+        }
+
+        const outstanding = goodRow.quantity - goodRow.receivedQty;
+        if (quantity > outstanding) {
+          throw new ValidationError(
+            `Received quantity for product ${item.productId} exceeds the ${outstanding} units outstanding`,
+          );
+        }
+
+        if (condition === "GOOD") {
+          const poItem = purchaseOrder.items.find((i) => i.productId === item.productId);
+          if (!poItem || quantity > poItem.pendingQty) {
+            throw new ValidationError(
+              `Received quantity for product ${item.productId} exceeds the purchase order pending quantity`,
+            );
+          }
+
+          goodRow.receivedQty += quantity;
+          await tx.deliveryItem.update({
+            where: { id: goodRow.id },
+            data: { receivedQty: goodRow.receivedQty },
+          });
+
+          // Other deliveries for the same purchase order may be received at the same time
+          const received = await tx.purchaseOrderItem.updateMany({
+            where: { id: poItem.id, pendingQty: { gte: quantity } },
+            data: {
+              receivedQty: { increment: quantity },
+              pendingQty: { decrement: quantity },
+            },
+          });
+          if (received.count !== 1) {
+            throw new ConflictError(
+              `Purchase order line for product ${item.productId} was received concurrently, please retry`,
+            );
+          }
+
+          const existing = stockInItems.find((s) => s.productId === item.productId);
+          if (existing) {
+            existing.quantity += quantity;
+          } else {
+            stockInItems.push({
+              productId: item.productId,
+              quantity,
+              unitPrice: poItem.unitPrice,
+            });
+          }
+        } else {
+          // Move the units off the GOOD row onto a row for their condition
+          goodRow.quantity -= quantity;
+          await tx.deliveryItem.update({
+            where: { id: goodRow.id },
+            data: { quantity: goodRow.quantity },
+          });
+
+          const conditionRow = delivery.items.find(
+            (row) => row.productId === item.productId && row.condition === condition,
+          );
+          if (conditionRow) {
+            conditionRow.quantity += quantity;
+            conditionRow.receivedQty += quantity;
+            await tx.deliveryItem.update({
+              where: { id: conditionRow.id },
+              data: {
+                quantity: conditionRow.quantity,
+                receivedQty: conditionRow.receivedQty,
+              },
+            });
+          } else {
+            const created = await tx.deliveryItem.create({
+              data: {
+                deliveryId: delivery.id,
+                productId: item.productId,
+                quantity,
+                receivedQty: quantity,
+                condition,
+              },
+            });
+            delivery.items.push(created);
+          }
+        }
+      }
+
+      if (stockInItems.length > 0) {
+        await transactionService.createTransactionInTx(tx, {
+          type: "STOCK_IN",
+          warehouseId: purchaseOrder.deliveryWarehouseId,
+          performedById: receivedById,
+          referenceId: delivery.id,
+          referenceType: "DELIVERY",
+          notes: `Received ${delivery.deliveryNumber} for ${purchaseOrder.poNumber}`,
+          items: stockInItems,
+        }, scope);
+      }
+
+      const fullyReceived = delivery.items.every((row) => row.receivedQty >= row.quantity);
+
+      const updated = await tx.delivery.update({
+        where: { id },
+        data: {
+          status: fullyReceived ? "COMPLETED" : "PARTIALLY_RECEIVED",
+          receivedById,
+          receivedDate: new Date(),
+          notes: data.notes
+            ? [delivery.notes, data.notes].filter(Boolean).join("\n")
+            : undefined,
+        },
+        include: deliveryInclude,
+      });
+
+      // Close the purchase order once every line has arrived in good condition
+      const pendingLines = await tx.purchaseOrderItem.count({
+        where: { purchaseOrderId: purchaseOrder.id, pendingQty: { gt: 0 } },
+      });
+      if (pendingLines === 0) {
+        await tx.purchaseOrder.updateMany({
+          where: { id: purchaseOrder.id, status: "ORDERED" },
+          data: {
+            status: "DELIVERED",
+            deliveredDate: new Date(),
+          },
+        });
+      }
+
+      return updated;
+    });
+  };
+
+  // Mark an in-transit delivery as delayed
+  markDeliveryDelayedService = async (
+    id: string,
+    reason: string | undefined,
+    scope?: WarehouseScope,
+  ): Promise<any> => {
+    const delivery = await this.getDeliveryByIdService(id, scope);
+
+    if (delivery.status !== "IN_TRANSIT") {
+      throw new InvalidTransitionError("Only in-transit deliveries can be marked as delayed");
+    }
+
+    return await prisma.delivery.update({
+      where: { id },
+      data: {
+        status: "DELAYED",
+        notes: reason
+          ? [delivery.notes, `Delayed: ${reason}`].filter(Boolean).join("\n")
+          : undefined,
+      },
+      include: deliveryInclude,
+    });
+  };
+}
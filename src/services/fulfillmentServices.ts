@@ -0,0 +1,734 @@
+import { prisma, TransactionClient } from "../lib/db";
+import {
+  InvalidTransitionError,
+  NotFoundError,
+  ValidationError,
+} from "../lib/errors";
+import { getSetting } from "../lib/settings";
+import { releaseStock } from "../lib/stockReservation";
+import {
+  assertWarehouseAccess,
+  canAccessWarehouse,
+  WarehouseScope,
+} from "../lib/warehouseScope";
+import {
+  ConfirmPicksInput,
+  DeliverShipmentInput,
+  PackShipmentInput,
+  ShipShipmentInput,
+} from "../schemas/fulfillmentSchemas";
+import TransactionService from "./transactionServices";
+
+const transactionService = new TransactionService();
+
+// Orders released to the warehouse floor
+const PICKABLE_ORDER_STATUSES = ["PROCESSING", "PICKING", "PARTIALLY_SHIPPED"];
+
+// Orders that may still have parcels packed or sent
+const SHIPPABLE_ORDER_STATUSES = ["PICKING", "PACKED", "PARTIALLY_SHIPPED"];
+
+// Statuses the order takes from its lines and shipments rather than from a request
+const DERIVED_ORDER_STATUSES = [...SHIPPABLE_ORDER_STATUSES, "SHIPPED", "DELIVERED"];
+
+const shipmentInclude = {
+  warehouse: {
+    select: { id: true, name: true, code: true },
+  },
+  order: {
+    select: { id: true, orderNumber: true, status: true },
+  },
+  items: {
+    include: {
+      orderItem: {
+        include: {
+          product: {
+            select: { id: true, sku: true, name: true },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+interface DispatchDetails {
+  shippedAt: Date;
+  carrier?: string;
+  trackingNumber?: string;
+}
+
+interface PickListLine {
+  allocationId: string;
+  orderId: string;
+  orderNumber: string;
+  priority: string;
+  requiredDate: Date | null;
+  orderItemId: string;
+  productId: string;
+  sku: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+}
+
+interface PickLocation {
+  aisle: string | null;
+  shelf: string | null;
+  bin: string | null;
+  totalUnits: number;
+  lines: PickListLine[];
+}
+
+// Locations without an aisle/shelf/bin sort after the labelled ones
+const compareLocation = (a: string | null, b: string | null) => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a.localeCompare(b, undefined, { numeric: true });
+};
+
+export default class FulfillmentServices {
+  // Generate shipment number
+  private generateShipmentNumber = async (tx: TransactionClient): Promise<string> => {
+    const date = new Date();
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const prefix = `${await getSetting("numbering.shipmentPrefix")}-${year}${month}-`;
+    const shipmentCount = await tx.shipment.count({
+      where: {
+        shipmentNumber: { startsWith: prefix },
+      },
+    });
+
+    return `${prefix}${String(shipmentCount + 1).padStart(5, "0")}`;
+  };
+
+  // GET pick list - reserved units still to pick in a warehouse, walked aisle by aisle
+  getPickListService = async (warehouseId: string, scope?: WarehouseScope) => {
+    assertWarehouseAccess(scope, warehouseId);
+
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: warehouseId },
+      select: { id: true, name: true, code: true },
+    });
+
+    if (!warehouse) {
+      throw new NotFoundError("Warehouse");
+    }
+
+    const allocations = await prisma.orderAllocation.findMany({
+      where: {
+        warehouseId,
+        orderItem: {
+          order: { status: { in: PICKABLE_ORDER_STATUSES } },
+        },
+      },
+      include: {
+        orderItem: {
+          include: {
+            order: {
+              select: {
+                id: true,
+                orderNumber: true,
+                priority: true,
+                requiredDate: true,
+              },
+            },
+            product: {
+              select: {
+                id: true,
+                sku: true,
+                name: true,
+                unit: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const outstanding = allocations.filter(
+      (allocation) => allocation.quantity > allocation.pickedQuantity,
+    );
+
+    const inventory = await prisma.inventory.findMany({
+      where: {
+        warehouseId,
+        productId: { in: [...new Set(outstanding.map((a) => a.orderItem.productId))] },
+      },
+      select: { productId: true, aisle: true, shelf: true, bin: true },
+    });
+
+    const locations = new Map<string, PickLocation>();
+
+    for (const allocation of outstanding) {
+      const { orderItem } = allocation;
+      const slot = inventory.find((row) => row.productId === orderItem.productId);
+      const aisle = slot?.aisle ?? null;
+      const shelf = slot?.shelf ?? null;
+      const bin = slot?.bin ?? null;
+      const key = [aisle, shelf, bin].join("|");
+
+      if (!locations.has(key)) {
+        locations.set(key, { aisle, shelf, bin, totalUnits: 0, lines: [] });
+      }
+
+      const location = locations.get(key)!;
+      const quantity = allocation.quantity - allocation.pickedQuantity;
+      location.totalUnits += quantity;
+      location.lines.push({
+        allocationId: allocation.id,
+        orderId: orderItem.order.id,
+        orderNumber: orderItem.order.orderNumber,
+        priority: orderItem.order.priority,
+        requiredDate: orderItem.order.requiredDate,
+        orderItemId: orderItem.id,
+        productId: orderItem.product.id,
+        sku: orderItem.product.sku,
+        productName: orderItem.product.name,
+        unit: orderItem.product.unit,
+        quantity,
+      });
+    }
+
+    const sorted = [...locations.values()].sort(
+      (a, b) =>
+        compareLocation(a.aisle, b.aisle) ||
+        compareLocation(a.shelf, b.shelf) ||
+        compareLocation(a.bin, b.bin),
+    );
+
+    return {
+      warehouse,
+      generatedAt: new Date(),
+      totalLines: outstanding.length,
+      totalUnits: sorted.reduce((sum, location) => sum + location.totalUnits, 0),
+      orderCount: new Set(outstanding.map((a) => a.orderItem.orderId)).size,
+      locations: sorted,
+    };
+  };
+
+  // POST confirm picks - record picked units; short-picked units go back on backorder
+  confirmPicksService = async (
+    orderId: string,
+    data: ConfirmPicksInput,
+    pickedById: string,
+    scope?: WarehouseScope,
+  ) => {
+    return await prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: {
+          items: {
+            include: {
+              allocations: true,
+              product: {
+                select: { name: true },
+              },
+            },
+          },
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundError("Order");
+      }
+
+      if (!PICKABLE_ORDER_STATUSES.includes(order.status)) {
+        throw new InvalidTransitionError(`Cannot pick an order that is ${order.status}`, {
+          from: order.status,
+          to: "PICKING",
+        });
+      }
+
+      const pickedItemIds = new Set<string>();
+
+      // Short-picked units per warehouse/product, written off after the picks are recorded
+      const shortages = new Map<string, { warehouseId: string; productId: string; quantity: number }>();
+
+      for (const pick of data.picks) {
+        const item = order.items.find((orderItem) =>
+          orderItem.allocations.some((allocation) => allocation.id === pick.allocationId),
+        );
+        const allocation = item?.allocations.find((a) => a.id === pick.allocationId);
+
+        if (!item || !allocation) {
+          throw new NotFoundError("Order allocation", `Allocation ${pick.allocationId} is not part of this order`);
+        }
+
+        assertWarehouseAccess(scope, allocation.warehouseId);
+
+        const outstanding = allocation.quantity - allocation.pickedQuantity;
+        if (pick.pickedQuantity + pick.shortQuantity > outstanding) {
+          throw new ValidationError(
+            `Only ${outstanding} unit(s) of ${item.product.name} are left to pick from this warehouse`,
+          );
+        }
+
+        // Keep the in-memory rows current so repeated picks of one allocation add up
+        allocation.pickedQuantity += pick.pickedQuantity;
+        allocation.quantity -= pick.shortQuantity;
+        item.pickedQuantity += pick.pickedQuantity;
+        item.reservedQuantity -= pick.shortQuantity;
+        item.backorderedQuantity += pick.shortQuantity;
+        pickedItemIds.add(item.id);
+
+        await tx.orderAllocation.update({
+          where: { id: allocation.id },
+          data: {
+            pickedQuantity: allocation.pickedQuantity,
+            quantity: allocation.quantity,
+          },
+        });
+
+        if (pick.shortQuantity > 0) {
+          const key = `${allocation.warehouseId}|${item.productId}`;
+          const shortage = shortages.get(key) ?? {
+            warehouseId: allocation.warehouseId,
+            productId: item.productId,
+            quantity: 0,
+          };
+          shortage.quantity += pick.shortQuantity;
+          shortages.set(key, shortage);
+        }
+      }
+
+      for (const item of order.items.filter((orderItem) => pickedItemIds.has(orderItem.id))) {
+        const fullyPicked = item.pickedQuantity >= item.quantity;
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: {
+            pickedQuantity: item.pickedQuantity,
+            reservedQuantity: item.reservedQuantity,
+            backorderedQuantity: item.backorderedQuantity,
+            status: fullyPicked ? "PICKED" : item.backorderedQuantity > 0 ? "BACKORDERED" : item.status,
+          },
+        });
+      }
+
+      // Missing units leave the reservation and are adjusted out of the stock on record
+      for (const shortage of shortages.values()) {
+        await releaseStock(tx, shortage.warehouseId, shortage.productId, shortage.quantity, {
+          referenceType: "ORDER",
+          referenceId: order.id,
+        });
+
+        const inventory = await tx.inventory.findUnique({
+          where: {
+            warehouseId_productId: {
+              warehouseId: shortage.warehouseId,
+              productId: shortage.productId,
+            },
+          },
+          select: { quantity: true, version: true },
+        });
+
+        await transactionService.createTransactionInTx(tx, {
+          type: "ADJUSTMENT",
+          warehouseId: shortage.warehouseId,
+          performedById: pickedById,
+          referenceId: order.id,
+          referenceType: "ORDER",
+          notes: `Short pick on order ${order.orderNumber}`,
+          items: [
+            {
+              productId: shortage.productId,
+              quantity: Math.max(0, (inventory?.quantity ?? 0) - shortage.quantity),
+              expectedVersion: inventory?.version,
+            },
+          ],
+        });
+      }
+
+      if (order.status === "PROCESSING") {
+        await tx.order.update({
+          where: { id: order.id },
+          data: { status: "PICKING", fulfilledById: pickedById },
+        });
+      }
+
+      return await tx.order.findUnique({
+        where: { id: order.id },
+        include: {
+          items: {
+            include: {
+              allocations: true,
+            },
+          },
+        },
+      });
+    });
+  };
+
+  // POST pack shipment - put picked units from one warehouse into a parcel
+  packShipmentService = async (
+    orderId: string,
+    data: PackShipmentInput,
+    scope?: WarehouseScope,
+  ) => {
+    assertWarehouseAccess(scope, data.warehouseId);
+
+    return await prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: {
+          items: {
+            include: {
+              allocations: {
+                where: { warehouseId: data.warehouseId },
+              },
+              product: {
+                select: { name: true },
+              },
+            },
+          },
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundError("Order");
+      }
+
+      if (!["PICKING", "PARTIALLY_SHIPPED"].includes(order.status)) {
+        throw new InvalidTransitionError(`Cannot pack an order that is ${order.status}`, {
+          from: order.status,
+          to: "PACKED",
+        });
+      }
+
+      const quantities = new Map<string, number>();
+      for (const line of data.lines) {
+        quantities.set(line.orderItemId, (quantities.get(line.orderItemId) ?? 0) + line.quantity);
+      }
+
+      for (const [orderItemId, quantity] of quantities) {
+        const item = order.items.find((orderItem) => orderItem.id === orderItemId);
+        if (!item) {
+          throw new NotFoundError("Order item", `Order item ${orderItemId} is not part of this order`);
+        }
+
+        const allocation = item.allocations[0];
+        const packable = allocation ? allocation.pickedQuantity - allocation.packedQuantity : 0;
+        if (!allocation || quantity > packable) {
+          throw new ValidationError(
+            `Only ${packable} picked unit(s) of ${item.product.name} are waiting to be packed in this warehouse`,
+          );
+        }
+
+        item.packedQuantity += quantity;
+
+        await tx.orderAllocation.update({
+          where: { id: allocation.id },
+          data: { packedQuantity: { increment: quantity } },
+        });
+
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: { packedQuantity: item.packedQuantity },
+        });
+      }
+
+      const shipment = await tx.shipment.create({
+        data: {
+          shipmentNumber: await this.generateShipmentNumber(tx),
+          orderId: order.id,
+          warehouseId: data.warehouseId,
+          status: "PACKED",
+          packedById: data.packedById,
+          carrier: data.carrier,
+          trackingNumber: data.trackingNumber,
+          notes: data.notes,
+          items: {
+            create: [...quantities].map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+          },
+        },
+        include: shipmentInclude,
+      });
+
+      await this.syncOrderStatusInTx(tx, order.id);
+
+      return shipment;
+    });
+  };
+
+  // GET shipment by ID
+  getShipmentByIdService = async (id: string, scope?: WarehouseScope) => {
+    const shipment = await prisma.shipment.findUnique({
+      where: { id },
+      include: {
+        ...shipmentInclude,
+        packedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        transaction: {
+          select: { id: true, transactionNumber: true },
+        },
+      },
+    });
+
+    // Shipments outside the caller's warehouses are treated as missing
+    if (!shipment || !canAccessWarehouse(scope, shipment.warehouseId)) {
+      throw new NotFoundError("Shipment");
+    }
+
+    return shipment;
+  };
+
+  // POST ship one parcel - posts its STOCK_OUT; the order becomes PARTIALLY_SHIPPED or SHIPPED
+  shipShipmentService = async (
+    id: string,
+    data: ShipShipmentInput,
+    scope?: WarehouseScope,
+  ) => {
+    return await prisma.$transaction(async (tx) => {
+      const shipment = await tx.shipment.findUnique({
+        where: { id },
+        include: {
+          items: true,
+          order: {
+            select: { id: true, orderNumber: true, status: true },
+          },
+        },
+      });
+
+      if (!shipment) {
+        throw new NotFoundError("Shipment");
+      }
+
+      assertWarehouseAccess(scope, shipment.warehouseId);
+
+      if (shipment.status !== "PACKED") {
+        throw new InvalidTransitionError(`Cannot ship a shipment that is ${shipment.status}`, {
+          from: shipment.status,
+          to: "SHIPPED",
+        });
+      }
+
+      if (!SHIPPABLE_ORDER_STATUSES.includes(shipment.order.status)) {
+        throw new InvalidTransitionError(
+          `Cannot ship parcels of an order that is ${shipment.order.status}`,
+          { from: shipment.order.status, to: "SHIPPED" },
+        );
+      }
+
+      await this.dispatchShipmentInTx(tx, shipment, shipment.order, data.shippedById, {
+        shippedAt: data.shippedAt ?? new Date(),
+        carrier: data.carrier,
+        trackingNumber: data.trackingNumber,
+      });
+      await this.syncOrderStatusInTx(tx, shipment.orderId);
+
+      return await tx.shipment.findUnique({ where: { id }, include: shipmentInclude });
+    });
+  };
+
+  // POST deliver one parcel - the order is DELIVERED once every parcel is
+  deliverShipmentService = async (
+    id: string,
+    data: DeliverShipmentInput,
+    scope?: WarehouseScope,
+  ) => {
+    return await prisma.$transaction(async (tx) => {
+      const shipment = await tx.shipment.findUnique({ where: { id } });
+
+      if (!shipment) {
+        throw new NotFoundError("Shipment");
+      }
+
+      assertWarehouseAccess(scope, shipment.warehouseId);
+
+      if (shipment.status !== "SHIPPED") {
+        throw new InvalidTransitionError(`Cannot deliver a shipment that is ${shipment.status}`, {
+          from: shipment.status,
+          to: "DELIVERED",
+        });
+      }
+
+      await tx.shipment.update({
+        where: { id },
+        data: { status: "DELIVERED", deliveredAt: data.deliveredAt ?? new Date() },
+      });
+      await this.syncOrderStatusInTx(tx, shipment.orderId);
+
+      return await tx.shipment.findUnique({ where: { id }, include: shipmentInclude });
+    });
+  };
+
+  // Ship every packed parcel of an order at once (order moved to SHIPPED by hand).
+  // Runs inside the caller's transaction; returns when the last parcel left.
+  shipOrderInTx = async (tx: TransactionClient, orderId: string, performedById: string) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: true,
+        shipments: {
+          where: { status: "PACKED" },
+          include: { items: true },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundError("Order");
+    }
+
+    if (order.items.some((item) => item.packedQuantity < item.quantity)) {
+      throw new InvalidTransitionError("Every order line must be packed before the order ships", {
+        from: order.status,
+        to: "SHIPPED",
+      });
+    }
+
+    const shippedAt = new Date();
+    for (const shipment of order.shipments) {
+      await this.dispatchShipmentInTx(tx, shipment, order, performedById, { shippedAt });
+    }
+    await this.syncOrderStatusInTx(tx, orderId);
+
+    return shippedAt;
+  };
+
+  // Mark every parcel still in transit as delivered (order moved to DELIVERED by hand)
+  deliverOrderInTx = async (tx: TransactionClient, orderId: string, deliveredAt: Date) => {
+    await tx.shipment.updateMany({
+      where: { orderId, status: "SHIPPED" },
+      data: { status: "DELIVERED", deliveredAt },
+    });
+  };
+
+  // Helper: post the STOCK_OUT for a packed parcel and consume the reservation behind it
+  private dispatchShipmentInTx = async (
+    tx: TransactionClient,
+    shipment: { id: string; shipmentNumber: string; warehouseId: string; items: { orderItemId: string; quantity: number }[] },
+    order: { id: string; orderNumber: string },
+    performedById: string,
+    details: DispatchDetails,
+  ) => {
+    const orderItems = await tx.orderItem.findMany({
+      where: { id: { in: shipment.items.map((item) => item.orderItemId) } },
+      select: { id: true, productId: true },
+    });
+
+    const transaction = await transactionService.createTransactionInTx(tx, {
+      type: "STOCK_OUT",
+      warehouseId: shipment.warehouseId,
+      performedById,
+      referenceId: order.id,
+      referenceType: "ORDER",
+      notes: `Shipment ${shipment.shipmentNumber} for order ${order.orderNumber}`,
+      fromReserved: true,
+      items: shipment.items.map((shipmentItem) => ({
+        productId: orderItems.find((item) => item.id === shipmentItem.orderItemId)!.productId,
+        quantity: shipmentItem.quantity,
+      })),
+    });
+
+    for (const shipmentItem of shipment.items) {
+      await tx.orderItem.update({
+        where: { id: shipmentItem.orderItemId },
+        data: {
+          shippedQuantity: { increment: shipmentItem.quantity },
+          reservedQuantity: { decrement: shipmentItem.quantity },
+        },
+      });
+
+      // The reservation is used up; drop the allocation once nothing is held there
+      const allocation = await tx.orderAllocation.update({
+        where: {
+          orderItemId_warehouseId: {
+            orderItemId: shipmentItem.orderItemId,
+            warehouseId: shipment.warehouseId,
+          },
+        },
+        data: {
+          quantity: { decrement: shipmentItem.quantity },
+          pickedQuantity: { decrement: shipmentItem.quantity },
+          packedQuantity: { decrement: shipmentItem.quantity },
+        },
+      });
+
+      if (allocation.quantity <= 0) {
+        await tx.orderAllocation.delete({ where: { id: allocation.id } });
+      }
+    }
+
+    await tx.shipment.update({
+      where: { id: shipment.id },
+      data: {
+        status: "SHIPPED",
+        shippedAt: details.shippedAt,
+        carrier: details.carrier,
+        trackingNumber: details.trackingNumber,
+        transactionId: transaction.id,
+      },
+    });
+  };
+
+  // Helper: derive line statuses and the order status from packed/shipped/delivered quantities
+  syncOrderStatusInTx = async (tx: TransactionClient, orderId: string) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: true,
+        shipments: {
+          where: { status: { not: "CANCELLED" } },
+          select: { status: true, shippedAt: true, deliveredAt: true },
+        },
+      },
+    });
+
+    if (!order || !DERIVED_ORDER_STATUSES.includes(order.status)) {
+      return;
+    }
+
+    for (const item of order.items) {
+      const status =
+        item.shippedQuantity >= item.quantity
+          ? "SHIPPED"
+          : item.packedQuantity >= item.quantity
+            ? "PACKED"
+            : item.pickedQuantity >= item.quantity
+              ? "PICKED"
+              : item.status;
+
+      if (status !== item.status) {
+        await tx.orderItem.update({ where: { id: item.id }, data: { status } });
+      }
+    }
+
+    const total = order.items.reduce((sum, item) => sum + item.quantity, 0);
+    const shipped = order.items.reduce((sum, item) => sum + item.shippedQuantity, 0);
+    const packed = order.items.reduce((sum, item) => sum + item.packedQuantity, 0);
+    const latest = (dates: (Date | null)[]) =>
+      new Date(Math.max(...dates.map((date) => date?.getTime() ?? 0)));
+
+    let status = order.status;
+    let shippedDate = order.shippedDate;
+    let deliveredDate = order.deliveredDate;
+
+    if (total > 0 && shipped >= total) {
+      status = "SHIPPED";
+      shippedDate = latest(order.shipments.map((shipment) => shipment.shippedAt));
+
+      if (order.shipments.every((shipment) => shipment.status === "DELIVERED")) {
+        status = "DELIVERED";
+        deliveredDate = latest(order.shipments.map((shipment) => shipment.deliveredAt));
+      }
+    } else if (shipped > 0) {
+      status = "PARTIALLY_SHIPPED";
+    } else if (total > 0 && packed >= total) {
+      status = "PACKED";
+    }
+
+    if (
+      status !== order.status ||
+      shippedDate?.getTime() !== order.shippedDate?.getTime() ||
+      deliveredDate?.getTime() !== order.deliveredDate?.getTime()
+    ) {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { status, shippedDate, deliveredDate },
+      });
+    }
+  };
+}
@@ -1,4 +1,17 @@
 import { prisma } from "../lib/db";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors";
+import { recordStockMovement } from "../lib/inventoryLedger";
+import {
+  WarehouseScope,
+  assertWarehouseAccess,
+  canAccessWarehouse,
+  scopedWarehouseFilter,
+} from "../lib/warehouseScope";
+import {
+  BulkInventoryUpdate,
+  InventoryQuantityUpdate,
+  UpsertInventoryInput,
+} from "../schemas/inventorySchemas";
 
 interface SearchParams {
   search: string;
@@ -22,7 +35,10 @@ interface SearchResult {
 
 export default class InventoryServices {
   // MAIN SEARCH METHOD with pagination
-  searchInventoryService = async (params: SearchParams): Promise<SearchResult> => {
+  searchInventoryService = async (
+    params: SearchParams,
+    scope?: WarehouseScope
+  ): Promise<SearchResult> => {
     const { search, currentPage, limit, filters } = params;
     
     // FIX: Provide default sort if not provided
@@ -59,9 +75,10 @@ export default class InventoryServices {
       ];
     }
 
-    // Apply filters
-    if (filters.warehouseId) {
-      where.warehouseId = filters.warehouseId;
+    // Apply filters (warehouse filter is narrowed to the caller's scope)
+    const warehouseFilter = scopedWarehouseFilter(scope, filters.warehouseId);
+    if (warehouseFilter) {
+      where.warehouseId = warehouseFilter;
     }
     if (filters.productId) {
       where.productId = filters.productId;
@@ -176,40 +193,43 @@ export default class InventoryServices {
 
   // Search low stock inventory
   searchLowStockInventoryService = async (
-    params: SearchParams & { threshold?: number }
+    params: SearchParams & { threshold?: number },
+    scope?: WarehouseScope
   ): Promise<SearchResult> => {
     // Use the main search method with lowStockOnly filter
     return this.searchInventoryService({
       ...params,
       filters: { ...params.filters, lowStockOnly: true },
-    });
+    }, scope);
   };
 
   // Search inventory by warehouse
   searchInventoryByWarehouseService = async (
     warehouseId: string,
-    params: SearchParams
+    params: SearchParams,
+    scope?: WarehouseScope
   ): Promise<SearchResult> => {
     return this.searchInventoryService({
       ...params,
       filters: { ...params.filters, warehouseId },
-    });
+    }, scope);
   };
 
   // Search inventory by product
   searchInventoryByProductService = async (
     productId: string,
-    params: SearchParams
+    params: SearchParams,
+    scope?: WarehouseScope
   ): Promise<SearchResult> => {
     return this.searchInventoryService({
       ...params,
       filters: { ...params.filters, productId },
-    });
+    }, scope);
   };
 
   // GET inventory by ID (single record)
-  getInventoryByIdService = async (id: string) => {
-    return await prisma.inventory.findUnique({
+  getInventoryByIdService = async (id: string, scope?: WarehouseScope) => {
+    const inventory = await prisma.inventory.findUnique({
       where: { id },
       include: {
         warehouse: true,
@@ -231,145 +251,204 @@ export default class InventoryServices {
         },
       },
     });
+
+    // Records outside the caller's warehouses are treated as missing
+    if (!inventory || !canAccessWarehouse(scope, inventory.warehouseId)) {
+      throw new NotFoundError("Inventory record");
+    }
+
+    return inventory;
   };
 
-  // UPSERT inventory (create or update)
-  upsertInventoryService = async (data: any) => {
+  // UPSERT inventory (create or update); the quantity is booked as an adjustment
+  upsertInventoryService = async (
+    data: UpsertInventoryInput,
+    performedById: string,
+    scope?: WarehouseScope
+  ) => {
     const { warehouseId, productId, quantity = 0, aisle, shelf, bin } = data;
 
-    if (!warehouseId || !productId) {
-      throw new Error("Warehouse ID and Product ID are required");
-    }
+    assertWarehouseAccess(scope, warehouseId);
 
     const [warehouse, product] = await Promise.all([
       prisma.warehouse.findUnique({ where: { id: warehouseId } }),
       prisma.product.findUnique({ where: { id: productId } }),
     ]);
 
-    if (!warehouse) throw new Error("Warehouse not found");
-    if (!product) throw new Error("Product not found");
+    if (!warehouse) throw new NotFoundError("Warehouse");
+    if (!product) throw new NotFoundError("Product");
 
-    const available = Math.max(0, quantity - (data.reserved || 0));
-
-    return await prisma.inventory.upsert({
-      where: {
-        warehouseId_productId: {
-          warehouseId,
-          productId,
-        },
-      },
-      update: {
-        quantity,
-        available,
-        aisle,
-        shelf,
-        bin,
-        lastUpdated: new Date(),
-        reorderStatus: this.calculateReorderStatus(quantity, product.minStockLevel, product.reorderPoint),
-      },
-      create: {
+    return await prisma.$transaction(async (tx) => {
+      const { inventory } = await recordStockMovement(tx, {
         warehouseId,
         productId,
-        quantity,
-        available,
-        aisle,
-        shelf,
-        bin,
-        reorderStatus: this.calculateReorderStatus(quantity, product.minStockLevel, product.reorderPoint),
-      },
-      include: {
-        warehouse: true,
-        product: true,
-      },
+        type: "ADJUSTMENT",
+        setQuantity: quantity,
+        referenceType: "INVENTORY",
+        performedById,
+      });
+
+      return await tx.inventory.update({
+        where: { id: inventory.id },
+        data: { aisle, shelf, bin },
+        include: {
+          warehouse: true,
+          product: true,
+        },
+      });
     });
   };
 
   // Update inventory quantity with action
   updateInventoryQuantityService = async (
     id: string,
-    quantity: number,
-    action: string = "SET",
-    notes?: string
+    data: InventoryQuantityUpdate,
+    performedById: string,
+    scope?: WarehouseScope
   ) => {
+    const { quantity, action = "SET", notes, version } = data;
+
     const inventory = await prisma.inventory.findUnique({
       where: { id },
-      include: { product: true },
     });
 
     if (!inventory) {
-      throw new Error("Inventory record not found");
+      throw new NotFoundError("Inventory record");
     }
 
-    let newQuantity = inventory.quantity;
+    assertWarehouseAccess(scope, inventory.warehouseId);
+
+    let change: { setQuantity?: number; quantityDelta?: number };
     switch (action) {
       case "SET":
-        newQuantity = quantity;
+        change = { setQuantity: quantity };
         break;
       case "ADD":
-        newQuantity = inventory.quantity + quantity;
+        change = { quantityDelta: quantity };
         break;
       case "SUBTRACT":
-        newQuantity = Math.max(0, inventory.quantity - quantity);
+        // Taking more than is available fails rather than clamping at zero
+        change = { quantityDelta: -quantity };
         break;
       default:
-        throw new Error("Invalid action. Use 'SET', 'ADD', or 'SUBTRACT'");
+        throw new ValidationError("Invalid action. Use 'SET', 'ADD', or 'SUBTRACT'");
     }
 
-    return await prisma.inventory.update({
+    return await prisma.$transaction(async (tx) => {
+      await recordStockMovement(tx, {
+        warehouseId: inventory.warehouseId,
+        productId: inventory.productId,
+        type: "ADJUSTMENT",
+        ...change,
+        expectedVersion: version,
+        referenceType: "INVENTORY",
+        referenceId: id,
+        performedById,
+        notes,
+      });
+
+      return await tx.inventory.findUnique({
+        where: { id },
+        include: {
+          warehouse: true,
+          product: true,
+        },
+      });
+    });
+  };
+
+  // POST search the stock movements of an inventory record, newest first
+  searchInventoryMovementsService = async (
+    id: string,
+    params: SearchParams,
+    scope?: WarehouseScope
+  ): Promise<SearchResult> => {
+    const { currentPage, limit, filters } = params;
+
+    const inventory = await prisma.inventory.findUnique({
       where: { id },
-      data: {
-        quantity: newQuantity,
-        available: Math.max(0, newQuantity - inventory.reserved),
-        lastUpdated: new Date(),
-        reorderStatus: this.calculateReorderStatus(
-          newQuantity,
-          inventory.product.minStockLevel,
-          inventory.product.reorderPoint
-        ),
-      },
-      include: {
-        warehouse: true,
-        product: true,
-      },
+      select: { warehouseId: true, productId: true },
     });
+
+    if (!inventory || !canAccessWarehouse(scope, inventory.warehouseId)) {
+      throw new NotFoundError("Inventory record");
+    }
+
+    const where: any = {
+      warehouseId: inventory.warehouseId,
+      productId: inventory.productId,
+    };
+    if (filters.type) where.type = filters.type;
+    if (filters.referenceType) where.referenceType = filters.referenceType;
+    if (filters.referenceId) where.referenceId = filters.referenceId;
+
+    const [data, total] = await Promise.all([
+      prisma.inventoryMovement.findMany({
+        where,
+        include: {
+          performedBy: {
+            select: { id: true, firstName: true, lastName: true, email: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (currentPage - 1) * limit,
+        take: limit,
+      }),
+      prisma.inventoryMovement.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
   };
 
   // DELETE inventory record
-  deleteInventoryService = async (id: string) => {
+  deleteInventoryService = async (id: string, scope?: WarehouseScope) => {
     const inventory = await prisma.inventory.findUnique({
       where: { id },
     });
 
     if (!inventory) {
-      throw new Error("Inventory record not found");
+      throw new NotFoundError("Inventory record");
     }
 
+    assertWarehouseAccess(scope, inventory.warehouseId);
+
     if (inventory.quantity > 0) {
-      throw new Error("Cannot delete inventory with stock. Set quantity to zero first.");
+      throw new ConflictError("Cannot delete inventory with stock. Set quantity to zero first.");
     }
 
-    return await prisma.inventory.delete({
-      where: { id },
+    // Only delete the row as it was checked; stock booked since keeps it
+    const { count } = await prisma.inventory.deleteMany({
+      where: { id, version: inventory.version, quantity: 0 },
     });
+
+    if (count === 0) {
+      throw new ConflictError("Inventory changed while deleting. Please try again.");
+    }
+
+    return inventory;
   };
 
   // Bulk update inventory
-  bulkUpdateInventoryService = async (updates: Array<{
-    id: string;
-    quantity: number;
-    action: string;
-    notes?: string;
-  }>) => {
+  bulkUpdateInventoryService = async (
+    updates: BulkInventoryUpdate[],
+    performedById: string,
+    scope?: WarehouseScope
+  ) => {
     const results = [];
     
-    for (const update of updates) {
+    for (const { id, ...update } of updates) {
       try {
-        const result = await this.updateInventoryQuantityService(
-          update.id,
-          update.quantity,
-          update.action,
-          update.notes
-        );
+        const result = await this.updateInventoryQuantityService(id, update, performedById, scope);
         results.push({ success: true, data: result });
       } catch (error: any) {
         results.push({ success: false, error: error.message });
@@ -380,20 +459,25 @@ export default class InventoryServices {
   };
 
   // GET inventory summary (dashboard)
-  getInventorySummaryService = async () => {
+  getInventorySummaryService = async (scope?: WarehouseScope) => {
+    const warehouseFilter = scopedWarehouseFilter(scope);
+    const where: any = warehouseFilter ? { warehouseId: warehouseFilter } : {};
+
     const [
       totalItems,
       totalQuantity,
       outOfStockCount,
       warehousesWithStock,
     ] = await Promise.all([
-      prisma.inventory.count(),
+      prisma.inventory.count({ where }),
       prisma.inventory.aggregate({
+        where,
         _sum: { quantity: true },
       }),
-      prisma.inventory.count({ where: { quantity: 0 } }),
+      prisma.inventory.count({ where: { ...where, quantity: 0 } }),
       prisma.warehouse.count({
         where: {
+          ...(warehouseFilter ? { id: warehouseFilter } : {}),
           inventory: {
             some: { quantity: { gt: 0 } },
           },
@@ -402,8 +486,8 @@ export default class InventoryServices {
     ]);
 
     const [totalValue, lowStockCount] = await Promise.all([
-      this.calculateTotalInventoryValue(),
-      this.getLowStockCount(),
+      this.calculateTotalInventoryValue(where),
+      this.getLowStockCount(where),
     ]);
 
     return {
@@ -418,10 +502,14 @@ export default class InventoryServices {
   };
 
   // POST inventory value report with filters
-  getInventoryValueReportService = async (filters: Record<string, any>) => {
+  getInventoryValueReportService = async (
+    filters: Record<string, any>,
+    scope?: WarehouseScope
+  ) => {
     const where: any = {};
     
-    if (filters.warehouseId) where.warehouseId = filters.warehouseId;
+    const warehouseFilter = scopedWarehouseFilter(scope, filters.warehouseId);
+    if (warehouseFilter) where.warehouseId = warehouseFilter;
     if (filters.categoryId) where.product = { categoryId: filters.categoryId };
     
     // Handle low stock filter differently
@@ -498,20 +586,10 @@ export default class InventoryServices {
     };
   };
 
-  // Helper: Calculate reorder status
-  private calculateReorderStatus = (
-    quantity: number,
-    minStockLevel: number,
-    reorderPoint: number
-  ): string => {
-    if (quantity <= minStockLevel) return "BELOW_MIN";
-    if (quantity <= reorderPoint) return "BELOW_REORDER";
-    return "OK";
-  };
-
   // Helper: Calculate total inventory value
-  private calculateTotalInventoryValue = async (): Promise<number> => {
+  private calculateTotalInventoryValue = async (where: any = {}): Promise<number> => {
     const inventory = await prisma.inventory.findMany({
+      where,
       include: { product: true },
     });
 
@@ -521,7 +599,7 @@ export default class InventoryServices {
   };
 
   // Helper: Get low stock count
-  private getLowStockCount = async (): Promise<number> => {
+  private getLowStockCount = async (where: any = {}): Promise<number> => {
     const products = await prisma.product.findMany({
       where: { isActive: true },
       select: { id: true, minStockLevel: true }
@@ -529,6 +607,7 @@ export default class InventoryServices {
     
     const allInventory = await prisma.inventory.findMany({
       where: {
+        ...where,
         productId: { in: products.map(p => p.id) }
       },
       include: {
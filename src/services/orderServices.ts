@@ -1,4 +1,36 @@
-import { prisma } from "../lib/db";
+import { prisma, TransactionClient } from "../lib/db";
+import {
+  ConflictError,
+  InsufficientStockError,
+  InvalidTransitionError,
+  NotFoundError,
+  ValidationError,
+} from "../lib/errors";
+import {
+  AllocationStrategy,
+  FulfillmentLine,
+  FulfillmentPlan,
+  isAllocationStrategy,
+  planFulfillment,
+} from "../lib/fulfillment";
+import { Coordinates, coordinatesOf } from "../lib/geo";
+import { getSetting } from "../lib/settings";
+import { releaseStock, reserveStock } from "../lib/stockReservation";
+import { unitWeightKg } from "../lib/weight";
+import {
+  CreateOrderInput,
+  OrderAvailabilityInput,
+  OrderLineEditInput,
+  UpdateOrderInput,
+} from "../schemas/orderSchemas";
+import FulfillmentServices from "./fulfillmentServices";
+import PricingServices from "./pricingServices";
+
+const fulfillmentService = new FulfillmentServices();
+const pricingService = new PricingServices();
+
+// Orders whose lines can still be changed; picking locks them
+const EDITABLE_ORDER_STATUSES = ["NEW", "PROCESSING"];
 
 interface SearchParams {
   search: string;
@@ -8,6 +40,20 @@ interface SearchParams {
   sort: { field: string; order: "asc" | "desc" };
 }
 
+interface PlanRequest {
+  fulfillmentWarehouseId?: string | null;
+  allocationStrategy?: AllocationStrategy | null;
+  allowSplit: boolean;
+  destination: Coordinates | null;
+}
+
+// Where an edited order ships to, and any tax or shipping agreed by hand
+interface OrderCharges {
+  shippingCountry?: string | null;
+  tax?: number;
+  shippingCost?: number;
+}
+
 interface SearchResult {
   data: any[];
   pagination: {
@@ -20,12 +66,25 @@ interface SearchResult {
   };
 }
 
+// Single-line copy of a customer address as stored on the order
+const formatAddress = (address: {
+  line1: string;
+  line2: string | null;
+  postalCode: string | null;
+  city: string | null;
+  country: string | null;
+}) => {
+  const locality = [address.postalCode, address.city].filter(Boolean).join(" ");
+  return [address.line1, address.line2, locality, address.country].filter(Boolean).join(", ");
+};
+
 export default class OrderService {
   // Generate order number
-  private generateOrderNumber(): string {
+  private async generateOrderNumber(): Promise<string> {
+    const prefix = await getSetting("numbering.orderPrefix");
     const timestamp = Date.now().toString().slice(-8);
     const random = Math.floor(Math.random() * 10000).toString().padStart(4, "0");
-    return `ORD-${timestamp}-${random}`;
+    return `${prefix}-${timestamp}-${random}`;
   }
 
   // MAIN SEARCH METHOD with pagination
@@ -69,6 +128,9 @@ export default class OrderService {
     if (filters.createdById) {
       where.AND.push({ createdById: filters.createdById });
     }
+    if (filters.customerId) {
+      where.AND.push({ customerId: filters.customerId });
+    }
     if (filters.customerName) {
       where.AND.push({
         customerName: { contains: filters.customerName, mode: "insensitive" },
@@ -240,7 +302,7 @@ export default class OrderService {
     });
   };
 
-  // Search orders to fulfill (NEW, PROCESSING, PICKING)
+  // Search orders to fulfill (NEW, PROCESSING, PICKING, PARTIALLY_SHIPPED)
   searchOrdersToFulfillService = async (
     params: SearchParams,
   ): Promise<SearchResult> => {
@@ -248,7 +310,7 @@ export default class OrderService {
       ...params,
       filters: {
         ...params.filters,
-        status: { in: ["NEW", "PROCESSING", "PICKING"] },
+        status: { in: ["NEW", "PROCESSING", "PICKING", "PARTIALLY_SHIPPED"] },
       },
       sort: params.sort || { field: "orderDate", order: "asc" }, // Oldest first
     });
@@ -286,6 +348,17 @@ export default class OrderService {
         },
         items: {
           include: {
+            allocations: {
+              include: {
+                warehouse: {
+                  select: {
+                    id: true,
+                    name: true,
+                    code: true,
+                  },
+                },
+              },
+            },
             product: {
               include: {
                 category: {
@@ -309,6 +382,28 @@ export default class OrderService {
             },
           },
         },
+        shipments: {
+          include: {
+            warehouse: {
+              select: {
+                id: true,
+                name: true,
+                code: true,
+              },
+            },
+            items: true,
+          },
+          orderBy: { packedAt: "asc" },
+        },
+        returns: {
+          select: {
+            id: true,
+            rmaNumber: true,
+            status: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
         _count: {
           select: {
             items: true,
@@ -318,7 +413,7 @@ export default class OrderService {
     });
 
     if (!order) {
-      throw new Error("Order not found");
+      throw new NotFoundError("Order");
     }
 
     // Calculate fulfillment progress
@@ -331,7 +426,8 @@ export default class OrderService {
           (sum, inv) => sum + inv.available,
           0,
         );
-        const canFulfill = totalAvailable >= item.quantity;
+        // Stock already reserved for the line counts towards fulfilling it
+        const canFulfill = item.reservedQuantity + totalAvailable >= item.quantity;
         
         return {
           ...item,
@@ -352,15 +448,9 @@ export default class OrderService {
   };
 
   // CREATE order
-  createOrderService = async (data: any) => {
+  createOrderService = async (input: CreateOrderInput) => {
     return await prisma.$transaction(async (tx) => {
-      // Validate required fields
-      const required = ["customerName", "createdById"];
-      for (const field of required) {
-        if (!data[field]) {
-          throw new Error(`Missing required field: ${field}`);
-        }
-      }
+      const data = await this.applyCustomerDefaults(tx, input);
 
       // Validate user exists
       const user = await tx.user.findUnique({
@@ -368,7 +458,7 @@ export default class OrderService {
       });
 
       if (!user) {
-        throw new Error("User not found");
+        throw new NotFoundError("User");
       }
 
       // Validate warehouse if specified
@@ -378,7 +468,7 @@ export default class OrderService {
         });
 
         if (!warehouse) {
-          throw new Error("Warehouse not found");
+          throw new NotFoundError("Warehouse");
         }
       }
 
@@ -391,42 +481,96 @@ export default class OrderService {
       if (products.length !== productIds.length) {
         const foundIds = products.map((p) => p.id);
         const missingIds = productIds.filter((id: string) => !foundIds.includes(id));
-        throw new Error(`Products not found or inactive: ${missingIds.join(", ")}`);
+        throw new NotFoundError("Product", `Products not found or inactive: ${missingIds.join(", ")}`);
+      }
+
+      // Work out where each line is reserved before anything is written
+      const plan = await this.planOrderFulfillment(
+        tx,
+        data.items.map((item, index) => ({
+          key: String(index),
+          productId: item.productId,
+          quantity: item.quantity,
+          unitWeightKg: unitWeightKg(products.find((p) => p.id === item.productId)),
+        })),
+        {
+          fulfillmentWarehouseId: data.fulfillmentWarehouseId,
+          allocationStrategy: data.allocationStrategy,
+          allowSplit: data.allowSplit ?? false,
+          destination: data.shippingLocation ?? null,
+        },
+      );
+
+      const allowBackorder = data.allowBackorder ?? (await getSetting("order.allowBackorders"));
+      if (!allowBackorder && plan.shortfalls.length > 0) {
+        const shortfall = plan.shortfalls[0];
+        const product = products.find((p) => p.id === shortfall.productId);
+        throw new InsufficientStockError(
+          `Insufficient stock for ${product?.name ?? shortfall.productId}: requested ${shortfall.requested}, can reserve ${shortfall.available}`,
+          shortfall,
+        );
       }
 
-      // Calculate totals
-      let subtotal = 0;
+      // Price the lines from the customer's price lists, with tax and shipping for the destination
+      const pricing = await pricingService.priceLines(tx, {
+        type: "SALES",
+        customerGroup: data.customerGroup,
+        country: data.shippingCountry,
+        fallbackTaxRate: await getSetting("order.taxRate"),
+        lines: data.items,
+        tax: data.tax,
+        shippingCost: data.shippingCost,
+      });
+      const { subtotal, tax, shippingCost, totalAmount } = pricing;
+
+      let productCarbonKg = 0;
       const itemsData = [];
 
-      for (const item of data.items) {
+      for (const [index, item] of data.items.entries()) {
         const product = products.find((p) => p.id === item.productId);
-        const unitPrice = item.unitPrice || product?.sellingPrice || 0;
-        const itemTotal = item.quantity * unitPrice;
+        const { unitPrice, totalPrice: itemTotal } = pricing.lines[index];
 
-        subtotal += itemTotal;
+        productCarbonKg += item.quantity * (product?.carbonFootprintKg || 0);
+
+        const allocations = plan.allocations.filter((allocation) => allocation.key === String(index));
+        const reservedQuantity = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
 
         itemsData.push({
           productId: item.productId,
           quantity: item.quantity,
           unitPrice: unitPrice,
           totalPrice: itemTotal,
-          status: "PENDING",
+          status: reservedQuantity === item.quantity ? "RESERVED" : "BACKORDERED",
+          reservedQuantity,
+          backorderedQuantity: item.quantity - reservedQuantity,
+          allocations: {
+            create: allocations.map(({ warehouseId, quantity }) => ({ warehouseId, quantity })),
+          },
         });
       }
 
-      const tax = data.tax || 0;
-      const shippingCost = data.shippingCost || 0;
-      const totalAmount = subtotal + tax + shippingCost;
+      // Eco-friendly packaging reduces the product footprint by the configured factor
+      const packagingType = data.packagingType || "STANDARD";
+      const packagingFactor =
+        packagingType === "ECO_FRIENDLY" ? await getSetting("carbon.ecoPackagingFactor") : 1;
+      const estimatedCarbonKg = data.estimatedCarbonKg ?? productCarbonKg * packagingFactor;
 
       // Create order
       const order = await tx.order.create({
         data: {
-          orderNumber: this.generateOrderNumber(),
+          orderNumber: await this.generateOrderNumber(),
+          customerId: data.customerId,
           customerName: data.customerName,
           customerEmail: data.customerEmail,
           customerPhone: data.customerPhone,
           shippingAddress: data.shippingAddress,
-          fulfillmentWarehouseId: data.fulfillmentWarehouseId,
+          shippingLatitude: data.shippingLocation?.latitude,
+          shippingLongitude: data.shippingLocation?.longitude,
+          shippingCountry: data.shippingCountry,
+          fulfillmentWarehouseId: data.fulfillmentWarehouseId ?? plan.primaryWarehouseId,
+          allocationStrategy: data.fulfillmentWarehouseId ? null : plan.strategy,
+          allowSplit: data.allowSplit ?? false,
+          allowBackorder,
           priority: data.priority || "NORMAL",
           status: "NEW",
           createdById: data.createdById,
@@ -435,8 +579,8 @@ export default class OrderService {
           tax,
           shippingCost,
           totalAmount,
-          estimatedCarbonKg: data.estimatedCarbonKg || 0,
-          packagingType: data.packagingType || "STANDARD",
+          estimatedCarbonKg,
+          packagingType,
           notes: data.notes,
           items: {
             create: itemsData,
@@ -455,49 +599,204 @@ export default class OrderService {
           items: {
             include: {
               product: true,
+              allocations: true,
             },
           },
         },
       });
 
-      // Reserve inventory if warehouse is specified
-      if (data.fulfillmentWarehouseId) {
-        for (const item of data.items) {
-          const inventoryWhere = {
-            warehouseId_productId: {
-              warehouseId: data.fulfillmentWarehouseId,
-              productId: item.productId,
+      // Reserve the planned stock; fails if another request took it in the meantime
+      for (const allocation of plan.allocations) {
+        await reserveStock(tx, allocation.warehouseId, allocation.productId, allocation.quantity, {
+          referenceType: "ORDER",
+          referenceId: order.id,
+        });
+      }
+
+      return order;
+    });
+  };
+
+  // POST check availability - dry run of the reservation an order would get
+  checkAvailabilityService = async (data: OrderAvailabilityInput) => {
+    const productIds = [...new Set(data.items.map((item) => item.productId))];
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, name: true, sku: true, weight: true, isActive: true },
+    });
+
+    const missingIds = productIds.filter((id) => !products.some((p) => p.id === id && p.isActive));
+    if (missingIds.length > 0) {
+      throw new NotFoundError("Product", `Products not found or inactive: ${missingIds.join(", ")}`);
+    }
+
+    if (data.fulfillmentWarehouseId) {
+      const warehouse = await prisma.warehouse.findUnique({
+        where: { id: data.fulfillmentWarehouseId },
+      });
+
+      if (!warehouse) {
+        throw new NotFoundError("Warehouse");
+      }
+    }
+
+    const plan = await this.planOrderFulfillment(
+      prisma,
+      data.items.map((item, index) => ({
+        key: String(index),
+        productId: item.productId,
+        quantity: item.quantity,
+        unitWeightKg: unitWeightKg(products.find((p) => p.id === item.productId)),
+      })),
+      {
+        fulfillmentWarehouseId: data.fulfillmentWarehouseId,
+        allocationStrategy: data.allocationStrategy,
+        allowSplit: data.allowSplit ?? false,
+        destination: data.shippingLocation ?? null,
+      },
+    );
+
+    return {
+      strategy: data.fulfillmentWarehouseId ? null : plan.strategy,
+      fulfillmentWarehouseId: data.fulfillmentWarehouseId ?? plan.primaryWarehouseId,
+      canFulfillAll: plan.shortfalls.length === 0,
+      lines: data.items.map((item, index) => {
+        const allocations = plan.allocations.filter((allocation) => allocation.key === String(index));
+        const reservable = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+        const product = products.find((p) => p.id === item.productId);
+
+        return {
+          productId: item.productId,
+          productName: product?.name,
+          sku: product?.sku,
+          quantity: item.quantity,
+          reservable,
+          backordered: item.quantity - reservable,
+          allocations: allocations.map(({ warehouseId, quantity }) => ({ warehouseId, quantity })),
+        };
+      }),
+      warehouses: plan.ranking,
+    };
+  };
+
+  // POST allocate backorders - reserve stock that has arrived since the order was placed
+  allocateBackordersService = async (id: string) => {
+    await prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id },
+        include: {
+          items: {
+            where: { backorderedQuantity: { gt: 0 } },
+            include: {
+              product: {
+                select: { weight: true },
+              },
             },
-          };
-
-          await tx.inventory.update({
-            where: inventoryWhere,
-            data: {
-              reserved: { increment: item.quantity },
-              available: { decrement: item.quantity },
-              lastUpdated: new Date(),
+          },
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundError("Order");
+      }
+
+      if (!["NEW", "PROCESSING", "PICKING", "PARTIALLY_SHIPPED"].includes(order.status)) {
+        throw new ConflictError(
+          `Backorders can only be allocated until the order is fully packed (currently ${order.status})`,
+        );
+      }
+
+      if (order.items.length === 0) {
+        throw new ConflictError("Order has no backordered lines");
+      }
+
+      // Unsplit orders stay with the warehouse that already holds their reservation
+      const plan = await this.planOrderFulfillment(
+        tx,
+        order.items.map((item) => ({
+          key: item.id,
+          productId: item.productId,
+          quantity: item.backorderedQuantity,
+          unitWeightKg: unitWeightKg(item.product),
+        })),
+        {
+          fulfillmentWarehouseId: order.allowSplit ? null : order.fulfillmentWarehouseId,
+          allocationStrategy: isAllocationStrategy(order.allocationStrategy)
+            ? order.allocationStrategy
+            : null,
+          allowSplit: order.allowSplit,
+          destination: coordinatesOf({
+            latitude: order.shippingLatitude,
+            longitude: order.shippingLongitude,
+          }),
+        },
+      );
+
+      for (const allocation of plan.allocations) {
+        await reserveStock(tx, allocation.warehouseId, allocation.productId, allocation.quantity, {
+          referenceType: "ORDER",
+          referenceId: order.id,
+        });
+        await tx.orderAllocation.upsert({
+          where: {
+            orderItemId_warehouseId: {
+              orderItemId: allocation.key,
+              warehouseId: allocation.warehouseId,
             },
-          });
-        }
+          },
+          create: {
+            orderItemId: allocation.key,
+            warehouseId: allocation.warehouseId,
+            quantity: allocation.quantity,
+          },
+          update: { quantity: { increment: allocation.quantity } },
+        });
       }
 
-      return order;
+      for (const item of order.items) {
+        const allocated = plan.allocations
+          .filter((allocation) => allocation.key === item.id)
+          .reduce((sum, allocation) => sum + allocation.quantity, 0);
+        if (allocated === 0) continue;
+
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: {
+            reservedQuantity: { increment: allocated },
+            backorderedQuantity: { decrement: allocated },
+            status: allocated === item.backorderedQuantity ? "RESERVED" : "BACKORDERED",
+          },
+        });
+      }
+
+      if (!order.fulfillmentWarehouseId && plan.primaryWarehouseId) {
+        await tx.order.update({
+          where: { id },
+          data: { fulfillmentWarehouseId: plan.primaryWarehouseId },
+        });
+      }
     });
+
+    return this.getOrderByIdService(id);
   };
 
   // UPDATE order
-  updateOrderService = async (id: string, data: any) => {
+  updateOrderService = async (id: string, data: UpdateOrderInput) => {
     return await prisma.$transaction(async (tx) => {
       const existingOrder = await tx.order.findUnique({
         where: { id },
         include: {
-          items: true,
+          items: {
+            include: {
+              allocations: true,
+            },
+          },
           fulfillmentWarehouse: true,
         },
       });
 
       if (!existingOrder) {
-        throw new Error("Order not found");
+        throw new NotFoundError("Order");
       }
 
       // Handle status transitions
@@ -507,6 +806,7 @@ export default class OrderService {
           PROCESSING: ["PICKING", "CANCELLED"],
           PICKING: ["PACKED", "CANCELLED"],
           PACKED: ["SHIPPED", "CANCELLED"],
+          PARTIALLY_SHIPPED: ["SHIPPED"],
           SHIPPED: ["DELIVERED", "RETURNED"],
           DELIVERED: ["RETURNED"],
           CANCELLED: [],
@@ -515,59 +815,136 @@ export default class OrderService {
 
         const allowedNextStatuses = validTransitions[existingOrder.status] || [];
         if (!allowedNextStatuses.includes(data.status)) {
-          throw new Error(
+          throw new InvalidTransitionError(
             `Invalid status transition from ${existingOrder.status} to ${data.status}`,
+            { from: existingOrder.status, to: data.status },
           );
         }
 
-        // Handle cancellation - release reserved inventory
-        if (data.status === "CANCELLED" && existingOrder.fulfillmentWarehouseId) {
+        // Handle cancellation - release reserved inventory in every warehouse it was held
+        if (data.status === "CANCELLED") {
           for (const item of existingOrder.items) {
-            const inventoryWhere = {
-              warehouseId_productId: {
-                warehouseId: existingOrder.fulfillmentWarehouseId,
-                productId: item.productId,
-              },
-            };
-
-            await tx.inventory.update({
-              where: inventoryWhere,
-              data: {
-                reserved: { decrement: item.quantity },
-                available: { increment: item.quantity },
-                lastUpdated: new Date(),
-              },
-            });
+            for (const allocation of item.allocations) {
+              await releaseStock(tx, allocation.warehouseId, item.productId, allocation.quantity, {
+                referenceType: "ORDER",
+                referenceId: existingOrder.id,
+              });
+            }
           }
+
+          const itemIds = existingOrder.items.map((item) => item.id);
+          await tx.orderAllocation.deleteMany({ where: { orderItemId: { in: itemIds } } });
+          await tx.orderItem.updateMany({
+            where: { id: { in: itemIds } },
+            data: { reservedQuantity: 0, backorderedQuantity: 0 },
+          });
+
+          // Packed parcels are unpacked and their units go back on the shelf
+          await tx.shipment.updateMany({
+            where: { orderId: id, status: "PACKED" },
+            data: { status: "CANCELLED" },
+          });
         }
 
-        // Handle returns - restock inventory
-        if (data.status === "RETURNED" && existingOrder.fulfillmentWarehouseId) {
-          for (const item of existingOrder.items) {
-            const inventoryWhere = {
-              warehouseId_productId: {
-                warehouseId: existingOrder.fulfillmentWarehouseId,
-                productId: item.productId,
-              },
-            };
+        // PACKED is reached by packing every line into shipments
+        if (
+          data.status === "PACKED" &&
+          existingOrder.items.some((item) => item.packedQuantity < item.quantity)
+        ) {
+          throw new InvalidTransitionError("Every order line must be packed into a shipment first", {
+            from: existingOrder.status,
+            to: data.status,
+          });
+        }
 
-            await tx.inventory.update({
-              where: inventoryWhere,
-              data: {
-                quantity: { increment: item.quantity },
-                available: { increment: item.quantity },
-                lastUpdated: new Date(),
-              },
-            });
-          }
+        // Shipping turns the reserved stock into STOCK_OUT transactions
+        if (data.status === "SHIPPED") {
+          const shippedAt = await fulfillmentService.shipOrderInTx(
+            tx,
+            id,
+            data.fulfilledById ?? existingOrder.createdById,
+          );
+          data.shippedDate = data.shippedDate ?? shippedAt;
+        }
+
+        if (data.status === "DELIVERED") {
+          data.deliveredDate = data.deliveredDate ?? new Date();
+          await fulfillmentService.deliverOrderInTx(tx, id, data.deliveredDate);
+        }
+
+        // RETURNED is reached by inspecting every unit through return authorizations
+        if (
+          data.status === "RETURNED" &&
+          existingOrder.items.some((item) => item.returnedQuantity < item.quantity)
+        ) {
+          throw new InvalidTransitionError(
+            "Every order line must be returned through a return authorization first",
+            { from: existingOrder.status, to: data.status },
+          );
         }
       }
 
+      const { items, ...fields } = data;
+      const amounts: {
+        subtotal?: number;
+        tax?: number;
+        shippingCost?: number;
+        totalAmount?: number;
+        estimatedCarbonKg?: number;
+        fulfillmentWarehouseId?: string;
+      } = {};
+
+      const shippingCountry =
+        data.shippingCountry === undefined ? existingOrder.shippingCountry : data.shippingCountry;
+
+      // Line edits move reservations by the difference and price the order again
+      if (items) {
+        const edit = await this.editOrderLinesInTx(tx, id, items, {
+          shippingCountry,
+          tax: data.tax,
+          shippingCost: data.shippingCost,
+        });
+        const packagingType = data.packagingType ?? existingOrder.packagingType;
+        const packagingFactor =
+          packagingType === "ECO_FRIENDLY" ? await getSetting("carbon.ecoPackagingFactor") : 1;
+
+        const { subtotal, tax, shippingCost, totalAmount } = edit.pricing;
+        Object.assign(amounts, { subtotal, tax, shippingCost, totalAmount });
+        amounts.estimatedCarbonKg = edit.productCarbonKg * packagingFactor;
+
+        if (!existingOrder.fulfillmentWarehouseId && edit.primaryWarehouseId) {
+          amounts.fulfillmentWarehouseId = edit.primaryWarehouseId;
+        }
+      } else if (
+        data.shippingCountry !== undefined ||
+        data.tax !== undefined ||
+        data.shippingCost !== undefined
+      ) {
+        // Prices stay as they are; a new jurisdiction only changes the tax
+        const countryChanged = shippingCountry !== existingOrder.shippingCountry;
+        const pricing = await pricingService.priceLines(tx, {
+          type: "SALES",
+          country: shippingCountry,
+          fallbackTaxRate: await getSetting("order.taxRate"),
+          lines: existingOrder.items.map(({ productId, quantity, unitPrice }) => ({
+            productId,
+            quantity,
+            unitPrice,
+          })),
+          tax: data.tax ?? (countryChanged ? undefined : existingOrder.tax),
+          shippingCost: data.shippingCost ?? existingOrder.shippingCost,
+        });
+
+        const { tax, shippingCost, totalAmount } = pricing;
+        Object.assign(amounts, { tax, shippingCost, totalAmount });
+      }
+
       // Update order
       const updatedOrder = await tx.order.update({
         where: { id },
         data: {
-          ...data,
+          ...fields,
+          ...amounts,
           fulfilledById: data.fulfilledById || undefined,
         },
         include: {
@@ -640,12 +1017,17 @@ export default class OrderService {
 
     // Get top customers
     const topCustomers = await prisma.order.groupBy({
-      by: ["customerName"],
+      by: ["customerId"],
       _count: { id: true },
       _sum: { totalAmount: true },
       orderBy: { _sum: { totalAmount: "desc" } },
       take: 5,
-      where: { status: { not: "CANCELLED" } },
+      where: { status: { not: "CANCELLED" }, customerId: { not: null } },
+    });
+
+    const customers = await prisma.customer.findMany({
+      where: { id: { in: topCustomers.map((c) => c.customerId!) } },
+      select: { id: true, name: true, companyName: true },
     });
 
     return {
@@ -668,7 +1050,9 @@ export default class OrderService {
         average: averageOrderValue._avg.totalAmount || 0,
       },
       topCustomers: topCustomers.map((c) => ({
-        customerName: c.customerName,
+        customerId: c.customerId,
+        customerName: customers.find((customer) => customer.id === c.customerId)?.name,
+        companyName: customers.find((customer) => customer.id === c.customerId)?.companyName,
         orderCount: c._count.id,
         totalSpent: c._sum.totalAmount || 0,
       })),
@@ -686,6 +1070,7 @@ export default class OrderService {
 
     const statusWeights: Record<string, number> = {
       PENDING: 0,
+      BACKORDERED: 0,
       RESERVED: 25,
       PICKED: 50,
       PACKED: 75,
@@ -700,13 +1085,362 @@ export default class OrderService {
     return Math.round(totalWeight / items.length);
   };
 
-  // Helper: Get fulfillment warehouses for order
+  // Helper: Get fulfillment warehouses for order (primary plus any split allocations)
   private getFulfillmentWarehousesForOrder = async (orderId: string): Promise<string[]> => {
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      select: { fulfillmentWarehouseId: true },
+      select: {
+        fulfillmentWarehouseId: true,
+        items: {
+          select: {
+            allocations: {
+              select: { warehouseId: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order) return [];
+
+    const warehouseIds = order.items.flatMap((item) =>
+      item.allocations.map((allocation) => allocation.warehouseId),
+    );
+    if (order.fulfillmentWarehouseId) warehouseIds.push(order.fulfillmentWarehouseId);
+
+    return [...new Set(warehouseIds)];
+  };
+
+  // Helper: Replace the lines of an order that has not started picking. Lines left out are
+  // removed, lower quantities give back backordered and then reserved units, and higher
+  // quantities or new lines are planned and reserved like a new order.
+  private editOrderLinesInTx = async (
+    tx: TransactionClient,
+    orderId: string,
+    lines: OrderLineEditInput[],
+    charges: OrderCharges,
+  ) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: {
+          include: {
+            allocations: true,
+          },
+        },
+        customer: {
+          select: { customerGroup: true },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundError("Order");
+    }
+
+    if (
+      !EDITABLE_ORDER_STATUSES.includes(order.status) ||
+      order.items.some((item) => item.pickedQuantity > 0)
+    ) {
+      throw new ConflictError(
+        `Order lines can only be changed while the order is NEW or PROCESSING (currently ${order.status})`,
+      );
+    }
+
+    const seenIds = new Set<string>();
+    for (const line of lines) {
+      if (!line.id) continue;
+      if (!order.items.some((item) => item.id === line.id)) {
+        throw new NotFoundError("Order item", `Order item ${line.id} is not part of this order`);
+      }
+      if (seenIds.has(line.id)) {
+        throw new ValidationError(`Order item ${line.id} is listed more than once`);
+      }
+      seenIds.add(line.id);
+    }
+
+    // Existing lines keep their product even if it was deactivated since; new ones must be active
+    const newProductIds = lines.flatMap((line) => (line.productId ? [line.productId] : []));
+    const products = await tx.product.findMany({
+      where: {
+        OR: [
+          { id: { in: order.items.map((item) => item.productId) } },
+          { id: { in: newProductIds }, isActive: true },
+        ],
+      },
+      select: { id: true, name: true, weight: true, carbonFootprintKg: true },
+    });
+
+    const missingIds = newProductIds.filter((id) => !products.some((p) => p.id === id));
+    if (missingIds.length > 0) {
+      throw new NotFoundError("Product", `Products not found or inactive: ${missingIds.join(", ")}`);
+    }
+
+    const productOf = (productId: string) => products.find((p) => p.id === productId)!;
+
+    // Removed lines give back everything they hold
+    for (const item of order.items.filter((orderItem) => !seenIds.has(orderItem.id))) {
+      for (const allocation of item.allocations) {
+        await releaseStock(tx, allocation.warehouseId, item.productId, allocation.quantity, {
+          referenceType: "ORDER",
+          referenceId: order.id,
+        });
+      }
+      await tx.orderItem.delete({ where: { id: item.id } });
+    }
+
+    // Lower quantities drop backordered units first, then release reserved ones, so the
+    // freed stock is available to the increases below
+    for (const line of lines) {
+      const item = order.items.find((orderItem) => orderItem.id === line.id);
+      let surplus = item ? item.quantity - line.quantity : 0;
+      if (!item || surplus <= 0) continue;
+
+      const fromBackorder = Math.min(surplus, item.backorderedQuantity);
+      item.backorderedQuantity -= fromBackorder;
+      surplus -= fromBackorder;
+
+      for (const allocation of item.allocations) {
+        if (surplus === 0) break;
+
+        const released = Math.min(surplus, allocation.quantity);
+        await releaseStock(tx, allocation.warehouseId, item.productId, released, {
+          referenceType: "ORDER",
+          referenceId: order.id,
+        });
+
+        if (released === allocation.quantity) {
+          await tx.orderAllocation.delete({ where: { id: allocation.id } });
+        } else {
+          await tx.orderAllocation.update({
+            where: { id: allocation.id },
+            data: { quantity: { decrement: released } },
+          });
+        }
+
+        item.reservedQuantity -= released;
+        surplus -= released;
+      }
+    }
+
+    // Units still to reserve: the increase on existing lines, or all of a new line
+    const increments: FulfillmentLine[] = lines.flatMap((line, index) => {
+      const item = order.items.find((orderItem) => orderItem.id === line.id);
+      const productId = item?.productId ?? line.productId!;
+      const quantity = line.quantity - (item?.quantity ?? 0);
+
+      if (quantity <= 0) return [];
+      return [{
+        key: item?.id ?? `new-${index}`,
+        productId,
+        quantity,
+        unitWeightKg: unitWeightKg(productOf(productId)),
+      }];
+    });
+
+    const plan = await this.planOrderFulfillment(tx, increments, {
+      fulfillmentWarehouseId: order.allowSplit ? null : order.fulfillmentWarehouseId,
+      allocationStrategy: isAllocationStrategy(order.allocationStrategy)
+        ? order.allocationStrategy
+        : null,
+      allowSplit: order.allowSplit,
+      destination: coordinatesOf({
+        latitude: order.shippingLatitude,
+        longitude: order.shippingLongitude,
+      }),
+    });
+
+    if (!order.allowBackorder && plan.shortfalls.length > 0) {
+      const shortfall = plan.shortfalls[0];
+      throw new InsufficientStockError(
+        `Insufficient stock for ${productOf(shortfall.productId).name}: requested ${shortfall.requested} more, can reserve ${shortfall.available}`,
+        shortfall,
+      );
+    }
+
+    for (const allocation of plan.allocations) {
+      await reserveStock(tx, allocation.warehouseId, allocation.productId, allocation.quantity, {
+        referenceType: "ORDER",
+        referenceId: order.id,
+      });
+    }
+
+    // Lines keeping their quantity keep their price; the others are priced again unless a
+    // price is given, as a new quantity can reach a different quantity break
+    const pricing = await pricingService.priceLines(tx, {
+      type: "SALES",
+      customerGroup: order.customer?.customerGroup,
+      country: charges.shippingCountry,
+      fallbackTaxRate: await getSetting("order.taxRate"),
+      lines: lines.map((line) => {
+        const item = order.items.find((orderItem) => orderItem.id === line.id);
+        const keepsPrice = item && item.quantity === line.quantity;
+
+        return {
+          productId: item?.productId ?? line.productId!,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice ?? (keepsPrice ? item.unitPrice : undefined),
+        };
+      }),
+      tax: charges.tax,
+      shippingCost: charges.shippingCost,
+    });
+
+    let productCarbonKg = 0;
+
+    for (const [index, line] of lines.entries()) {
+      const item = order.items.find((orderItem) => orderItem.id === line.id);
+      const product = productOf(item?.productId ?? line.productId!);
+      const { unitPrice, totalPrice } = pricing.lines[index];
+
+      productCarbonKg += line.quantity * (product.carbonFootprintKg || 0);
+
+      const key = item?.id ?? `new-${index}`;
+      const allocations = plan.allocations.filter((allocation) => allocation.key === key);
+      const allocated = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+
+      if (!item) {
+        await tx.orderItem.create({
+          data: {
+            orderId,
+            productId: product.id,
+            quantity: line.quantity,
+            unitPrice,
+            totalPrice,
+            status: allocated === line.quantity ? "RESERVED" : "BACKORDERED",
+            reservedQuantity: allocated,
+            backorderedQuantity: line.quantity - allocated,
+            allocations: {
+              create: allocations.map(({ warehouseId, quantity }) => ({ warehouseId, quantity })),
+            },
+          },
+        });
+        continue;
+      }
+
+      const reservedQuantity = item.reservedQuantity + allocated;
+      const backorderedQuantity =
+        item.backorderedQuantity + Math.max(0, line.quantity - item.quantity) - allocated;
+
+      for (const allocation of allocations) {
+        await tx.orderAllocation.upsert({
+          where: {
+            orderItemId_warehouseId: { orderItemId: item.id, warehouseId: allocation.warehouseId },
+          },
+          create: {
+            orderItemId: item.id,
+            warehouseId: allocation.warehouseId,
+            quantity: allocation.quantity,
+          },
+          update: { quantity: { increment: allocation.quantity } },
+        });
+      }
+
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: {
+          quantity: line.quantity,
+          unitPrice,
+          totalPrice,
+          reservedQuantity,
+          backorderedQuantity,
+          status: backorderedQuantity > 0 ? "BACKORDERED" : "RESERVED",
+        },
+      });
+    }
+
+    return { pricing, productCarbonKg, primaryWarehouseId: plan.primaryWarehouseId };
+  };
+
+  // Helper: Fill in what a linked customer knows about the order. Values given on the order
+  // win; the shipping address is the chosen one or the customer's default, and the eco
+  // preferences pick packaging and the allocation strategy.
+  private applyCustomerDefaults = async (
+    tx: TransactionClient,
+    data: CreateOrderInput,
+  ): Promise<CreateOrderInput & { customerName: string; customerGroup: string | null }> => {
+    if (!data.customerId) {
+      return { ...data, customerName: data.customerName!, customerGroup: null };
+    }
+
+    const customer = await tx.customer.findUnique({
+      where: { id: data.customerId },
+      include: {
+        addresses: {
+          where: data.shippingAddressId ? { id: data.shippingAddressId } : { isDefault: true },
+        },
+      },
+    });
+
+    if (!customer || !customer.isActive) {
+      throw new NotFoundError("Customer", "Customer not found or inactive");
+    }
+
+    const address = customer.addresses[0];
+    if (data.shippingAddressId && !address) {
+      throw new NotFoundError("Customer address");
+    }
+
+    const addressLocation = address ? coordinatesOf(address) : null;
+
+    return {
+      ...data,
+      customerName: data.customerName ?? customer.name,
+      customerEmail: data.customerEmail ?? customer.email ?? undefined,
+      customerPhone: data.customerPhone ?? customer.phone ?? undefined,
+      shippingAddress: data.shippingAddress ?? (address ? formatAddress(address) : undefined),
+      shippingCountry: data.shippingCountry ?? address?.country ?? undefined,
+      shippingLocation: data.shippingLocation ?? addressLocation ?? undefined,
+      customerGroup: customer.customerGroup,
+      packagingType:
+        data.packagingType ?? (customer.prefersEcoPackaging ? "ECO_FRIENDLY" : undefined),
+      allocationStrategy:
+        data.allocationStrategy ?? (customer.prefersLowCarbonShipping ? "LOWEST_CARBON" : undefined),
+    };
+  };
+
+  // Helper: Plan where order lines are reserved. A given warehouse is used on its own;
+  // otherwise every active warehouse is ranked by the strategy (default from settings).
+  private planOrderFulfillment = async (
+    tx: TransactionClient,
+    lines: FulfillmentLine[],
+    request: PlanRequest,
+  ): Promise<FulfillmentPlan & { strategy: AllocationStrategy }> => {
+    const configured = await getSetting("order.allocationStrategy");
+    const strategy =
+      request.allocationStrategy ?? (isAllocationStrategy(configured) ? configured : "MOST_STOCK");
+
+    const productIds = [...new Set(lines.map((line) => line.productId))];
+    const warehouses = await tx.warehouse.findMany({
+      where: request.fulfillmentWarehouseId
+        ? { id: request.fulfillmentWarehouseId }
+        : { isActive: true },
+      select: {
+        id: true,
+        latitude: true,
+        longitude: true,
+        inventory: {
+          where: { productId: { in: productIds }, available: { gt: 0 } },
+          select: { productId: true, available: true },
+        },
+      },
+    });
+
+    const plan = planFulfillment({
+      lines,
+      warehouses: warehouses.map((warehouse) => ({
+        id: warehouse.id,
+        location: coordinatesOf(warehouse),
+        available: new Map(
+          warehouse.inventory.map((inventory) => [inventory.productId, inventory.available]),
+        ),
+      })),
+      strategy,
+      allowSplit: request.fulfillmentWarehouseId ? false : request.allowSplit,
+      destination: request.destination,
+      shippingKgPerTonneKm: await getSetting("carbon.shippingKgPerTonneKm"),
     });
 
-    return order?.fulfillmentWarehouseId ? [order.fulfillmentWarehouseId] : [];
+    return { ...plan, strategy };
   };
 }
\ No newline at end of file
@@ -0,0 +1,543 @@
+import { prisma, TransactionClient } from "../lib/db";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors";
+import {
+  calculateShippingCost,
+  calculateTax,
+  chargeableWeightKg,
+  PriceBreak,
+  PriceListType,
+  resolveTaxRule,
+  selectPriceBreak,
+  ShippingRates,
+  TaxRule,
+} from "../lib/pricing";
+import { getSetting } from "../lib/settings";
+import {
+  CreatePriceListInput,
+  PriceListItemInput,
+  PriceQuoteInput,
+  UpdatePriceListInput,
+  UpsertTaxRateInput,
+} from "../schemas/pricingSchemas";
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export interface PricingLine {
+  productId: string;
+  quantity: number;
+  // A price agreed for this line; price lists are not consulted
+  unitPrice?: number;
+  // Price when no price list covers the line (defaults to the product's selling price)
+  basePrice?: number;
+}
+
+export interface PricingRequest {
+  type: PriceListType;
+  // SALES lists are chosen by the buyer's customer group, PURCHASE lists by supplier
+  customerGroup?: string | null;
+  supplierId?: string;
+  // Tax jurisdiction; without a tax rate for it the fallback rate applies
+  country?: string | null;
+  fallbackTaxRate: number;
+  lines: PricingLine[];
+  // Amounts agreed by hand replace the computed ones
+  tax?: number;
+  shippingCost?: number;
+}
+
+export interface PricedLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  priceListId: string | null;
+}
+
+export interface PricingResult {
+  lines: PricedLine[];
+  subtotal: number;
+  chargeableWeightKg: number;
+  shippingCost: number;
+  taxJurisdiction: string | null;
+  taxRate: number;
+  tax: number;
+  totalAmount: number;
+}
+
+const priceListInclude = {
+  supplier: {
+    select: { id: true, code: true, name: true },
+  },
+  items: {
+    include: {
+      product: {
+        select: { id: true, sku: true, name: true, unit: true },
+      },
+    },
+    orderBy: [{ productId: "asc" as const }, { minQuantity: "asc" as const }],
+  },
+};
+
+export default class PricingServices {
+  // =================== PRICING ENGINE ===================
+
+  // Price a set of lines from the price lists, then add shipping by chargeable weight and
+  // tax for the jurisdiction. Used for orders, purchase orders and quotes.
+  priceLines = async (db: TransactionClient, request: PricingRequest): Promise<PricingResult> => {
+    const productIds = [...new Set(request.lines.map((line) => line.productId))];
+    const [products, breaks, taxRule, rates] = await Promise.all([
+      db.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true, sellingPrice: true, weight: true, volume: true },
+      }),
+      this.getPriceBreaks(db, request, productIds),
+      this.getTaxRule(db, request.country, request.fallbackTaxRate),
+      this.getShippingRates(),
+    ]);
+
+    const lines = request.lines.map((line) => {
+      const product = products.find((p) => p.id === line.productId);
+      const priceBreak =
+        line.unitPrice === undefined
+          ? selectPriceBreak(breaks.get(line.productId) ?? [], line.quantity)
+          : null;
+      const unitPrice =
+        line.unitPrice ?? priceBreak?.unitPrice ?? line.basePrice ?? (product?.sellingPrice || 0);
+
+      return {
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice,
+        totalPrice: line.quantity * unitPrice,
+        priceListId: priceBreak?.priceListId ?? null,
+      };
+    });
+
+    const subtotal = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+    const chargeableKg = chargeableWeightKg(
+      request.lines.map((line) => {
+        const product = products.find((p) => p.id === line.productId);
+        return {
+          quantity: line.quantity,
+          weightKg: product?.weight ?? null,
+          volumeM3: product?.volume ?? null,
+        };
+      }),
+      rates,
+    );
+    const shippingCost = request.shippingCost ?? calculateShippingCost(chargeableKg, rates);
+    const tax = request.tax ?? calculateTax(subtotal, shippingCost, taxRule);
+
+    return {
+      lines,
+      subtotal,
+      chargeableWeightKg: chargeableKg,
+      shippingCost,
+      taxJurisdiction: taxRule.jurisdiction,
+      taxRate: taxRule.rate,
+      tax,
+      totalAmount: subtotal + tax + shippingCost,
+    };
+  };
+
+  // POST quote - what an order would cost, without placing it
+  quotePriceService = async (data: PriceQuoteInput) => {
+    let customerGroup: string | null = null;
+    let country = data.shippingCountry;
+
+    if (data.customerId) {
+      const customer = await prisma.customer.findUnique({
+        where: { id: data.customerId },
+        include: {
+          addresses: {
+            where: { isDefault: true },
+          },
+        },
+      });
+
+      if (!customer) {
+        throw new NotFoundError("Customer");
+      }
+
+      customerGroup = customer.customerGroup;
+      country = country ?? customer.addresses[0]?.country ?? undefined;
+    }
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: data.items.map((item) => item.productId) }, isActive: true },
+      select: { id: true },
+    });
+
+    const missingIds = data.items
+      .map((item) => item.productId)
+      .filter((id) => !products.some((p) => p.id === id));
+    if (missingIds.length > 0) {
+      throw new NotFoundError("Product", `Products not found or inactive: ${missingIds.join(", ")}`);
+    }
+
+    return this.priceLines(prisma, {
+      type: "SALES",
+      customerGroup,
+      country,
+      fallbackTaxRate: await getSetting("order.taxRate"),
+      lines: data.items,
+    });
+  };
+
+  // =================== PRICE LISTS ===================
+
+  // Search price lists with pagination
+  searchPriceListsService = async (params: SearchParams): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+    const sort = params.sort || { field: "name", order: "asc" };
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    if (search) {
+      where.AND.push({
+        OR: [
+          { code: { contains: search, mode: "insensitive" } },
+          { name: { contains: search, mode: "insensitive" } },
+          { customerGroup: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.type) {
+      where.AND.push({ type: filters.type });
+    }
+    if (filters.customerGroup) {
+      where.AND.push({ customerGroup: filters.customerGroup });
+    }
+    if (filters.supplierId) {
+      where.AND.push({ supplierId: filters.supplierId });
+    }
+    if (filters.productId) {
+      where.AND.push({ items: { some: { productId: filters.productId } } });
+    }
+    if (filters.isActive !== undefined) {
+      where.AND.push({ isActive: filters.isActive === true || filters.isActive === "true" });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.priceList.findMany({
+        where,
+        include: {
+          supplier: {
+            select: { id: true, code: true, name: true },
+          },
+          _count: {
+            select: { items: true },
+          },
+        },
+        orderBy: { [sort.field]: sort.order },
+        skip,
+        take: limit,
+      }),
+      prisma.priceList.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET price list by ID (single record)
+  getPriceListByIdService = async (id: string) => {
+    const priceList = await prisma.priceList.findUnique({
+      where: { id },
+      include: priceListInclude,
+    });
+
+    if (!priceList) {
+      throw new NotFoundError("Price list");
+    }
+
+    return priceList;
+  };
+
+  // CREATE price list
+  createPriceListService = async (data: CreatePriceListInput) => {
+    const existing = await prisma.priceList.findUnique({
+      where: { code: data.code },
+    });
+
+    if (existing) {
+      throw new ConflictError("Price list code already exists");
+    }
+
+    if (data.supplierId) {
+      await this.assertSupplierExists(data.supplierId);
+    }
+
+    const { items = [], ...fields } = data;
+    await this.validateItems(items);
+
+    return await prisma.priceList.create({
+      data: {
+        ...fields,
+        items: {
+          create: items,
+        },
+      },
+      include: priceListInclude,
+    });
+  };
+
+  // UPDATE price list details (items are replaced separately)
+  updatePriceListService = async (id: string, data: UpdatePriceListInput) => {
+    const existing = await prisma.priceList.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Price list");
+    }
+
+    // Check for duplicate code (only if code is being changed)
+    if (data.code && data.code !== existing.code) {
+      const existingWithCode = await prisma.priceList.findUnique({
+        where: { code: data.code },
+      });
+      if (existingWithCode) {
+        throw new ConflictError("Price list code already exists");
+      }
+    }
+
+    if (data.supplierId) {
+      await this.assertSupplierExists(data.supplierId);
+    }
+
+    const type = data.type ?? existing.type;
+    const supplierId = data.supplierId === undefined ? existing.supplierId : data.supplierId;
+    if (type === "PURCHASE" && !supplierId) {
+      throw new ValidationError("Purchase price lists need a supplierId");
+    }
+
+    return await prisma.priceList.update({
+      where: { id },
+      data,
+      include: priceListInclude,
+    });
+  };
+
+  // DELETE price list (prices already on orders are kept)
+  deletePriceListService = async (id: string): Promise<{ message: string }> => {
+    const existing = await prisma.priceList.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Price list");
+    }
+
+    await prisma.priceList.delete({
+      where: { id },
+    });
+
+    return { message: "Price list deleted successfully" };
+  };
+
+  // PUT replace the prices and quantity breaks of a price list
+  setPriceListItemsService = async (id: string, items: PriceListItemInput[]) => {
+    const existing = await prisma.priceList.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Price list");
+    }
+
+    await this.validateItems(items);
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.priceListItem.deleteMany({
+        where: { priceListId: id },
+      });
+
+      return await tx.priceList.update({
+        where: { id },
+        data: {
+          items: {
+            create: items,
+          },
+        },
+        include: priceListInclude,
+      });
+    });
+  };
+
+  // =================== TAX RATES ===================
+
+  // GET all tax rates by jurisdiction
+  getTaxRatesService = async () => {
+    return await prisma.taxRate.findMany({
+      orderBy: { country: "asc" },
+    });
+  };
+
+  // PUT create or replace the tax rate of a jurisdiction
+  upsertTaxRateService = async (country: string, data: UpsertTaxRateInput) => {
+    return await prisma.taxRate.upsert({
+      where: { country },
+      create: { country, ...data },
+      update: data,
+    });
+  };
+
+  // DELETE tax rate (the jurisdiction falls back to the default rate)
+  deleteTaxRateService = async (country: string): Promise<{ message: string }> => {
+    const existing = await prisma.taxRate.findUnique({
+      where: { country },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Tax rate");
+    }
+
+    await prisma.taxRate.delete({
+      where: { country },
+    });
+
+    return { message: "Tax rate deleted successfully" };
+  };
+
+  // Helper: quantity breaks per product from the lists that apply to the request today
+  private getPriceBreaks = async (
+    db: TransactionClient,
+    request: PricingRequest,
+    productIds: string[],
+  ): Promise<Map<string, PriceBreak[]>> => {
+    const now = new Date();
+    const audience =
+      request.type === "SALES"
+        ? { OR: [{ customerGroup: null }, ...(request.customerGroup ? [{ customerGroup: request.customerGroup }] : [])] }
+        : { supplierId: request.supplierId ?? null };
+
+    const priceLists = await db.priceList.findMany({
+      where: {
+        type: request.type,
+        isActive: true,
+        AND: [
+          audience,
+          { OR: [{ validFrom: null }, { validFrom: { lte: now } }] },
+          { OR: [{ validTo: null }, { validTo: { gte: now } }] },
+        ],
+      },
+      include: {
+        items: {
+          where: { productId: { in: productIds } },
+        },
+      },
+    });
+
+    const breaks = new Map<string, PriceBreak[]>();
+    for (const priceList of priceLists) {
+      for (const item of priceList.items) {
+        const productBreaks = breaks.get(item.productId) ?? [];
+        productBreaks.push({
+          priceListId: priceList.id,
+          specific: priceList.type === "PURCHASE" || priceList.customerGroup !== null,
+          priority: priceList.priority,
+          minQuantity: item.minQuantity,
+          unitPrice: item.unitPrice,
+        });
+        breaks.set(item.productId, productBreaks);
+      }
+    }
+
+    return breaks;
+  };
+
+  // Helper: the active tax rate for a jurisdiction (matched case-insensitively)
+  private getTaxRule = async (
+    db: TransactionClient,
+    country: string | null | undefined,
+    fallbackRate: number,
+  ): Promise<TaxRule & { jurisdiction: string | null }> => {
+    const taxRate = country
+      ? await db.taxRate.findFirst({
+          where: { country: { equals: country, mode: "insensitive" }, isActive: true },
+        })
+      : null;
+
+    return resolveTaxRule(taxRate, fallbackRate);
+  };
+
+  // Helper: shipping rates from settings
+  private getShippingRates = async (): Promise<ShippingRates> => {
+    const [baseCost, costPerKg, volumetricKgPerM3] = await Promise.all([
+      getSetting("shipping.baseCost"),
+      getSetting("shipping.costPerKg"),
+      getSetting("shipping.volumetricKgPerM3"),
+    ]);
+
+    return { baseCost, costPerKg, volumetricKgPerM3 };
+  };
+
+  // Helper: supplier referenced by a purchase price list must exist
+  private assertSupplierExists = async (supplierId: string) => {
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: supplierId },
+    });
+
+    if (!supplier) {
+      throw new NotFoundError("Supplier");
+    }
+  };
+
+  // Helper: every product exists and each quantity break is listed once
+  private validateItems = async (items: PriceListItemInput[]) => {
+    const keys = items.map((item) => `${item.productId}|${item.minQuantity}`);
+    if (new Set(keys).size !== keys.length) {
+      throw new ValidationError("Each product may only have one price per quantity break");
+    }
+
+    const productIds = [...new Set(items.map((item) => item.productId))];
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true },
+    });
+
+    const missingIds = productIds.filter((id) => !products.some((p) => p.id === id));
+    if (missingIds.length > 0) {
+      throw new NotFoundError("Product", `Products not found: ${missingIds.join(", ")}`);
+    }
+  };
+}
@@ -1,4 +1,7 @@
 import { prisma } from "../lib/db";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import { getSetting } from "../lib/settings";
+import { BulkProductUpdate, UpsertProductInput } from "../schemas/productSchemas";
 
 interface SearchParams {
   search: string;
@@ -390,7 +393,7 @@ export default class ProductServices {
     });
 
     if (!product) {
-      throw new Error("Product not found");
+      throw new NotFoundError("Product");
     }
 
     // Calculate metrics
@@ -425,7 +428,7 @@ export default class ProductServices {
   };
 
   // UPSERT product (create or update)
-  upsertProductService = async (data: any) => {
+  upsertProductService = async (data: UpsertProductInput) => {
     const {
       sku,
       name,
@@ -444,17 +447,12 @@ export default class ProductServices {
       isActive = true,
     } = data;
 
-    // Validate required fields
-    if (!sku || !name || !categoryId || !unit || costPrice === undefined) {
-      throw new Error("SKU, name, category, unit, and cost price are required");
-    }
-
     // Check if category exists
     const category = await prisma.category.findUnique({
       where: { id: categoryId },
     });
     if (!category) {
-      throw new Error("Category not found");
+      throw new NotFoundError("Category");
     }
 
     // For update: check if product exists
@@ -463,7 +461,7 @@ export default class ProductServices {
         where: { id: data.id },
       });
       if (!existingProduct) {
-        throw new Error("Product not found");
+        throw new NotFoundError("Product");
       }
     }
 
@@ -476,14 +474,14 @@ export default class ProductServices {
         },
       });
       if (existingWithSku) {
-        throw new Error(`Product with SKU ${sku} already exists`);
+        throw new ConflictError(`Product with SKU ${sku} already exists`);
       }
     } else {
       const existingWithSku = await prisma.product.findUnique({
         where: { sku },
       });
       if (existingWithSku) {
-        throw new Error(`Product with SKU ${sku} already exists`);
+        throw new ConflictError(`Product with SKU ${sku} already exists`);
       }
     }
 
@@ -499,8 +497,8 @@ export default class ProductServices {
       materialType,
       costPrice,
       sellingPrice,
-      minStockLevel: minStockLevel ?? 10,
-      reorderPoint: reorderPoint ?? 20,
+      minStockLevel: minStockLevel ?? (await getSetting("inventory.defaultMinStockLevel")),
+      reorderPoint: reorderPoint ?? (await getSetting("inventory.defaultReorderPoint")),
       carbonFootprintKg,
       isActive,
     };
@@ -551,19 +549,19 @@ export default class ProductServices {
     });
 
     if (!product) {
-      throw new Error("Product not found");
+      throw new NotFoundError("Product");
     }
 
     // Check if product has inventory
     if (product._count.inventory > 0) {
-      throw new Error(
+      throw new ConflictError(
         "Cannot delete product with existing inventory. Please transfer or adjust inventory first.",
       );
     }
 
     // Check if product has order history
     if (product._count.orderItems > 0) {
-      throw new Error(
+      throw new ConflictError(
         "Cannot delete product with existing order history. Consider marking as inactive instead.",
       );
     }
@@ -575,10 +573,7 @@ export default class ProductServices {
 
   // Bulk update products
   bulkUpdateProductsService = async (
-    updates: Array<{
-      id: string;
-      data: Partial<any>;
-    }>,
+    updates: BulkProductUpdate[],
   ) => {
     const results = [];
 
@@ -0,0 +1,660 @@
+import { prisma } from "../lib/db";
+import { ConflictError, InvalidTransitionError, NotFoundError, ValidationError } from "../lib/errors";
+import { getSetting } from "../lib/settings";
+import {
+  CreatePurchaseOrderInput,
+  PurchaseOrderItemInput,
+  UpdatePurchaseOrderInput,
+} from "../schemas/purchaseOrderSchemas";
+import PricingServices, { PricingLine } from "./pricingServices";
+
+const pricingService = new PricingServices();
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Tax rate and shipping cost agreed with the supplier by hand
+interface PurchaseOrderCharges {
+  taxRate?: number;
+  tax?: number;
+  shippingCost?: number;
+}
+
+// DRAFT -> PENDING_APPROVAL -> APPROVED -> ORDERED -> DELIVERED, CANCELLED from any open state
+const validTransitions: Record<string, string[]> = {
+  DRAFT: ["PENDING_APPROVAL", "CANCELLED"],
+  PENDING_APPROVAL: ["APPROVED", "DRAFT", "CANCELLED"],
+  APPROVED: ["ORDERED", "CANCELLED"],
+  ORDERED: ["DELIVERED", "CANCELLED"],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+const purchaseOrderInclude = {
+  supplier: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      paymentTerms: true,
+      sustainabilityRating: true,
+    },
+  },
+  deliveryWarehouse: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+    },
+  },
+  createdBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  approvedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          sku: true,
+          name: true,
+          unit: true,
+        },
+      },
+    },
+  },
+};
+
+export default class PurchaseOrderServices {
+  // Generate PO number
+  private generatePoNumber = async (): Promise<string> => {
+    const date = new Date();
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const poCount = await prisma.purchaseOrder.count({
+      where: {
+        orderDate: {
+          gte: new Date(`${year}-01-01`),
+          lt: new Date(`${year + 1}-01-01`),
+        },
+      },
+    });
+
+    const prefix = await getSetting("numbering.purchaseOrderPrefix");
+
+    return `${prefix}-${year}${month}-${String(poCount + 1).padStart(5, "0")}`;
+  };
+
+  // MAIN SEARCH METHOD with pagination
+  searchPurchaseOrdersService = async (params: SearchParams): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+
+    const sort = params.sort || { field: "orderDate", order: "desc" };
+
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    if (search) {
+      where.AND.push({
+        OR: [
+          { poNumber: { contains: search, mode: "insensitive" } },
+          { notes: { contains: search, mode: "insensitive" } },
+          { supplier: { name: { contains: search, mode: "insensitive" } } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.status) {
+      where.AND.push({ status: filters.status });
+    }
+    if (filters.priority) {
+      where.AND.push({ priority: filters.priority });
+    }
+    if (filters.supplierId) {
+      where.AND.push({ supplierId: filters.supplierId });
+    }
+    if (filters.deliveryWarehouseId) {
+      where.AND.push({ deliveryWarehouseId: filters.deliveryWarehouseId });
+    }
+    if (filters.createdById) {
+      where.AND.push({ createdById: filters.createdById });
+    }
+    if (filters.startDate) {
+      where.AND.push({ orderDate: { gte: new Date(filters.startDate) } });
+    }
+    if (filters.endDate) {
+      where.AND.push({ orderDate: { lte: new Date(filters.endDate) } });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort && sort.field) {
+      if (sort.field.includes(".")) {
+        const [relation, field] = sort.field.split(".");
+        orderBy[relation] = { [field]: sort.order };
+      } else {
+        orderBy[sort.field] = sort.order;
+      }
+    } else {
+      orderBy.orderDate = "desc";
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        include: {
+          supplier: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+            },
+          },
+          deliveryWarehouse: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+            },
+          },
+          createdBy: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          _count: {
+            select: {
+              items: true,
+              deliveries: true,
+            },
+          },
+        },
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET purchase order by ID (single record)
+  getPurchaseOrderByIdService = async (id: string): Promise<any> => {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: {
+        ...purchaseOrderInclude,
+        deliveries: {
+          orderBy: { receivedDate: "desc" },
+        },
+      },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundError("Purchase order");
+    }
+
+    return {
+      ...purchaseOrder,
+      allowedTransitions: validTransitions[purchaseOrder.status] || [],
+    };
+  };
+
+  // CREATE purchase order (starts as DRAFT)
+  createPurchaseOrderService = async (data: CreatePurchaseOrderInput): Promise<any> => {
+    const [supplier, warehouse] = await Promise.all([
+      prisma.supplier.findUnique({ where: { id: data.supplierId } }),
+      prisma.warehouse.findUnique({ where: { id: data.deliveryWarehouseId } }),
+    ]);
+
+    if (!supplier) throw new NotFoundError("Supplier");
+    if (!supplier.isActive) throw new ValidationError("Supplier is inactive");
+    if (!warehouse) throw new NotFoundError("Delivery warehouse");
+
+    const pricing = await this.priceItems(data.supplierId, data.deliveryWarehouseId, data.items, {
+      taxRate: data.taxRate,
+      shippingCost: data.shippingCost,
+    });
+
+    // Default the expected delivery to the longest supplier lead time
+    const expectedDelivery = data.expectedDelivery
+      ? new Date(data.expectedDelivery)
+      : new Date(Date.now() + pricing.maxLeadTimeDays * 24 * 60 * 60 * 1000);
+
+    return await prisma.purchaseOrder.create({
+      data: {
+        poNumber: await this.generatePoNumber(),
+        supplierId: data.supplierId,
+        deliveryWarehouseId: data.deliveryWarehouseId,
+        status: "DRAFT",
+        priority: data.priority || "NORMAL",
+        createdById: data.createdById,
+        expectedDelivery,
+        subtotal: pricing.subtotal,
+        tax: pricing.tax,
+        shippingCost: pricing.shippingCost,
+        totalAmount: pricing.totalAmount,
+        estimatedCarbonKg: pricing.estimatedCarbonKg,
+        notes: data.notes,
+        items: {
+          create: pricing.itemsData,
+        },
+      },
+      include: purchaseOrderInclude,
+    });
+  };
+
+  // UPDATE purchase order (only while DRAFT)
+  updatePurchaseOrderService = async (
+    id: string,
+    data: UpdatePurchaseOrderInput,
+  ): Promise<any> => {
+    const existing = await prisma.purchaseOrder.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Purchase order");
+    }
+
+    if (existing.status !== "DRAFT") {
+      throw new InvalidTransitionError("Only draft purchase orders can be edited");
+    }
+
+    if (data.deliveryWarehouseId) {
+      const warehouse = await prisma.warehouse.findUnique({
+        where: { id: data.deliveryWarehouseId },
+      });
+      if (!warehouse) throw new NotFoundError("Delivery warehouse");
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const updateData: any = {
+        deliveryWarehouseId: data.deliveryWarehouseId,
+        priority: data.priority,
+        expectedDelivery: data.expectedDelivery ? new Date(data.expectedDelivery) : undefined,
+        notes: data.notes,
+      };
+
+      const deliveryWarehouseId = data.deliveryWarehouseId ?? existing.deliveryWarehouseId;
+      const charges = { taxRate: data.taxRate, shippingCost: data.shippingCost };
+
+      // Replacing items re-prices the whole order
+      if (data.items) {
+        const pricing = await this.priceItems(
+          existing.supplierId,
+          deliveryWarehouseId,
+          data.items,
+          charges,
+        );
+
+        await tx.purchaseOrderItem.deleteMany({
+          where: { purchaseOrderId: id },
+        });
+
+        Object.assign(updateData, {
+          subtotal: pricing.subtotal,
+          tax: pricing.tax,
+          shippingCost: pricing.shippingCost,
+          totalAmount: pricing.totalAmount,
+          estimatedCarbonKg: pricing.estimatedCarbonKg,
+          items: {
+            create: pricing.itemsData,
+          },
+        });
+      } else if (
+        data.taxRate !== undefined ||
+        data.shippingCost !== undefined ||
+        deliveryWarehouseId !== existing.deliveryWarehouseId
+      ) {
+        // Prices stay as they are; tax follows the rate given or the new delivery country
+        const items = await tx.purchaseOrderItem.findMany({
+          where: { purchaseOrderId: id },
+          select: { productId: true, quantity: true, unitPrice: true },
+        });
+        const keepsTax =
+          data.taxRate === undefined && deliveryWarehouseId === existing.deliveryWarehouseId;
+        const pricing = await this.priceCharges(existing.supplierId, deliveryWarehouseId, items, {
+          taxRate: data.taxRate,
+          tax: keepsTax ? existing.tax : undefined,
+          shippingCost: data.shippingCost ?? existing.shippingCost,
+        });
+
+        Object.assign(updateData, {
+          tax: pricing.tax,
+          shippingCost: pricing.shippingCost,
+          totalAmount: pricing.totalAmount,
+        });
+      }
+
+      return await tx.purchaseOrder.update({
+        where: { id },
+        data: updateData,
+        include: purchaseOrderInclude,
+      });
+    });
+  };
+
+  // Submit for approval (DRAFT -> PENDING_APPROVAL)
+  submitPurchaseOrderService = async (id: string): Promise<any> => {
+    const purchaseOrder = await this.getForTransition(id, "PENDING_APPROVAL");
+
+    if (purchaseOrder._count.items === 0) {
+      throw new ValidationError("Purchase order must contain at least one item");
+    }
+
+    return await prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: "PENDING_APPROVAL" },
+      include: purchaseOrderInclude,
+    });
+  };
+
+  // Approve (PENDING_APPROVAL -> APPROVED) by a different user than the creator
+  approvePurchaseOrderService = async (id: string, approvedById: string): Promise<any> => {
+    const purchaseOrder = await this.getForTransition(id, "APPROVED");
+
+    if (purchaseOrder.createdById === approvedById) {
+      throw new ValidationError("Purchase orders must be approved by a different user than the creator");
+    }
+
+    return await prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: "APPROVED",
+        approvedById,
+      },
+      include: purchaseOrderInclude,
+    });
+  };
+
+  // Reject back to draft (PENDING_APPROVAL -> DRAFT)
+  rejectPurchaseOrderService = async (id: string, reason?: string): Promise<any> => {
+    const purchaseOrder = await this.getForTransition(id, "DRAFT");
+
+    return await prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: "DRAFT",
+        approvedById: null,
+        notes: reason
+          ? [purchaseOrder.notes, `Rejected: ${reason}`].filter(Boolean).join("\n")
+          : undefined,
+      },
+      include: purchaseOrderInclude,
+    });
+  };
+
+  // Place with supplier (APPROVED -> ORDERED)
+  placePurchaseOrderService = async (id: string): Promise<any> => {
+    await this.getForTransition(id, "ORDERED");
+
+    return await prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: "ORDERED",
+        orderDate: new Date(),
+      },
+      include: purchaseOrderInclude,
+    });
+  };
+
+  // Cancel from any open state
+  cancelPurchaseOrderService = async (id: string, reason?: string): Promise<any> => {
+    const purchaseOrder = await this.getForTransition(id, "CANCELLED");
+
+    return await prisma.$transaction(async (tx) => {
+      // Cancel first, so a delivery received meanwhile either committed before the checks
+      // below or finds the purchase order cancelled
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id, status: purchaseOrder.status },
+        data: {
+          status: "CANCELLED",
+          notes: reason
+            ? [purchaseOrder.notes, `Cancelled: ${reason}`].filter(Boolean).join("\n")
+            : undefined,
+        },
+      });
+      if (count !== 1) {
+        throw new ConflictError("Purchase order was changed by another request, please retry");
+      }
+
+      const receivedItems = await tx.purchaseOrderItem.count({
+        where: { purchaseOrderId: id, receivedQty: { gt: 0 } },
+      });
+      if (receivedItems > 0) {
+        throw new InvalidTransitionError("Cannot cancel a purchase order that has already received goods");
+      }
+
+      const openDeliveries = await tx.delivery.count({
+        where: { purchaseOrderId: id, status: { in: ["IN_TRANSIT", "PARTIALLY_RECEIVED", "DELAYED"] } },
+      });
+      if (openDeliveries > 0) {
+        throw new InvalidTransitionError("Cannot cancel a purchase order with deliveries still on their way");
+      }
+
+      return await tx.purchaseOrder.findUnique({
+        where: { id },
+        include: purchaseOrderInclude,
+      });
+    });
+  };
+
+  // DELETE purchase order (only while DRAFT)
+  deletePurchaseOrderService = async (id: string): Promise<{ message: string }> => {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundError("Purchase order");
+    }
+
+    if (purchaseOrder.status !== "DRAFT") {
+      throw new InvalidTransitionError(`Cannot delete a ${purchaseOrder.status.toLowerCase()} purchase order`);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.purchaseOrderItem.deleteMany({
+        where: { purchaseOrderId: id },
+      });
+
+      await tx.purchaseOrder.delete({
+        where: { id },
+      });
+    });
+
+    return { message: "Purchase order deleted successfully" };
+  };
+
+  // Helper: load a PO and validate the requested status transition
+  private getForTransition = async (id: string, nextStatus: string) => {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { items: true },
+        },
+      },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundError("Purchase order");
+    }
+
+    const allowedNextStatuses = validTransitions[purchaseOrder.status] || [];
+    if (!allowedNextStatuses.includes(nextStatus)) {
+      throw new InvalidTransitionError(
+        `Invalid status transition from ${purchaseOrder.status} to ${nextStatus}`,
+        { from: purchaseOrder.status, to: nextStatus },
+      );
+    }
+
+    return purchaseOrder;
+  };
+
+  // Helper: price items from the supplier's purchase price lists (catalogue cost when none
+  // applies), add tax for the delivery country and shipping by weight, and enforce minimum
+  // order quantities
+  private priceItems = async (
+    supplierId: string,
+    deliveryWarehouseId: string,
+    items: PurchaseOrderItemInput[],
+    charges: PurchaseOrderCharges = {},
+  ) => {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ValidationError("Purchase order must contain at least one item");
+    }
+
+    const productIds = items.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new ValidationError("Each product may only appear once per purchase order");
+    }
+
+    const supplierProducts = await prisma.supplierProduct.findMany({
+      where: {
+        supplierId,
+        productId: { in: productIds },
+      },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+            isActive: true,
+            carbonFootprintKg: true,
+          },
+        },
+      },
+    });
+
+    let estimatedCarbonKg = 0;
+    let maxLeadTimeDays = 0;
+
+    for (const item of items) {
+      const supplierProduct = supplierProducts.find((sp) => sp.productId === item.productId);
+
+      if (!supplierProduct) {
+        throw new ValidationError(`Product ${item.productId} is not supplied by this supplier`);
+      }
+      if (!supplierProduct.product.isActive) {
+        throw new ValidationError(`Product ${supplierProduct.product.name} is inactive`);
+      }
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new ValidationError(`Invalid quantity for product ${supplierProduct.product.name}`);
+      }
+      if (item.quantity < supplierProduct.minOrderQty) {
+        throw new ValidationError(
+          `Quantity for ${supplierProduct.product.name} is below the supplier minimum order quantity of ${supplierProduct.minOrderQty}`,
+        );
+      }
+
+      estimatedCarbonKg += item.quantity * (supplierProduct.product.carbonFootprintKg || 0);
+      maxLeadTimeDays = Math.max(maxLeadTimeDays, supplierProduct.leadTimeDays);
+    }
+
+    const pricing = await this.priceCharges(
+      supplierId,
+      deliveryWarehouseId,
+      items.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        basePrice: supplierProducts.find((sp) => sp.productId === item.productId)!.unitCost,
+      })),
+      charges,
+    );
+
+    return {
+      itemsData: pricing.lines.map((line) => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        totalPrice: line.totalPrice,
+        receivedQty: 0,
+        pendingQty: line.quantity,
+      })),
+      subtotal: pricing.subtotal,
+      tax: pricing.tax,
+      shippingCost: pricing.shippingCost,
+      totalAmount: pricing.totalAmount,
+      estimatedCarbonKg,
+      maxLeadTimeDays,
+    };
+  };
+
+  // Helper: run purchase lines through the pricing engine. A tax rate given on the purchase
+  // order replaces the rate of the delivery warehouse's country.
+  private priceCharges = async (
+    supplierId: string,
+    deliveryWarehouseId: string,
+    lines: PricingLine[],
+    charges: PurchaseOrderCharges,
+  ) => {
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: deliveryWarehouseId },
+      select: { country: true },
+    });
+
+    return pricingService.priceLines(prisma, {
+      type: "PURCHASE",
+      supplierId,
+      country: charges.taxRate === undefined ? warehouse?.country : null,
+      fallbackTaxRate: charges.taxRate ?? 0,
+      lines,
+      tax: charges.tax,
+      shippingCost: charges.shippingCost,
+    });
+  };
+}
@@ -0,0 +1,528 @@
+import { prisma, TransactionClient } from "../lib/db";
+import { InvalidTransitionError, NotFoundError, ValidationError } from "../lib/errors";
+import { getSetting } from "../lib/settings";
+import { assertWarehouseAccess, canAccessWarehouse, WarehouseScope } from "../lib/warehouseScope";
+import { unitWeightKg } from "../lib/weight";
+import {
+  CreateReturnInput,
+  InspectReturnInput,
+  ReceiveReturnInput,
+  ReturnDisposition,
+} from "../schemas/returnSchemas";
+import TransactionService from "./transactionServices";
+
+const transactionService = new TransactionService();
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Orders with units in the customer's hands
+const RETURNABLE_ORDER_STATUSES = ["PARTIALLY_SHIPPED", "SHIPPED", "DELIVERED"];
+
+// Inspection outcome columns on a return line, per disposition
+const DISPOSITION_FIELDS = {
+  RESTOCK: "restockedQuantity",
+  REFURBISH: "refurbishedQuantity",
+  RECYCLE: "recycledQuantity",
+  WASTE: "wastedQuantity",
+} as const satisfies Record<ReturnDisposition, string>;
+
+const returnInclude = {
+  order: {
+    select: { id: true, orderNumber: true, status: true, customerName: true },
+  },
+  warehouse: {
+    select: { id: true, name: true, code: true },
+  },
+  createdBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  inspectedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  items: {
+    include: {
+      orderItem: {
+        include: {
+          product: {
+            select: { id: true, sku: true, name: true },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const inspectedQuantity = (item: {
+  restockedQuantity: number;
+  refurbishedQuantity: number;
+  recycledQuantity: number;
+  wastedQuantity: number;
+}) => item.restockedQuantity + item.refurbishedQuantity + item.recycledQuantity + item.wastedQuantity;
+
+export default class ReturnServices {
+  // Generate return authorization number
+  private generateReturnNumber = async (tx: TransactionClient): Promise<string> => {
+    const date = new Date();
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const prefix = `${await getSetting("numbering.returnPrefix")}-${year}${month}-`;
+    const returnCount = await tx.returnAuthorization.count({
+      where: {
+        rmaNumber: { startsWith: prefix },
+      },
+    });
+
+    return `${prefix}${String(returnCount + 1).padStart(5, "0")}`;
+  };
+
+  // Search return authorizations with pagination
+  searchReturnsService = async (
+    params: SearchParams,
+    scope?: WarehouseScope,
+  ): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+    const sort = params.sort || { field: "createdAt", order: "desc" };
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    if (search) {
+      where.AND.push({
+        OR: [
+          { rmaNumber: { contains: search, mode: "insensitive" } },
+          { reason: { contains: search, mode: "insensitive" } },
+          { order: { orderNumber: { contains: search, mode: "insensitive" } } },
+          { order: { customerName: { contains: search, mode: "insensitive" } } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.status) {
+      where.AND.push({ status: filters.status });
+    }
+    if (filters.orderId) {
+      where.AND.push({ orderId: filters.orderId });
+    }
+    if (filters.warehouseId) {
+      where.AND.push({ warehouseId: filters.warehouseId });
+    }
+    if (filters.startDate) {
+      where.AND.push({ createdAt: { gte: new Date(filters.startDate) } });
+    }
+    if (filters.endDate) {
+      where.AND.push({ createdAt: { lte: new Date(filters.endDate) } });
+    }
+
+    // Restrict to returns coming back to warehouses in scope
+    if (scope) {
+      where.AND.push({ warehouseId: { in: scope } });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort.field.includes(".")) {
+      const [relation, field] = sort.field.split(".");
+      orderBy[relation] = { [field]: sort.order };
+    } else {
+      orderBy[sort.field] = sort.order;
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.returnAuthorization.findMany({
+        where,
+        include: {
+          order: {
+            select: { id: true, orderNumber: true, customerName: true },
+          },
+          warehouse: {
+            select: { id: true, name: true, code: true },
+          },
+          _count: {
+            select: { items: true },
+          },
+        },
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.returnAuthorization.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET return authorization by ID (single record)
+  getReturnByIdService = async (id: string, scope?: WarehouseScope) => {
+    const returnAuthorization = await prisma.returnAuthorization.findUnique({
+      where: { id },
+      include: returnInclude,
+    });
+
+    // Returns to warehouses outside the caller's scope are treated as missing
+    if (!returnAuthorization || !canAccessWarehouse(scope, returnAuthorization.warehouseId)) {
+      throw new NotFoundError("Return authorization");
+    }
+
+    return returnAuthorization;
+  };
+
+  // POST authorize the return of shipped units
+  createReturnService = async (data: CreateReturnInput, scope?: WarehouseScope) => {
+    return await prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id: data.orderId },
+        include: {
+          items: {
+            include: {
+              product: {
+                select: { name: true },
+              },
+              returnItems: {
+                where: { returnAuthorization: { status: { not: "CANCELLED" } } },
+                select: { quantity: true },
+              },
+            },
+          },
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundError("Order");
+      }
+
+      if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+        throw new InvalidTransitionError(`Cannot return items of an order that is ${order.status}`, {
+          from: order.status,
+          to: "RETURNED",
+        });
+      }
+
+      const warehouseId = data.warehouseId ?? order.fulfillmentWarehouseId;
+      if (!warehouseId) {
+        throw new ValidationError("warehouseId is required for orders without a fulfillment warehouse");
+      }
+
+      assertWarehouseAccess(scope, warehouseId);
+
+      const warehouse = await tx.warehouse.findUnique({ where: { id: warehouseId } });
+      if (!warehouse) {
+        throw new NotFoundError("Warehouse");
+      }
+
+      const quantities = new Map<string, number>();
+      for (const line of data.items) {
+        quantities.set(line.orderItemId, (quantities.get(line.orderItemId) ?? 0) + line.quantity);
+      }
+
+      for (const [orderItemId, quantity] of quantities) {
+        const item = order.items.find((orderItem) => orderItem.id === orderItemId);
+        if (!item) {
+          throw new NotFoundError("Order item", `Order item ${orderItemId} is not part of this order`);
+        }
+
+        // Units already on another open or completed return cannot be returned twice
+        const authorized = item.returnItems.reduce((sum, returnItem) => sum + returnItem.quantity, 0);
+        const returnable = item.shippedQuantity - authorized;
+        if (quantity > returnable) {
+          throw new ValidationError(
+            `Only ${Math.max(0, returnable)} shipped unit(s) of ${item.product.name} can still be returned`,
+          );
+        }
+      }
+
+      return await tx.returnAuthorization.create({
+        data: {
+          rmaNumber: await this.generateReturnNumber(tx),
+          orderId: order.id,
+          warehouseId,
+          status: "REQUESTED",
+          reason: data.reason,
+          notes: data.notes,
+          createdById: data.createdById,
+          items: {
+            create: [...quantities].map(([orderItemId, quantity]) => ({
+              orderItemId,
+              quantity,
+              reason: data.items.find((line) => line.orderItemId === orderItemId && line.reason)?.reason,
+            })),
+          },
+        },
+        include: returnInclude,
+      });
+    });
+  };
+
+  // POST record that the returned parcel arrived at the warehouse
+  receiveReturnService = async (id: string, data: ReceiveReturnInput, scope?: WarehouseScope) => {
+    const existing = await prisma.returnAuthorization.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new NotFoundError("Return authorization");
+    }
+
+    assertWarehouseAccess(scope, existing.warehouseId);
+
+    if (existing.status !== "REQUESTED") {
+      throw new InvalidTransitionError(`Cannot receive a return that is ${existing.status}`, {
+        from: existing.status,
+        to: "RECEIVED",
+      });
+    }
+
+    return await prisma.returnAuthorization.update({
+      where: { id },
+      data: { status: "RECEIVED", receivedAt: data.receivedAt ?? new Date() },
+      include: returnInclude,
+    });
+  };
+
+  // POST inspect received units and route each one by its disposition:
+  // RESTOCK -> back into available stock (RETURN transaction)
+  // REFURBISH -> RETURN transaction recorded outside sellable stock
+  // RECYCLE -> recycling record with the carbon saved
+  // WASTE -> WASTE transaction carrying the carbon impact of the write-off
+  inspectReturnService = async (id: string, data: InspectReturnInput, scope?: WarehouseScope) => {
+    return await prisma.$transaction(async (tx) => {
+      const returnAuthorization = await tx.returnAuthorization.findUnique({
+        where: { id },
+        include: {
+          order: {
+            select: { id: true, orderNumber: true, status: true },
+          },
+          items: {
+            include: {
+              orderItem: {
+                include: {
+                  product: {
+                    select: { id: true, name: true, weight: true, carbonFootprintKg: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!returnAuthorization) {
+        throw new NotFoundError("Return authorization");
+      }
+
+      assertWarehouseAccess(scope, returnAuthorization.warehouseId);
+
+      if (returnAuthorization.status !== "RECEIVED") {
+        throw new InvalidTransitionError(
+          `Cannot inspect a return that is ${returnAuthorization.status}`,
+          { from: returnAuthorization.status, to: "COMPLETED" },
+        );
+      }
+
+      const { rmaNumber, warehouseId } = returnAuthorization;
+      const inspectedItemIds = new Set<string>();
+      const movements: Record<"RESTOCK" | "REFURBISH" | "WASTE", { productId: string; quantity: number }[]> = {
+        RESTOCK: [],
+        REFURBISH: [],
+        WASTE: [],
+      };
+      let wasteCarbonKg = 0;
+
+      const [landfillKgPerKg, recyclingSavedKgPerKg] = await Promise.all([
+        getSetting("carbon.landfillKgPerKg"),
+        getSetting("carbon.recyclingSavedKgPerKg"),
+      ]);
+
+      for (const inspection of data.inspections) {
+        const item = returnAuthorization.items.find((returnItem) => returnItem.id === inspection.returnItemId);
+        if (!item) {
+          throw new NotFoundError("Return item", `Return item ${inspection.returnItemId} is not part of this return`);
+        }
+
+        const { product } = item.orderItem;
+        const outstanding = item.quantity - inspectedQuantity(item);
+        if (inspection.quantity > outstanding) {
+          throw new ValidationError(
+            `Only ${outstanding} returned unit(s) of ${product.name} are left to inspect`,
+          );
+        }
+
+        // Keep the in-memory rows current so repeated inspections of one line add up
+        item[DISPOSITION_FIELDS[inspection.disposition]] += inspection.quantity;
+        inspectedItemIds.add(item.id);
+
+        const weightKg = inspection.quantity * unitWeightKg(product);
+
+        if (inspection.disposition === "RECYCLE") {
+          await tx.recyclingRecord.create({
+            data: {
+              processingWarehouseId: warehouseId,
+              productId: product.id,
+              quantity: inspection.quantity,
+              weightKg,
+              recyclingType: inspection.recyclingType!,
+              method: inspection.method,
+              carbonSavedKg: weightKg * recyclingSavedKgPerKg,
+              landfillDivertedKg: weightKg,
+              processedById: data.inspectedById,
+            },
+          });
+          continue;
+        }
+
+        // A written-off unit loses its embodied footprint and adds the landfill emissions
+        if (inspection.disposition === "WASTE") {
+          wasteCarbonKg +=
+            inspection.quantity * (product.carbonFootprintKg ?? 0) + weightKg * landfillKgPerKg;
+        }
+
+        movements[inspection.disposition].push({ productId: product.id, quantity: inspection.quantity });
+      }
+
+      const transactionDefaults = {
+        warehouseId,
+        performedById: data.inspectedById,
+        referenceId: returnAuthorization.id,
+        referenceType: "RETURN",
+      };
+
+      if (movements.RESTOCK.length > 0) {
+        await transactionService.createTransactionInTx(tx, {
+          ...transactionDefaults,
+          type: "RETURN",
+          notes: `Restocked from return ${rmaNumber}`,
+          items: movements.RESTOCK,
+        });
+      }
+
+      if (movements.REFURBISH.length > 0) {
+        await transactionService.createTransactionInTx(tx, {
+          ...transactionDefaults,
+          type: "RETURN",
+          notes: `Sent to refurbishment from return ${rmaNumber}`,
+          outsideStock: true,
+          items: movements.REFURBISH,
+        });
+      }
+
+      if (movements.WASTE.length > 0) {
+        await transactionService.createTransactionInTx(tx, {
+          ...transactionDefaults,
+          type: "WASTE",
+          notes: `Written off from return ${rmaNumber}`,
+          outsideStock: true,
+          carbonImpactKg: wasteCarbonKg,
+          items: movements.WASTE,
+        });
+      }
+
+      for (const item of returnAuthorization.items.filter((returnItem) => inspectedItemIds.has(returnItem.id))) {
+        const inspectedNow = data.inspections
+          .filter((inspection) => inspection.returnItemId === item.id)
+          .reduce((sum, inspection) => sum + inspection.quantity, 0);
+
+        await tx.returnItem.update({
+          where: { id: item.id },
+          data: {
+            restockedQuantity: item.restockedQuantity,
+            refurbishedQuantity: item.refurbishedQuantity,
+            recycledQuantity: item.recycledQuantity,
+            wastedQuantity: item.wastedQuantity,
+          },
+        });
+
+        await tx.orderItem.update({
+          where: { id: item.orderItemId },
+          data: { returnedQuantity: { increment: inspectedNow } },
+        });
+      }
+
+      const completed = returnAuthorization.items.every((item) => inspectedQuantity(item) >= item.quantity);
+
+      await tx.returnAuthorization.update({
+        where: { id },
+        data: {
+          inspectedById: data.inspectedById,
+          notes: data.notes,
+          ...(completed && { status: "COMPLETED", completedAt: new Date() }),
+        },
+      });
+
+      // The order is RETURNED once every unit it was placed for has come back
+      const orderItems = await tx.orderItem.findMany({
+        where: { orderId: returnAuthorization.orderId },
+        select: { quantity: true, returnedQuantity: true },
+      });
+
+      if (
+        ["SHIPPED", "DELIVERED"].includes(returnAuthorization.order.status) &&
+        orderItems.every((item) => item.returnedQuantity >= item.quantity)
+      ) {
+        await tx.order.update({
+          where: { id: returnAuthorization.orderId },
+          data: { status: "RETURNED" },
+        });
+      }
+
+      return await tx.returnAuthorization.findUnique({ where: { id }, include: returnInclude });
+    });
+  };
+
+  // POST cancel a return before its units arrive
+  cancelReturnService = async (id: string, scope?: WarehouseScope) => {
+    const existing = await prisma.returnAuthorization.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new NotFoundError("Return authorization");
+    }
+
+    assertWarehouseAccess(scope, existing.warehouseId);
+
+    if (existing.status !== "REQUESTED") {
+      throw new InvalidTransitionError(`Cannot cancel a return that is ${existing.status}`, {
+        from: existing.status,
+        to: "CANCELLED",
+      });
+    }
+
+    return await prisma.returnAuthorization.update({
+      where: { id },
+      data: { status: "CANCELLED" },
+      include: returnInclude,
+    });
+  };
+}
@@ -0,0 +1,212 @@
+import { prisma } from "../lib/db";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import {
+  SETTING_DEFINITIONS,
+  SettingDefinition,
+  SettingValueType,
+  invalidateSettingsCache,
+  isDefinedSetting,
+  parseSettingValue,
+  serializeSettingValue,
+} from "../lib/settings";
+import { CreateSettingInput, UpdateSettingInput } from "../schemas/settingSchemas";
+
+const updatedBySelect = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+  },
+};
+
+export default class SettingServices {
+  // LIST settings (declared defaults merged with stored values), optionally by category
+  listSettingsService = async (category?: string): Promise<any[]> => {
+    const rows = await prisma.systemSetting.findMany({
+      where: category ? { category: category.toUpperCase() } : undefined,
+      include: { updatedBy: updatedBySelect },
+    });
+
+    const rowsByKey = new Map(rows.map((row) => [row.key, row]));
+    const settings: any[] = [];
+
+    for (const [key, definition] of Object.entries(SETTING_DEFINITIONS) as [string, SettingDefinition][]) {
+      if (category && definition.category !== category.toUpperCase()) continue;
+      settings.push(this.formatSetting(key, rowsByKey.get(key)));
+      rowsByKey.delete(key);
+    }
+
+    // Free-form settings that have no declared definition
+    for (const [key, row] of rowsByKey) {
+      settings.push(this.formatSetting(key, row));
+    }
+
+    return settings.sort((a, b) =>
+      a.category === b.category ? a.key.localeCompare(b.key) : a.category.localeCompare(b.category),
+    );
+  };
+
+  // LIST distinct categories
+  getCategoriesService = async (): Promise<string[]> => {
+    const rows = await prisma.systemSetting.findMany({
+      select: { category: true },
+      distinct: ["category"],
+    });
+
+    const categories = new Set<string>(rows.map((row) => row.category));
+    for (const definition of Object.values(SETTING_DEFINITIONS) as SettingDefinition[]) {
+      categories.add(definition.category);
+    }
+
+    return [...categories].sort();
+  };
+
+  // GET setting by key
+  getSettingService = async (key: string): Promise<any> => {
+    const row = await prisma.systemSetting.findUnique({
+      where: { key },
+      include: { updatedBy: updatedBySelect },
+    });
+
+    if (!row && !isDefinedSetting(key)) {
+      throw new NotFoundError("Setting");
+    }
+
+    return this.formatSetting(key, row);
+  };
+
+  // CREATE a free-form setting. Declared settings already exist and are changed with update.
+  createSettingService = async (data: CreateSettingInput): Promise<any> => {
+    if (isDefinedSetting(data.key)) {
+      throw new ConflictError(`Setting ${data.key} already exists`);
+    }
+
+    const existing = await prisma.systemSetting.findUnique({
+      where: { key: data.key },
+    });
+    if (existing) {
+      throw new ConflictError(`Setting ${data.key} already exists`);
+    }
+
+    const valueType = data.valueType || "STRING";
+
+    const value = serializeSettingValue(data.value, valueType);
+    parseSettingValue(value, valueType);
+
+    const row = await prisma.systemSetting.create({
+      data: {
+        key: data.key,
+        value,
+        valueType,
+        category: (data.category || "GENERAL").toUpperCase(),
+        description: data.description,
+        updatedById: data.updatedById,
+      },
+      include: { updatedBy: updatedBySelect },
+    });
+
+    invalidateSettingsCache();
+    return this.formatSetting(row.key, row);
+  };
+
+  // UPDATE setting value (validated against its declared type)
+  updateSettingService = async (
+    key: string,
+    data: UpdateSettingInput,
+    updatedById: string,
+  ): Promise<any> => {
+    const existing = await prisma.systemSetting.findUnique({
+      where: { key },
+    });
+
+    const definition: SettingDefinition | undefined = isDefinedSetting(key)
+      ? SETTING_DEFINITIONS[key]
+      : undefined;
+
+    if (!existing && !definition) {
+      throw new NotFoundError("Setting");
+    }
+
+    const valueType = definition?.valueType ?? (existing!.valueType as SettingValueType);
+    const value = serializeSettingValue(data.value, valueType);
+    parseSettingValue(value, valueType, definition);
+
+    const row = await prisma.systemSetting.upsert({
+      where: { key },
+      create: {
+        key,
+        value,
+        valueType,
+        category: definition?.category ?? "GENERAL",
+        description: data.description ?? definition?.description,
+        updatedById,
+      },
+      update: {
+        value,
+        valueType,
+        description: data.description,
+        updatedById,
+      },
+      include: { updatedBy: updatedBySelect },
+    });
+
+    invalidateSettingsCache();
+    return this.formatSetting(key, row);
+  };
+
+  // DELETE setting. Declared settings fall back to their default value.
+  deleteSettingService = async (key: string): Promise<{ message: string }> => {
+    const existing = await prisma.systemSetting.findUnique({
+      where: { key },
+    });
+
+    if (!existing) {
+      if (isDefinedSetting(key)) {
+        return { message: "Setting already uses its default value" };
+      }
+      throw new NotFoundError("Setting");
+    }
+
+    await prisma.systemSetting.delete({
+      where: { key },
+    });
+
+    invalidateSettingsCache();
+    return {
+      message: isDefinedSetting(key)
+        ? "Setting reset to its default value"
+        : "Setting deleted successfully",
+    };
+  };
+
+  // Helper: shape a setting for API responses
+  private formatSetting = (key: string, row?: any) => {
+    const definition: SettingDefinition | undefined = isDefinedSetting(key)
+      ? SETTING_DEFINITIONS[key]
+      : undefined;
+    const valueType = (definition?.valueType ?? row?.valueType ?? "STRING") as SettingValueType;
+
+    let value: unknown = definition?.defaultValue;
+    if (row) {
+      try {
+        value = parseSettingValue(row.value, valueType, definition);
+      } catch {
+        value = row.value;
+      }
+    }
+
+    return {
+      key,
+      value,
+      valueType,
+      category: definition?.category ?? row?.category ?? "GENERAL",
+      description: row?.description ?? definition?.description ?? null,
+      defaultValue: definition?.defaultValue ?? null,
+      isDefault: !row,
+      isDeclared: !!definition,
+      updatedAt: row?.updatedAt ?? null,
+      updatedBy: row?.updatedBy ?? null,
+    };
+  };
+}
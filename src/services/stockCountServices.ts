@@ -0,0 +1,551 @@
+import { prisma } from "../lib/db";
+import { InvalidTransitionError, NotFoundError, ValidationError } from "../lib/errors";
+import { getSetting } from "../lib/settings";
+import { assertWarehouseAccess, canAccessWarehouse, WarehouseScope } from "../lib/warehouseScope";
+import { CountInput, OpenSessionInput, ReviewDecision } from "../schemas/stockCountSchemas";
+import TransactionService from "./transactionServices";
+
+const transactionService = new TransactionService();
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// OPEN -> IN_REVIEW -> CLOSED, CANCELLED while still OPEN
+const validTransitions: Record<string, string[]> = {
+  OPEN: ["IN_REVIEW", "CANCELLED"],
+  IN_REVIEW: ["CLOSED"],
+  CLOSED: [],
+  CANCELLED: [],
+};
+
+const userSelect = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+  },
+};
+
+const sessionInclude = {
+  warehouse: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+    },
+  },
+  category: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  openedBy: userSelect,
+  reviewedBy: userSelect,
+  counts: {
+    include: {
+      countedBy: userSelect,
+      inventory: {
+        include: {
+          product: {
+            select: {
+              id: true,
+              sku: true,
+              name: true,
+              unit: true,
+              costPrice: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: { countDate: "asc" as const },
+  },
+};
+
+export default class StockCountServices {
+  // Generate session number
+  private generateSessionNumber = async (): Promise<string> => {
+    const date = new Date();
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const prefix = `${await getSetting("numbering.stockCountPrefix")}-${year}${month}-`;
+    const sessionCount = await prisma.stockCountSession.count({
+      where: {
+        sessionNumber: { startsWith: prefix },
+      },
+    });
+
+    return `${prefix}${String(sessionCount + 1).padStart(5, "0")}`;
+  };
+
+  // MAIN SEARCH METHOD with pagination
+  searchSessionsService = async (
+    params: SearchParams,
+    scope?: WarehouseScope,
+  ): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+
+    const sort = params.sort || { field: "openedAt", order: "desc" };
+
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    if (search) {
+      where.AND.push({
+        OR: [
+          { sessionNumber: { contains: search, mode: "insensitive" } },
+          { aisle: { contains: search, mode: "insensitive" } },
+          { notes: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.status) {
+      where.AND.push({ status: filters.status });
+    }
+    if (filters.warehouseId) {
+      where.AND.push({ warehouseId: filters.warehouseId });
+    }
+    if (filters.categoryId) {
+      where.AND.push({ categoryId: filters.categoryId });
+    }
+    if (filters.startDate) {
+      where.AND.push({ openedAt: { gte: new Date(filters.startDate) } });
+    }
+    if (filters.endDate) {
+      where.AND.push({ openedAt: { lte: new Date(filters.endDate) } });
+    }
+
+    if (scope) {
+      where.AND.push({ warehouseId: { in: scope } });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort && sort.field) {
+      if (sort.field.includes(".")) {
+        const [relation, field] = sort.field.split(".");
+        orderBy[relation] = { [field]: sort.order };
+      } else {
+        orderBy[sort.field] = sort.order;
+      }
+    } else {
+      orderBy.openedAt = "desc";
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.stockCountSession.findMany({
+        where,
+        include: {
+          warehouse: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+            },
+          },
+          category: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          openedBy: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          _count: {
+            select: { counts: true },
+          },
+        },
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.stockCountSession.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET session with its counts and variance summary
+  getSessionByIdService = async (id: string, scope?: WarehouseScope): Promise<any> => {
+    const session = await prisma.stockCountSession.findUnique({
+      where: { id },
+      include: sessionInclude,
+    });
+
+    if (!session || !canAccessWarehouse(scope, session.warehouseId)) {
+      throw new NotFoundError("Stock count session");
+    }
+
+    const withVariance = session.counts.filter((count) => count.variance !== 0);
+
+    return {
+      ...session,
+      allowedTransitions: validTransitions[session.status] || [],
+      summary: {
+        totalCounts: session.counts.length,
+        pending: session.counts.filter((count) => count.status === "PENDING").length,
+        withVariance: withVariance.length,
+        netVariance: session.counts.reduce((sum, count) => sum + count.variance, 0),
+        varianceValue: withVariance.reduce(
+          (sum, count) => sum + count.variance * (count.inventory?.product.costPrice || 0),
+          0,
+        ),
+      },
+    };
+  };
+
+  // GET the lines to count for a session. System quantities are left out so counts stay blind.
+  getCountSheetService = async (id: string, scope?: WarehouseScope): Promise<any[]> => {
+    const session = await this.getSessionOrThrow(id, scope);
+
+    const inventory = await prisma.inventory.findMany({
+      where: this.sessionInventoryWhere(session),
+      select: {
+        id: true,
+        aisle: true,
+        shelf: true,
+        bin: true,
+        product: {
+          select: {
+            id: true,
+            sku: true,
+            name: true,
+            unit: true,
+          },
+        },
+        stockCounts: {
+          where: { sessionId: id },
+          select: {
+            id: true,
+            countedQty: true,
+            status: true,
+          },
+        },
+      },
+      orderBy: [{ aisle: "asc" }, { shelf: "asc" }, { bin: "asc" }],
+    });
+
+    return inventory.map(({ stockCounts, ...line }) => ({
+      ...line,
+      count: stockCounts[0] || null,
+    }));
+  };
+
+  // OPEN a count session for a warehouse, optionally limited to an aisle and/or category
+  openSessionService = async (data: OpenSessionInput, scope?: WarehouseScope): Promise<any> => {
+    assertWarehouseAccess(scope, data.warehouseId);
+
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: data.warehouseId },
+    });
+    if (!warehouse) throw new NotFoundError("Warehouse");
+
+    if (data.categoryId) {
+      const category = await prisma.category.findUnique({
+        where: { id: data.categoryId },
+      });
+      if (!category) throw new NotFoundError("Category");
+    }
+
+    return await prisma.stockCountSession.create({
+      data: {
+        sessionNumber: await this.generateSessionNumber(),
+        warehouseId: data.warehouseId,
+        aisle: data.aisle || null,
+        categoryId: data.categoryId || null,
+        status: "OPEN",
+        openedById: data.openedById,
+        notes: data.notes,
+      },
+      include: sessionInclude,
+    });
+  };
+
+  // SUBMIT counted quantities. The system quantity is snapshotted at submission time;
+  // recounting a line before review replaces the earlier count.
+  submitCountsService = async (
+    id: string,
+    items: CountInput[],
+    countedById: string,
+    scope?: WarehouseScope,
+  ): Promise<any> => {
+    const session = await this.getSessionOrThrow(id, scope);
+
+    if (session.status !== "OPEN") {
+      throw new InvalidTransitionError("Counts can only be submitted while the session is open");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const item of items) {
+        const { countedQty } = item;
+
+        const inventory = await tx.inventory.findFirst({
+          where: {
+            ...this.sessionInventoryWhere(session),
+            productId: item.productId,
+          },
+        });
+
+        if (!inventory) {
+          throw new ValidationError(`Product ${item.productId} is not part of this count`);
+        }
+
+        const countData = {
+          countedQty,
+          systemQty: inventory.quantity,
+          variance: countedQty - inventory.quantity,
+          countedById,
+          countDate: new Date(),
+          notes: item.notes,
+        };
+
+        const existing = await tx.stockCount.findFirst({
+          where: { sessionId: id, inventoryId: inventory.id },
+        });
+
+        if (existing) {
+          await tx.stockCount.update({
+            where: { id: existing.id },
+            data: countData,
+          });
+        } else {
+          await tx.stockCount.create({
+            data: {
+              ...countData,
+              warehouseId: session.warehouseId,
+              inventoryId: inventory.id,
+              sessionId: id,
+              status: "PENDING",
+            },
+          });
+        }
+      }
+    });
+
+    return await this.getSessionByIdService(id, scope);
+  };
+
+  // Finish counting and hand the session over for review (OPEN -> IN_REVIEW)
+  completeSessionService = async (id: string, scope?: WarehouseScope): Promise<any> => {
+    const session = await this.getForTransition(id, "IN_REVIEW", scope);
+
+    const countCount = await prisma.stockCount.count({ where: { sessionId: id } });
+    if (countCount === 0) {
+      throw new ValidationError("Stock count session has no counts to review");
+    }
+
+    await prisma.stockCountSession.update({
+      where: { id: session.id },
+      data: { status: "IN_REVIEW" },
+    });
+
+    return await this.getSessionByIdService(id, scope);
+  };
+
+  // REVIEW pending counts. Approved variances are posted as a single ADJUSTMENT
+  // transaction; the session closes once nothing is left pending.
+  reviewSessionService = async (
+    id: string,
+    decisions: ReviewDecision[],
+    reviewedById: string,
+    scope?: WarehouseScope,
+  ): Promise<any> => {
+    const session = await this.getSessionOrThrow(id, scope);
+
+    if (session.status !== "IN_REVIEW") {
+      throw new InvalidTransitionError("Only sessions in review can be reviewed");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const counts = await tx.stockCount.findMany({
+        where: {
+          sessionId: id,
+          id: { in: decisions.map((decision) => decision.countId) },
+        },
+        include: { inventory: true },
+      });
+
+      const now = new Date();
+      const adjustments: { productId: string; quantity: number; expectedVersion: number }[] = [];
+      const adjustedCountIds: string[] = [];
+      const reviewedCountIds: string[] = [];
+
+      for (const decision of decisions) {
+        const count = counts.find((c) => c.id === decision.countId);
+
+        if (!count) {
+          throw new ValidationError(`Stock count ${decision.countId} is not part of this session`);
+        }
+        if (count.status !== "PENDING") {
+          throw new InvalidTransitionError(`Stock count ${decision.countId} has already been reviewed`);
+        }
+
+        if (decision.action === "APPROVE" && count.variance !== 0 && count.inventory) {
+          // Apply the variance on top of the current quantity so movements since the count are
+          // kept; the version makes the adjustment fail if stock moves before it is written
+          adjustments.push({
+            productId: count.inventory.productId,
+            quantity: Math.max(0, count.inventory.quantity + count.variance),
+            expectedVersion: count.inventory.version,
+          });
+          adjustedCountIds.push(count.id);
+        } else {
+          reviewedCountIds.push(count.id);
+        }
+      }
+
+      if (adjustments.length > 0) {
+        await transactionService.createTransactionInTx(tx, {
+          type: "ADJUSTMENT",
+          warehouseId: session.warehouseId,
+          performedById: reviewedById,
+          referenceId: session.id,
+          referenceType: "STOCK_COUNT",
+          notes: `Stock count ${session.sessionNumber}`,
+          items: adjustments,
+        }, scope);
+
+        await tx.stockCount.updateMany({
+          where: { id: { in: adjustedCountIds } },
+          data: { status: "ADJUSTED", reviewedAt: now, adjustedAt: now },
+        });
+      }
+
+      if (reviewedCountIds.length > 0) {
+        await tx.stockCount.updateMany({
+          where: { id: { in: reviewedCountIds } },
+          data: { status: "REVIEWED", reviewedAt: now },
+        });
+      }
+
+      const pending = await tx.stockCount.count({
+        where: { sessionId: id, status: "PENDING" },
+      });
+
+      await tx.stockCountSession.update({
+        where: { id },
+        data: {
+          reviewedById,
+          status: pending === 0 ? "CLOSED" : undefined,
+          closedAt: pending === 0 ? now : undefined,
+        },
+      });
+    });
+
+    return await this.getSessionByIdService(id, scope);
+  };
+
+  // Cancel an open session, discarding its counts from review
+  cancelSessionService = async (
+    id: string,
+    reason: string | undefined,
+    scope?: WarehouseScope,
+  ): Promise<any> => {
+    const session = await this.getForTransition(id, "CANCELLED", scope);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.stockCount.updateMany({
+        where: { sessionId: id, status: "PENDING" },
+        data: { status: "REVIEWED", reviewedAt: new Date() },
+      });
+
+      await tx.stockCountSession.update({
+        where: { id },
+        data: {
+          status: "CANCELLED",
+          closedAt: new Date(),
+          notes: reason
+            ? [session.notes, `Cancelled: ${reason}`].filter(Boolean).join("\n")
+            : undefined,
+        },
+      });
+    });
+
+    return await this.getSessionByIdService(id, scope);
+  };
+
+  // Helper: load a session the caller may access
+  private getSessionOrThrow = async (id: string, scope?: WarehouseScope) => {
+    const session = await prisma.stockCountSession.findUnique({
+      where: { id },
+    });
+
+    if (!session || !canAccessWarehouse(scope, session.warehouseId)) {
+      throw new NotFoundError("Stock count session");
+    }
+
+    return session;
+  };
+
+  // Helper: load a session and validate the requested status transition
+  private getForTransition = async (id: string, nextStatus: string, scope?: WarehouseScope) => {
+    const session = await this.getSessionOrThrow(id, scope);
+
+    const allowedNextStatuses = validTransitions[session.status] || [];
+    if (!allowedNextStatuses.includes(nextStatus)) {
+      throw new InvalidTransitionError(
+        `Invalid status transition from ${session.status} to ${nextStatus}`,
+        { from: session.status, to: nextStatus },
+      );
+    }
+
+    return session;
+  };
+
+  // Helper: inventory rows covered by a session's warehouse/aisle/category
+  private sessionInventoryWhere = (session: {
+    warehouseId: string;
+    aisle: string | null;
+    categoryId: string | null;
+  }) => {
+    const where: any = { warehouseId: session.warehouseId };
+    if (session.aisle) where.aisle = session.aisle;
+    if (session.categoryId) where.product = { categoryId: session.categoryId };
+    return where;
+  };
+}
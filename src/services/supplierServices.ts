@@ -0,0 +1,519 @@
+import { prisma } from "../lib/db";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import {
+  CreateSupplierInput,
+  SupplierProductInput,
+  UpdateSupplierInput,
+  UpdateSupplierProductInput,
+} from "../schemas/supplierSchemas";
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export default class SupplierServices {
+  // MAIN SEARCH METHOD with pagination
+  searchSuppliersService = async (params: SearchParams): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+
+    const sort = params.sort || { field: "name", order: "asc" };
+
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    // Search across supplier fields
+    if (search) {
+      where.AND.push({
+        OR: [
+          { name: { contains: search, mode: "insensitive" } },
+          { code: { contains: search, mode: "insensitive" } },
+          { contactName: { contains: search, mode: "insensitive" } },
+          { email: { contains: search, mode: "insensitive" } },
+          { city: { contains: search, mode: "insensitive" } },
+          { country: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.isActive !== undefined) {
+      where.AND.push({ isActive: filters.isActive === true || filters.isActive === "true" });
+    }
+    if (filters.isCertifiedEco !== undefined) {
+      where.AND.push({
+        isCertifiedEco: filters.isCertifiedEco === true || filters.isCertifiedEco === "true",
+      });
+    }
+    if (filters.country) {
+      where.AND.push({ country: filters.country });
+    }
+    if (filters.minSustainabilityRating) {
+      where.AND.push({
+        sustainabilityRating: { gte: Number(filters.minSustainabilityRating) },
+      });
+    }
+    if (filters.paymentTerms) {
+      where.AND.push({ paymentTerms: filters.paymentTerms });
+    }
+    if (filters.productId) {
+      where.AND.push({
+        products: {
+          some: { productId: filters.productId },
+        },
+      });
+    }
+    if (filters.warehouseId) {
+      where.AND.push({
+        warehouses: {
+          some: { id: filters.warehouseId },
+        },
+      });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort && sort.field) {
+      if (sort.field.includes(".")) {
+        const [relation, field] = sort.field.split(".");
+        orderBy[relation] = { [field]: sort.order };
+      } else if (sort.field === "productCount") {
+        orderBy.products = { _count: sort.order };
+      } else {
+        orderBy[sort.field] = sort.order;
+      }
+    } else {
+      orderBy.name = "asc";
+    }
+
+    // Get data and count
+    const [data, total] = await Promise.all([
+      prisma.supplier.findMany({
+        where,
+        include: {
+          warehouses: {
+            select: {
+              id: true,
+              name: true,
+              code: true,
+            },
+          },
+          _count: {
+            select: {
+              products: true,
+              purchaseOrders: true,
+            },
+          },
+        },
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.supplier.count({ where }),
+    ]);
+
+    return {
+      data: data.map((supplier) => this.formatSupplier(supplier)),
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET supplier by ID (single record)
+  getSupplierByIdService = async (id: string): Promise<any> => {
+    const supplier = await prisma.supplier.findUnique({
+      where: { id },
+      include: {
+        products: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                sku: true,
+                name: true,
+                unit: true,
+                costPrice: true,
+                isActive: true,
+              },
+            },
+          },
+          orderBy: { product: { name: "asc" } },
+        },
+        warehouses: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+            city: true,
+            country: true,
+          },
+        },
+        _count: {
+          select: {
+            products: true,
+            purchaseOrders: true,
+          },
+        },
+      },
+    });
+
+    if (!supplier) {
+      throw new NotFoundError("Supplier");
+    }
+
+    return this.formatSupplier(supplier);
+  };
+
+  // CREATE supplier
+  createSupplierService = async (data: CreateSupplierInput): Promise<any> => {
+    const existing = await prisma.supplier.findUnique({
+      where: { code: data.code },
+    });
+
+    if (existing) {
+      throw new ConflictError("Supplier code already exists");
+    }
+
+    if (data.warehouseIds) {
+      await this.validateWarehouses(data.warehouseIds);
+    }
+
+    const supplier = await prisma.supplier.create({
+      data: {
+        code: data.code,
+        name: data.name,
+        contactName: data.contactName,
+        email: data.email,
+        phone: data.phone,
+        address: data.address,
+        city: data.city,
+        country: data.country,
+        sustainabilityRating: data.sustainabilityRating ?? 0,
+        isCertifiedEco: data.isCertifiedEco ?? false,
+        certifications: this.serializeCertifications(data.certifications),
+        isActive: data.isActive ?? true,
+        paymentTerms: data.paymentTerms || "NET30",
+        warehouses: data.warehouseIds
+          ? { connect: data.warehouseIds.map((id: string) => ({ id })) }
+          : undefined,
+      },
+      include: {
+        warehouses: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+      },
+    });
+
+    return this.formatSupplier(supplier);
+  };
+
+  // UPDATE supplier
+  updateSupplierService = async (id: string, data: UpdateSupplierInput): Promise<any> => {
+    const existing = await prisma.supplier.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Supplier");
+    }
+
+    // Check for duplicate code (only if code is being changed)
+    if (data.code && data.code !== existing.code) {
+      const existingWithCode = await prisma.supplier.findUnique({
+        where: { code: data.code },
+      });
+      if (existingWithCode) {
+        throw new ConflictError("Supplier code already exists");
+      }
+    }
+
+    const supplier = await prisma.supplier.update({
+      where: { id },
+      data: {
+        code: data.code,
+        name: data.name,
+        contactName: data.contactName,
+        email: data.email,
+        phone: data.phone,
+        address: data.address,
+        city: data.city,
+        country: data.country,
+        sustainabilityRating: data.sustainabilityRating,
+        isCertifiedEco: data.isCertifiedEco,
+        certifications:
+          data.certifications !== undefined
+            ? this.serializeCertifications(data.certifications)
+            : undefined,
+        isActive: data.isActive,
+        paymentTerms: data.paymentTerms,
+      },
+      include: {
+        warehouses: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+      },
+    });
+
+    return this.formatSupplier(supplier);
+  };
+
+  // DELETE supplier (only without purchase order history)
+  deleteSupplierService = async (id: string): Promise<{ message: string }> => {
+    const supplier = await prisma.supplier.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            purchaseOrders: true,
+          },
+        },
+      },
+    });
+
+    if (!supplier) {
+      throw new NotFoundError("Supplier");
+    }
+
+    if (supplier._count.purchaseOrders > 0) {
+      throw new ConflictError(
+        "Cannot delete supplier with purchase order history. Consider marking as inactive instead.",
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Remove product links first
+      await tx.supplierProduct.deleteMany({
+        where: { supplierId: id },
+      });
+
+      await tx.supplier.delete({
+        where: { id },
+      });
+    });
+
+    return { message: "Supplier deleted successfully" };
+  };
+
+  // =================== SUPPLIER PRODUCTS ===================
+
+  // POST link product to supplier
+  addSupplierProductService = async (
+    supplierId: string,
+    data: SupplierProductInput,
+  ): Promise<any> => {
+    const { productId, supplierSku, unitCost, leadTimeDays = 7, minOrderQty = 1 } = data;
+
+    const [supplier, product] = await Promise.all([
+      prisma.supplier.findUnique({ where: { id: supplierId } }),
+      prisma.product.findUnique({ where: { id: productId } }),
+    ]);
+
+    if (!supplier) throw new NotFoundError("Supplier");
+    if (!product) throw new NotFoundError("Product");
+
+    const existing = await prisma.supplierProduct.findUnique({
+      where: {
+        supplierId_productId: { supplierId, productId },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictError("Product is already linked to this supplier");
+    }
+
+    return await prisma.supplierProduct.create({
+      data: {
+        supplierId,
+        productId,
+        supplierSku,
+        unitCost,
+        leadTimeDays,
+        minOrderQty,
+      },
+      include: {
+        product: {
+          select: {
+            id: true,
+            sku: true,
+            name: true,
+          },
+        },
+      },
+    });
+  };
+
+  // PUT update supplier product terms
+  updateSupplierProductService = async (
+    supplierId: string,
+    productId: string,
+    data: UpdateSupplierProductInput,
+  ): Promise<any> => {
+    const existing = await prisma.supplierProduct.findUnique({
+      where: {
+        supplierId_productId: { supplierId, productId },
+      },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Supplier product");
+    }
+
+    return await prisma.supplierProduct.update({
+      where: { id: existing.id },
+      data: {
+        supplierSku: data.supplierSku,
+        unitCost: data.unitCost,
+        leadTimeDays: data.leadTimeDays,
+        minOrderQty: data.minOrderQty,
+      },
+      include: {
+        product: {
+          select: {
+            id: true,
+            sku: true,
+            name: true,
+          },
+        },
+      },
+    });
+  };
+
+  // DELETE unlink product from supplier
+  removeSupplierProductService = async (
+    supplierId: string,
+    productId: string,
+  ): Promise<{ message: string }> => {
+    const existing = await prisma.supplierProduct.findUnique({
+      where: {
+        supplierId_productId: { supplierId, productId },
+      },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Supplier product");
+    }
+
+    await prisma.supplierProduct.delete({
+      where: { id: existing.id },
+    });
+
+    return { message: "Product removed from supplier successfully" };
+  };
+
+  // =================== SUPPLIER WAREHOUSES ===================
+
+  // PUT replace the warehouses a supplier serves
+  setSupplierWarehousesService = async (
+    supplierId: string,
+    warehouseIds: string[],
+  ): Promise<any> => {
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: supplierId },
+    });
+
+    if (!supplier) {
+      throw new NotFoundError("Supplier");
+    }
+
+    await this.validateWarehouses(warehouseIds);
+
+    const updated = await prisma.supplier.update({
+      where: { id: supplierId },
+      data: {
+        warehouses: {
+          set: warehouseIds.map((id) => ({ id })),
+        },
+      },
+      include: {
+        warehouses: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+      },
+    });
+
+    return this.formatSupplier(updated);
+  };
+
+  // Helper: parse the certifications JSON column for API responses
+  private formatSupplier = <T extends { certifications: string | null }>(supplier: T) => {
+    let certifications: any[] = [];
+    if (supplier.certifications) {
+      try {
+        const parsed = JSON.parse(supplier.certifications);
+        certifications = Array.isArray(parsed) ? parsed : [parsed];
+      } catch {
+        certifications = [supplier.certifications];
+      }
+    }
+
+    return {
+      ...supplier,
+      certifications,
+    };
+  };
+
+  // Helper: store certifications as a JSON array string
+  private serializeCertifications = (
+    certifications: string | string[] | null | undefined,
+  ): string | null => {
+    if (certifications === undefined || certifications === null) return null;
+    if (typeof certifications === "string") return JSON.stringify([certifications]);
+    return JSON.stringify(certifications);
+  };
+
+  // Helper: ensure every warehouse exists
+  private validateWarehouses = async (warehouseIds: string[]): Promise<void> => {
+    const warehouses = await prisma.warehouse.findMany({
+      where: { id: { in: warehouseIds } },
+      select: { id: true },
+    });
+
+    if (warehouses.length !== new Set(warehouseIds).size) {
+      const foundIds = warehouses.map((w) => w.id);
+      const missingIds = warehouseIds.filter((id) => !foundIds.includes(id));
+      throw new NotFoundError("Warehouse", `Warehouses not found: ${missingIds.join(", ")}`);
+    }
+  };
+}
@@ -1,4 +1,14 @@
 import { prisma } from "../lib/db";
+import { NotFoundError } from "../lib/errors";
+import { unitWeightKg } from "../lib/weight";
+import {
+  CreateCarbonTrackingInput,
+  CreateMaterialFlowInput,
+  CreateRecyclingRecordInput,
+  UpdateCarbonTrackingInput,
+  UpdateMaterialFlowInput,
+  UpdateRecyclingRecordInput,
+} from "../schemas/sustainabilitySchemas";
 
 interface SearchParams {
   search: string;
@@ -59,43 +69,6 @@ interface SustainabilityDashboard {
   };
 }
 
-interface CreateCarbonTrackingInput {
-  scope: string; // SCOPE_1, SCOPE_2, SCOPE_3
-  category: string; // TRANSPORT, ENERGY, WASTE, MATERIALS
-  carbonKg: number;
-  sourceId?: string;
-  sourceType?: string;
-  measurementPeriod: string;
-  calculationMethod?: string;
-  notes?: string;
-}
-
-interface CreateRecyclingRecordInput {
-  processingWarehouseId: string;
-  productId: string;
-  quantity: number;
-  weightKg?: number;
-  recyclingType: string; // PLASTIC, PAPER, METAL, ELECTRONIC, ORGANIC
-  method: string; // MECHANICAL, CHEMICAL, COMPOSTING
-  carbonSavedKg?: number;
-  landfillDivertedKg?: number;
-  processedById: string;
-  // No notes field - doesn't exist in schema
-}
-
-interface CreateMaterialFlowInput {
-  materialType: string;
-  category: string; // INPUT, OUTPUT, WASTE, RECYCLED
-  quantity: number;
-  unit: string; // kg, tons, units
-  sourceId?: string;
-  sourceType?: string;
-  destId?: string;
-  destType?: string;
-  flowDate?: Date;
-  // No notes field - doesn't exist in schema
-}
-
 export default class SustainabilityServices {
   // ==================== CARBON TRACKING METHODS ====================
 
@@ -194,7 +167,7 @@ export default class SustainabilityServices {
     });
 
     if (!record) {
-      throw new Error("Carbon tracking record not found");
+      throw new NotFoundError("Carbon tracking record");
     }
 
     return record;
@@ -213,17 +186,12 @@ export default class SustainabilityServices {
       notes
     } = data;
 
-    if (!scope) throw new Error("Scope is required");
-    if (!category) throw new Error("Category is required");
-    if (carbonKg === undefined || carbonKg < 0) throw new Error("Valid carbon kg is required");
-    if (!measurementPeriod) throw new Error("Measurement period is required");
-
     // If sourceId is provided and sourceType is WAREHOUSE, validate warehouse exists
     if (sourceId && sourceType === "WAREHOUSE") {
       const warehouse = await prisma.warehouse.findUnique({
         where: { id: sourceId }
       });
-      if (!warehouse) throw new Error("Warehouse not found");
+      if (!warehouse) throw new NotFoundError("Warehouse");
     }
 
     return await prisma.carbonTracking.create({
@@ -251,13 +219,13 @@ export default class SustainabilityServices {
   };
 
   // Update carbon tracking
-  updateCarbonTrackingService = async (id: string, data: any): Promise<any> => {
+  updateCarbonTrackingService = async (id: string, data: UpdateCarbonTrackingInput): Promise<any> => {
     const existing = await prisma.carbonTracking.findUnique({
       where: { id }
     });
 
     if (!existing) {
-      throw new Error("Carbon tracking record not found");
+      throw new NotFoundError("Carbon tracking record");
     }
 
     return await prisma.carbonTracking.update({
@@ -277,7 +245,7 @@ export default class SustainabilityServices {
     });
 
     if (!existing) {
-      throw new Error("Carbon tracking record not found");
+      throw new NotFoundError("Carbon tracking record");
     }
 
     await prisma.carbonTracking.delete({
@@ -427,7 +395,7 @@ export default class SustainabilityServices {
     });
 
     if (!record) {
-      throw new Error("Recycling record not found");
+      throw new NotFoundError("Recycling record");
     }
 
     return record;
@@ -448,37 +416,30 @@ export default class SustainabilityServices {
       // No notes field
     } = data;
 
-    if (!processingWarehouseId) throw new Error("Processing warehouse ID is required");
-    if (!productId) throw new Error("Product ID is required");
-    if (!quantity || quantity < 0) throw new Error("Valid quantity is required");
-    if (!recyclingType) throw new Error("Recycling type is required");
-    if (!method) throw new Error("Method is required");
-    if (!processedById) throw new Error("Processed by user is required");
-
     // Validate warehouse exists
     const warehouse = await prisma.warehouse.findUnique({
       where: { id: processingWarehouseId }
     });
-    if (!warehouse) throw new Error("Processing warehouse not found");
+    if (!warehouse) throw new NotFoundError("Processing warehouse");
 
     // Validate product exists
     const product = await prisma.product.findUnique({
       where: { id: productId }
     });
-    if (!product) throw new Error("Product not found");
+    if (!product) throw new NotFoundError("Product");
 
     // Validate user exists
     const user = await prisma.user.findUnique({
       where: { id: processedById }
     });
-    if (!user) throw new Error("User not found");
+    if (!user) throw new NotFoundError("User");
 
     return await prisma.recyclingRecord.create({
       data: {
         processingWarehouseId,
         productId,
         quantity,
-        weightKg: weightKg || quantity * (product.weight || 1),
+        weightKg: weightKg || quantity * unitWeightKg(product),
         recyclingType,
         method,
         carbonSavedKg,
@@ -513,13 +474,13 @@ export default class SustainabilityServices {
   };
 
   // Update recycling record - FIXED: removed notes field
-  updateRecyclingRecordService = async (id: string, data: any): Promise<any> => {
+  updateRecyclingRecordService = async (id: string, data: UpdateRecyclingRecordInput): Promise<any> => {
     const existing = await prisma.recyclingRecord.findUnique({
       where: { id }
     });
 
     if (!existing) {
-      throw new Error("Recycling record not found");
+      throw new NotFoundError("Recycling record");
     }
 
     // RecyclingRecord schema doesn't have notes, so only update these fields
@@ -542,7 +503,7 @@ export default class SustainabilityServices {
     });
 
     if (!existing) {
-      throw new Error("Recycling record not found");
+      throw new NotFoundError("Recycling record");
     }
 
     await prisma.recyclingRecord.delete({
@@ -650,7 +611,7 @@ export default class SustainabilityServices {
     });
 
     if (!flow) {
-      throw new Error("Material flow record not found");
+      throw new NotFoundError("Material flow record");
     }
 
     return flow;
@@ -671,17 +632,12 @@ export default class SustainabilityServices {
       // No notes field
     } = data;
 
-    if (!materialType) throw new Error("Material type is required");
-    if (!category) throw new Error("Category is required");
-    if (!quantity || quantity < 0) throw new Error("Valid quantity is required");
-    if (!unit) throw new Error("Unit is required");
-
     // If sourceId is provided and sourceType is WAREHOUSE, validate warehouse exists
     if (sourceId && sourceType === "WAREHOUSE") {
       const warehouse = await prisma.warehouse.findUnique({
         where: { id: sourceId }
       });
-      if (!warehouse) throw new Error("Source warehouse not found");
+      if (!warehouse) throw new NotFoundError("Source warehouse");
     }
 
     // If destId is provided and destType is WAREHOUSE, validate warehouse exists
@@ -689,7 +645,7 @@ export default class SustainabilityServices {
       const warehouse = await prisma.warehouse.findUnique({
         where: { id: destId }
       });
-      if (!warehouse) throw new Error("Destination warehouse not found");
+      if (!warehouse) throw new NotFoundError("Destination warehouse");
     }
 
     return await prisma.materialFlow.create({
@@ -718,13 +674,13 @@ export default class SustainabilityServices {
   };
 
   // Update material flow - FIXED: removed notes field
-  updateMaterialFlowService = async (id: string, data: any): Promise<any> => {
+  updateMaterialFlowService = async (id: string, data: UpdateMaterialFlowInput): Promise<any> => {
     const existing = await prisma.materialFlow.findUnique({
       where: { id }
     });
 
     if (!existing) {
-      throw new Error("Material flow record not found");
+      throw new NotFoundError("Material flow record");
     }
 
     // MaterialFlow schema doesn't have notes, so only update quantity if provided
@@ -744,7 +700,7 @@ export default class SustainabilityServices {
     });
 
     if (!existing) {
-      throw new Error("Material flow record not found");
+      throw new NotFoundError("Material flow record");
     }
 
     await prisma.materialFlow.delete({
@@ -1,4 +1,17 @@
-import { prisma } from "../lib/db";
+import { prisma, TransactionClient } from "../lib/db";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors";
+import { StockMovementInput, recordStockMovement } from "../lib/inventoryLedger";
+import {
+  WarehouseScope,
+  assertWarehouseAccess,
+  canAccessWarehouse,
+  scopedWarehouseFilter,
+} from "../lib/warehouseScope";
+import { CreateTransactionInput, UpdateTransactionInput } from "../schemas/transactionSchemas";
+
+// Transactions posted by these documents are undone through the document itself; deleting
+// one alone would move the stock back while the order, transfer or delivery stays as it is
+const DOCUMENT_REFERENCE_TYPES = ["ORDER", "TRANSFER", "DELIVERY", "RETURN", "STOCK_COUNT"];
 
 interface TransactionSearchParams {
   search?: string;
@@ -39,13 +52,33 @@ export default class TransactionService {
     return `${prefix}-${timestamp}-${random}`;
   }
 
-  // Calculate reorder status
-  private calculateReorderStatus(quantity: number): string {
-    return quantity <= 10 ? "BELOW_REORDER" : "OK";
+  // Ledger change for one transaction line: stock-in adds, stock-out takes from available
+  // (or from reserved, when the units were held for the document), adjustments set
+  private stockChange(
+    type: string,
+    quantity: number,
+    fromReserved = false
+  ): Pick<StockMovementInput, "quantityDelta" | "reservedDelta" | "setQuantity"> {
+    switch (type) {
+      case "STOCK_IN":
+      case "RETURN":
+        return { quantityDelta: quantity };
+      case "STOCK_OUT":
+      case "WASTE":
+      case "RECYCLING":
+        return { quantityDelta: -quantity, reservedDelta: fromReserved ? -quantity : 0 };
+      case "ADJUSTMENT":
+        return { setQuantity: quantity };
+      default:
+        throw new ValidationError(`Unknown transaction type ${type}`);
+    }
   }
 
   // MAIN SEARCH METHOD with pagination
-  searchTransactionsService = async (params: TransactionSearchParams): Promise<TransactionSearchResult> => {
+  searchTransactionsService = async (
+    params: TransactionSearchParams,
+    scope?: WarehouseScope
+  ): Promise<TransactionSearchResult> => {
     const { search, currentPage = 1, limit = 10, filters = {} } = params;
     
     const sort = params.sort || { field: "transactionDate", order: "desc" };
@@ -66,8 +99,9 @@ export default class TransactionService {
     if (filters.type) {
       where.type = filters.type;
     }
-    if (filters.warehouseId) {
-      where.warehouseId = filters.warehouseId;
+    const warehouseFilter = scopedWarehouseFilter(scope, filters.warehouseId);
+    if (warehouseFilter) {
+      where.warehouseId = warehouseFilter;
     }
     if (filters.performedById) {
       where.performedById = filters.performedById;
@@ -160,17 +194,18 @@ export default class TransactionService {
   // Search transactions by warehouse
   searchTransactionsByWarehouseService = async (
     warehouseId: string,
-    params: TransactionSearchParams
+    params: TransactionSearchParams,
+    scope?: WarehouseScope
   ): Promise<TransactionSearchResult> => {
     return this.searchTransactionsService({
       ...params,
       filters: { ...params.filters, warehouseId },
-    });
+    }, scope);
   };
 
   // GET transaction by ID
-  getTransactionByIdService = async (id: string) => {
-    return await prisma.transaction.findUnique({
+  getTransactionByIdService = async (id: string, scope?: WarehouseScope) => {
+    const transaction = await prisma.transaction.findUnique({
       where: { id },
       include: {
         warehouse: true,
@@ -194,204 +229,178 @@ export default class TransactionService {
         },
       },
     });
+
+    // Transactions outside the caller's warehouses are treated as missing
+    if (!transaction || !canAccessWarehouse(scope, transaction.warehouseId)) {
+      throw new NotFoundError("Transaction");
+    }
+
+    return transaction;
   };
 
   // CREATE transaction
-  createTransactionService = async (data: any) => {
+  createTransactionService = async (data: CreateTransactionInput, scope?: WarehouseScope) => {
     return await prisma.$transaction(async (tx) => {
-      const {
-        type,
-        warehouseId,
-        performedById,
-        referenceId,
-        referenceType,
-        notes,
-        items,
-      } = data;
-
-      // Validate warehouse
-      const warehouse = await tx.warehouse.findUnique({
-        where: { id: warehouseId },
-      });
-      if (!warehouse) throw new Error("Warehouse not found");
-
-      // Validate user
-      const user = await tx.user.findUnique({
-        where: { id: performedById },
-      });
-      if (!user) throw new Error("User not found");
+      return await this.createTransactionInTx(tx, data, scope);
+    });
+  };
 
-      // Validate products
-      const productIds = items.map((item: any) => item.productId);
-      const products = await tx.product.findMany({
-        where: { id: { in: productIds } },
-      });
+  // CREATE transaction inside an existing database transaction
+  createTransactionInTx = async (
+    tx: TransactionClient,
+    data: CreateTransactionInput,
+    scope?: WarehouseScope
+  ) => {
+    const {
+      type,
+      warehouseId,
+      performedById,
+      referenceId,
+      referenceType,
+      notes,
+      items,
+      fromReserved = false,
+      outsideStock = false,
+      carbonImpactKg,
+    } = data;
+
+    assertWarehouseAccess(scope, warehouseId);
+
+    // Validate warehouse
+    const warehouse = await tx.warehouse.findUnique({
+      where: { id: warehouseId },
+    });
+    if (!warehouse) throw new NotFoundError("Warehouse");
 
-      if (products.length !== productIds.length) {
-        const foundIds = products.map((p) => p.id);
-        const missingIds = productIds.filter((id: string) => !foundIds.includes(id));
-        throw new Error(`Products not found: ${missingIds.join(", ")}`);
-      }
+    // Validate user
+    const user = await tx.user.findUnique({
+      where: { id: performedById },
+    });
+    if (!user) throw new NotFoundError("User");
 
-      // Check inventory for stock out transactions
-      const stockOutTypes = ["STOCK_OUT", "WASTE", "RECYCLING"];
-      if (stockOutTypes.includes(type)) {
-        for (const item of items) {
-          const inventory = await tx.inventory.findUnique({
-            where: {
-              warehouseId_productId: {
-                warehouseId,
-                productId: item.productId,
-              },
-            },
-          });
+    // Validate products
+    const productIds = items.map((item: any) => item.productId);
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds } },
+    });
 
-          if (!inventory || inventory.available < item.quantity) {
-            const product = products.find((p) => p.id === item.productId);
-            throw new Error(`Insufficient stock for product ${product?.name || item.productId}`);
-          }
-        }
-      }
+    if (products.length !== productIds.length) {
+      const foundIds = products.map((p) => p.id);
+      const missingIds = productIds.filter((id: string) => !foundIds.includes(id));
+      throw new NotFoundError("Product", `Products not found: ${missingIds.join(", ")}`);
+    }
 
-      // Calculate totals and prepare items
-      let totalItems = 0;
-      let totalValue = 0;
-      const itemsData: any[] = [];
+    // Calculate totals and prepare items
+    let totalItems = 0;
+    let totalValue = 0;
+    const itemsData: any[] = [];
 
-      for (const item of items) {
-        const product = products.find((p) => p.id === item.productId);
-        const unitPrice = item.unitPrice || product?.costPrice || 0;
-        const itemValue = item.quantity * unitPrice;
+    for (const item of items) {
+      const product = products.find((p) => p.id === item.productId);
+      const unitPrice = item.unitPrice || product?.costPrice || 0;
+      const itemValue = item.quantity * unitPrice;
 
-        totalItems += item.quantity;
-        totalValue += itemValue;
+      totalItems += item.quantity;
+      totalValue += itemValue;
 
-        itemsData.push({
-          productId: item.productId,
-          quantity: item.quantity,
-          unitPrice: unitPrice,
-          totalPrice: itemValue,
-        });
-      }
+      itemsData.push({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: unitPrice,
+        totalPrice: itemValue,
+      });
+    }
 
-      // Create transaction
-      const transaction = await tx.transaction.create({
-        data: {
-          transactionNumber: this.generateTransactionNumber(type),
-          type,
-          warehouseId,
-          performedById,
-          referenceId,
-          referenceType,
-          totalItems,
-          totalValue,
-          notes,
-          items: {
-            create: itemsData,
-          },
+    // Create transaction
+    const transaction = await tx.transaction.create({
+      data: {
+        transactionNumber: this.generateTransactionNumber(type),
+        type,
+        warehouseId,
+        performedById,
+        referenceId,
+        referenceType,
+        totalItems,
+        totalValue,
+        carbonImpactKg,
+        outsideStock,
+        notes,
+        items: {
+          create: itemsData,
         },
-        include: {
-          warehouse: true,
-          performedBy: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
+      },
+      include: {
+        warehouse: true,
+        performedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
           },
-          items: {
-            include: {
-              product: {
-                include: {
-                  category: true,
-                },
+        },
+        items: {
+          include: {
+            product: {
+              include: {
+                category: true,
               },
             },
           },
         },
+      },
+    });
+
+    // Move the stock through the inventory ledger, which refuses to take more than there is
+    for (const item of outsideStock ? [] : items) {
+      const { previous } = await recordStockMovement(tx, {
+        warehouseId,
+        productId: item.productId,
+        type,
+        ...this.stockChange(type, item.quantity, fromReserved),
+        expectedVersion: item.expectedVersion,
+        transactionId: transaction.id,
+        referenceId,
+        referenceType,
+        performedById,
+        notes,
       });
 
-      // Update inventory
-      for (const item of items) {
-        const inventoryWhere = {
-          warehouseId_productId: {
-            warehouseId,
+      // For adjustments, update transaction item
+      if (type === "ADJUSTMENT") {
+        await tx.transactionItem.updateMany({
+          where: {
+            transactionId: transaction.id,
             productId: item.productId,
           },
-        };
-
-        const existingInventory = await tx.inventory.findUnique({
-          where: inventoryWhere,
+          data: {
+            previousQty: previous.quantity,
+            newQty: item.quantity,
+          },
         });
-
-        if (existingInventory) {
-          let newQuantity = existingInventory.quantity;
-          let newAvailable = existingInventory.available;
-
-          switch (type) {
-            case "STOCK_IN":
-            case "RETURN":
-              newQuantity += item.quantity;
-              newAvailable += item.quantity;
-              break;
-
-            case "STOCK_OUT":
-            case "WASTE":
-            case "RECYCLING":
-              newQuantity -= item.quantity;
-              newAvailable -= item.quantity;
-              break;
-
-            case "ADJUSTMENT":
-              newQuantity = item.quantity;
-              newAvailable = Math.max(0, newQuantity - existingInventory.reserved);
-              break;
-          }
-
-          await tx.inventory.update({
-            where: inventoryWhere,
-            data: {
-              quantity: newQuantity,
-              available: newAvailable,
-              lastUpdated: new Date(),
-              reorderStatus: this.calculateReorderStatus(newQuantity),
-            },
-          });
-
-          // For adjustments, update transaction item
-          if (type === "ADJUSTMENT") {
-            await tx.transactionItem.updateMany({
-              where: {
-                transactionId: transaction.id,
-                productId: item.productId,
-              },
-              data: {
-                previousQty: existingInventory.quantity,
-                newQty: item.quantity,
-              },
-            });
-          }
-        } else if (type === "STOCK_IN" || type === "RETURN") {
-          await tx.inventory.create({
-            data: {
-              warehouseId,
-              productId: item.productId,
-              quantity: item.quantity,
-              available: item.quantity,
-              reserved: 0,
-              reorderStatus: this.calculateReorderStatus(item.quantity),
-            },
-          });
-        }
       }
+    }
 
-      return transaction;
-    });
+    return transaction;
   };
 
   // UPDATE transaction
-  updateTransactionService = async (id: string, data: any) => {
+  updateTransactionService = async (
+    id: string,
+    data: UpdateTransactionInput,
+    scope?: WarehouseScope
+  ) => {
+    const existing = await prisma.transaction.findUnique({
+      where: { id },
+      select: { warehouseId: true },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("Transaction");
+    }
+
+    assertWarehouseAccess(scope, existing.warehouseId);
+
     return await prisma.transaction.update({
       where: { id },
       data: {
@@ -410,7 +419,7 @@ export default class TransactionService {
   };
 
   // DELETE transaction
-  deleteTransactionService = async (id: string) => {
+  deleteTransactionService = async (id: string, scope?: WarehouseScope) => {
     return await prisma.$transaction(async (tx) => {
       const transaction = await tx.transaction.findUnique({
         where: { id },
@@ -420,58 +429,37 @@ export default class TransactionService {
       });
 
       if (!transaction) {
-        throw new Error("Transaction not found");
+        throw new NotFoundError("Transaction");
       }
 
-      // Reverse inventory changes
-      for (const item of transaction.items) {
-        const inventoryWhere = {
-          warehouseId_productId: {
-            warehouseId: transaction.warehouseId,
-            productId: item.productId,
-          },
-        };
+      assertWarehouseAccess(scope, transaction.warehouseId);
 
-        const existingInventory = await tx.inventory.findUnique({
-          where: inventoryWhere,
-        });
+      if (transaction.referenceType && DOCUMENT_REFERENCE_TYPES.includes(transaction.referenceType)) {
+        throw new ConflictError(
+          `Cannot delete a transaction posted by ${transaction.referenceType.toLowerCase().replace("_", " ")} ${transaction.referenceId}`
+        );
+      }
 
-        if (existingInventory) {
-          let newQuantity = existingInventory.quantity;
-          let newAvailable = existingInventory.available;
-
-          switch (transaction.type) {
-            case "STOCK_IN":
-            case "RETURN":
-              newQuantity -= item.quantity;
-              newAvailable -= item.quantity;
-              break;
-
-            case "STOCK_OUT":
-            case "WASTE":
-            case "RECYCLING":
-              newQuantity += item.quantity;
-              newAvailable += item.quantity;
-              break;
-
-            case "ADJUSTMENT":
-              if (item.previousQty !== null && item.previousQty !== undefined) {
-                newQuantity = item.previousQty;
-                newAvailable = Math.max(0, newQuantity - existingInventory.reserved);
-              }
-              break;
-          }
-
-          await tx.inventory.update({
-            where: inventoryWhere,
-            data: {
-              quantity: newQuantity,
-              available: newAvailable,
-              lastUpdated: new Date(),
-              reorderStatus: this.calculateReorderStatus(newQuantity),
-            },
-          });
-        }
+      // Reverse inventory changes; fails when the stock has moved on since. Transactions
+      // recorded outside stock never changed inventory, so there is nothing to reverse
+      for (const item of transaction.outsideStock ? [] : transaction.items) {
+        if (transaction.type === "ADJUSTMENT" && item.previousQty === null) continue;
+
+        const change =
+          transaction.type === "ADJUSTMENT"
+            ? { setQuantity: item.previousQty! }
+            : { quantityDelta: -this.stockChange(transaction.type, item.quantity).quantityDelta! };
+
+        await recordStockMovement(tx, {
+          warehouseId: transaction.warehouseId,
+          productId: item.productId,
+          type: "REVERSAL",
+          ...change,
+          transactionId: transaction.id,
+          referenceId: transaction.referenceId ?? undefined,
+          referenceType: transaction.referenceType ?? undefined,
+          notes: `Reversal of ${transaction.transactionNumber}`,
+        });
       }
 
       // Delete transaction items first
@@ -489,7 +477,9 @@ export default class TransactionService {
   };
 
   // GET transaction statistics
-  getTransactionStatisticsService = async () => {
+  getTransactionStatisticsService = async (scope?: WarehouseScope) => {
+    const warehouseFilter = scopedWarehouseFilter(scope);
+    const scopeWhere: any = warehouseFilter ? { warehouseId: warehouseFilter } : {};
     const today = new Date();
     const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
     const startOfYear = new Date(today.getFullYear(), 0, 1);
@@ -501,9 +491,10 @@ export default class TransactionService {
       yearlyTransactions,
       transactionsByType,
     ] = await Promise.all([
-      prisma.transaction.count(),
+      prisma.transaction.count({ where: scopeWhere }),
       prisma.transaction.count({
         where: {
+          ...scopeWhere,
           transactionDate: {
             gte: new Date(today.setHours(0, 0, 0, 0)),
           },
@@ -511,16 +502,19 @@ export default class TransactionService {
       }),
       prisma.transaction.count({
         where: {
+          ...scopeWhere,
           transactionDate: { gte: startOfMonth },
         },
       }),
       prisma.transaction.count({
         where: {
+          ...scopeWhere,
           transactionDate: { gte: startOfYear },
         },
       }),
       prisma.transaction.groupBy({
         by: ["type"],
+        where: scopeWhere,
         _count: { id: true },
       }),
     ]);
@@ -1,4 +1,85 @@
-import { prisma } from "../lib/db";
+import { prisma, TransactionClient } from "../lib/db";
+import {
+  ConflictError,
+  ForbiddenError,
+  InvalidTransitionError,
+  NotFoundError,
+  ValidationError,
+} from "../lib/errors";
+import { coordinatesOf } from "../lib/geo";
+import { planRebalancing } from "../lib/rebalancing";
+import { getSetting } from "../lib/settings";
+import { releaseStock, reserveStock } from "../lib/stockReservation";
+import {
+  TRANSPORT_EMISSION_SETTINGS,
+  TransportEstimate,
+  TransportMode,
+  estimateTransportCarbon,
+} from "../lib/transport";
+import {
+  WarehouseScope,
+  WAREHOUSE_ACCESS_DENIED,
+  canAccessWarehouse,
+  transferScopeCondition,
+} from "../lib/warehouseScope";
+import { unitWeightKg } from "../lib/weight";
+import {
+  CreateTransferInput,
+  DispatchTransferInput,
+  RebalanceInput,
+  ReceiveTransferInput,
+  TransferStatus,
+  UpdateTransferInput,
+} from "../schemas/transferSchemas";
+import TransactionService from "./transactionServices";
+
+const transactionService = new TransactionService();
+
+// Transfers whose stock is still reserved at the source
+const UNDISPATCHED_STATUSES = ["PENDING_APPROVAL", "PENDING"];
+
+// Status changes allowed outside approval (PENDING_APPROVAL -> PENDING), dispatch (PENDING -> IN_TRANSIT) and receipt (IN_TRANSIT -> COMPLETED)
+const validStatusChanges: Record<string, string[]> = {
+  PENDING_APPROVAL: ["CANCELLED"],
+  PENDING: ["CANCELLED"],
+  IN_TRANSIT: [],
+  COMPLETED: [],
+  CANCELLED: []
+};
+
+const transferInclude = {
+  sourceWarehouse: true,
+  destWarehouse: true,
+  requestedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true
+    }
+  },
+  dispatchedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true
+    }
+  },
+  receivedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true
+    }
+  },
+  items: {
+    include: {
+      product: true
+    }
+  }
+};
 
 interface SearchParams {
   search: string;
@@ -23,6 +104,7 @@ interface SearchResult {
 interface TransferStatistics {
   counts: {
     totalTransfers: number;
+    awaitingApprovalTransfers: number;
     pendingTransfers: number;
     inTransitTransfers: number;
     completedTransfers: number;
@@ -47,23 +129,12 @@ interface TransferStatistics {
   }>;
 }
 
-interface TransferItemInput {
-  productId: string;
-  quantity: number;
-}
-
-interface CreateTransferInput {
-  sourceWarehouseId: string;
-  destinationWarehouseId: string;
-  requestedById: string;
-  items: TransferItemInput[];
-  notes?: string;
-  estimatedArrival?: Date;
-}
-
 export default class TransferServices {
   // MAIN SEARCH METHOD with pagination
-  searchTransfersService = async (params: SearchParams): Promise<SearchResult> => {
+  searchTransfersService = async (
+    params: SearchParams,
+    scope?: WarehouseScope
+  ): Promise<SearchResult> => {
     const { search, currentPage, limit, filters } = params;
     
     const sort = params.sort || { field: "requestDate", order: "desc" };
@@ -115,6 +186,12 @@ export default class TransferServices {
       };
     }
 
+    // Limit to transfers touching the caller's warehouses
+    const scopeCondition = transferScopeCondition(scope);
+    if (scopeCondition) {
+      where.AND = [scopeCondition];
+    }
+
     // Build ORDER BY
     const orderBy: any = {};
     if (sort && sort.field) {
@@ -194,7 +271,7 @@ export default class TransferServices {
   };
 
   // GET transfer by ID (single record)
-  getTransferByIdService = async (id: string): Promise<any> => {
+  getTransferByIdService = async (id: string, scope?: WarehouseScope): Promise<any> => {
     const transfer = await prisma.transfer.findUnique({
       where: { id },
       include: {
@@ -227,6 +304,22 @@ export default class TransferServices {
             role: true
           }
         },
+        dispatchedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        },
+        receivedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        },
         items: {
           include: {
             product: {
@@ -249,17 +342,18 @@ export default class TransferServices {
       }
     });
 
-    if (!transfer) {
-      throw new Error("Transfer not found");
+    if (!transfer || !this.canAccessTransfer(transfer, scope)) {
+      throw new NotFoundError("Transfer");
     }
 
-    return transfer;
+    return this.withDiscrepancies(transfer);
   };
 
   // GET transfers by warehouse ID
   getTransfersByWarehouseService = async (
     warehouseId: string, 
-    params: SearchParams
+    params: SearchParams,
+    scope?: WarehouseScope
   ): Promise<SearchResult> => {
     const { search, currentPage, limit, filters } = params;
     
@@ -284,6 +378,13 @@ export default class TransferServices {
       });
     }
 
+    // Limit to transfers touching the caller's warehouses
+    const scopeCondition = transferScopeCondition(scope);
+    if (scopeCondition) {
+      where.AND = where.AND || [];
+      where.AND.push(scopeCondition);
+    }
+
     if (filters.status) {
       where.status = filters.status;
     }
@@ -361,35 +462,44 @@ export default class TransferServices {
   };
 
   // CREATE transfer
-  createTransferService = async (data: CreateTransferInput): Promise<any> => {
+  createTransferService = async (
+    data: CreateTransferInput,
+    scope?: WarehouseScope
+  ): Promise<any> => {
     const {
       sourceWarehouseId,
       destinationWarehouseId,
       requestedById,
       items,
+      transportMode = "ROAD",
       notes,
       estimatedArrival
     } = data;
 
     // Validate required fields
     if (!sourceWarehouseId) {
-      throw new Error("Source warehouse is required");
+      throw new ValidationError("Source warehouse is required");
     }
     
     if (!destinationWarehouseId) {
-      throw new Error("Destination warehouse is required");
+      throw new ValidationError("Destination warehouse is required");
     }
     
     if (sourceWarehouseId === destinationWarehouseId) {
-      throw new Error("Source and destination warehouses cannot be the same");
+      throw new ValidationError("Source and destination warehouses cannot be the same");
     }
     
     if (!requestedById) {
-      throw new Error("Requested by user is required");
+      throw new ValidationError("Requested by user is required");
     }
     
     if (!items || items.length === 0) {
-      throw new Error("Transfer must contain at least one item");
+      throw new ValidationError("Transfer must contain at least one item");
+    }
+
+    // Either side of the transfer must belong to the caller
+    if (!this.canAccessTransfer({ sourceWarehouseId, destWarehouseId: destinationWarehouseId }, scope)) {
+      throw new ForbiddenError(WAREHOUSE_ACCESS_DENIED);
     }
 
     // Validate warehouses exist
@@ -399,17 +509,17 @@ export default class TransferServices {
     ]);
     
     if (!sourceWarehouse) {
-      throw new Error("Source warehouse not found");
+      throw new NotFoundError("Source warehouse");
     }
     
     if (!destinationWarehouse) {
-      throw new Error("Destination warehouse not found");
+      throw new NotFoundError("Destination warehouse");
     }
 
     // Validate user exists
     const user = await prisma.user.findUnique({ where: { id: requestedById } });
     if (!user) {
-      throw new Error("Requested by user not found");
+      throw new NotFoundError("Requested by user");
     }
 
     // Generate transfer number
@@ -425,25 +535,19 @@ export default class TransferServices {
       }
     });
     
-    const transferNumber = `TRF-${year}${month}-${String(transferCount + 1).padStart(5, '0')}`;
-
-    // Check stock availability for each item
-    for (const item of items) {
-      const inventory = await prisma.inventory.findFirst({
-        where: {
-          productId: item.productId,
-          warehouseId: sourceWarehouseId
-        }
-      });
-      
-      if (!inventory) {
-        throw new Error(`Product ${item.productId} not available in source warehouse`);
-      }
-      
-      if (inventory.quantity < item.quantity) {
-        throw new Error(`Insufficient stock for product ${item.productId}. Available: ${inventory.quantity}, Requested: ${item.quantity}`);
-      }
-    }
+    const transferPrefix = await getSetting("numbering.transferPrefix");
+    const transferNumber = `${transferPrefix}-${year}${month}-${String(transferCount + 1).padStart(5, '0')}`;
+
+    // Estimate transport emissions from the distance, weight moved and transport mode
+    const { distanceKm, carbonKg: estimatedCarbonKg } = await this.estimateCarbon(
+      sourceWarehouse,
+      destinationWarehouse,
+      items,
+      transportMode
+    );
+
+    // Large transfers wait for a second person before they can be dispatched
+    const status = (await this.requiresApproval(items)) ? "PENDING_APPROVAL" : "PENDING";
 
     // Create transfer with items in a transaction
     return await prisma.$transaction(async (tx) => {
@@ -456,19 +560,29 @@ export default class TransferServices {
           requestedById,
           notes,
           estimatedArrival: estimatedArrival || null,
-          status: "PENDING",
+          transportMode,
+          distanceKm,
+          estimatedCarbonKg,
+          status,
           requestDate: new Date()
         }
       });
 
-      // Create transfer items
+      // Create transfer items, holding their stock at the source until dispatch; fails
+      // when orders or other transfers already claimed the available units
       const createdItems = [];
       for (const item of items) {
+        await reserveStock(tx, sourceWarehouseId, item.productId, item.quantity, {
+          referenceType: "TRANSFER",
+          referenceId: transfer.id
+        });
+
         const transferItem = await tx.transferItem.create({
           data: {
             transferId: transfer.id,
             productId: item.productId,
-            quantity: item.quantity
+            quantity: item.quantity,
+            reservedQuantity: item.quantity
           },
           include: {
             product: {
@@ -491,216 +605,622 @@ export default class TransferServices {
   };
 
   // UPDATE transfer
-  updateTransferService = async (id: string, data: any): Promise<any> => {
+  updateTransferService = async (
+    id: string,
+    data: UpdateTransferInput,
+    scope?: WarehouseScope
+  ): Promise<any> => {
     const existingTransfer = await prisma.transfer.findUnique({
       where: { id },
       include: {
+        sourceWarehouse: {
+          select: {
+            latitude: true,
+            longitude: true
+          }
+        },
+        destWarehouse: {
+          select: {
+            latitude: true,
+            longitude: true
+          }
+        },
         items: true
       }
     });
 
     if (!existingTransfer) {
-      throw new Error("Transfer not found");
+      throw new NotFoundError("Transfer");
     }
 
+    this.assertTransferAccess(existingTransfer, scope);
+
     if (["COMPLETED", "CANCELLED"].includes(existingTransfer.status)) {
-      throw new Error(`Cannot update a ${existingTransfer.status.toLowerCase()} transfer`);
+      throw new InvalidTransitionError(`Cannot update a ${existingTransfer.status.toLowerCase()} transfer`);
     }
 
-    if (data.sourceWarehouseId || data.destinationWarehouseId) {
-      const sourceId = data.sourceWarehouseId || existingTransfer.sourceWarehouseId;
-      const destId = data.destinationWarehouseId || existingTransfer.destWarehouseId;
-      
+    if (data.status && data.status !== existingTransfer.status) {
+      this.assertStatusChange(existingTransfer.status, data.status);
+    }
+
+    const sourceId = data.sourceWarehouseId || existingTransfer.sourceWarehouseId;
+    const destId = data.destinationWarehouseId || existingTransfer.destWarehouseId;
+    const moved =
+      sourceId !== existingTransfer.sourceWarehouseId || destId !== existingTransfer.destWarehouseId;
+    const transportMode = (data.transportMode || existingTransfer.transportMode) as TransportMode;
+
+    // Another route holds stock elsewhere and travels a different distance
+    let sourceWarehouse = existingTransfer.sourceWarehouse;
+    let destWarehouse = existingTransfer.destWarehouse;
+    if (moved) {
       if (sourceId === destId) {
-        throw new Error("Source and destination warehouses cannot be the same");
+        throw new ValidationError("Source and destination warehouses cannot be the same");
+      }
+
+      if (!UNDISPATCHED_STATUSES.includes(existingTransfer.status)) {
+        throw new InvalidTransitionError("The warehouses can only be changed before dispatch");
+      }
+
+      if (data.status === "CANCELLED") {
+        throw new ValidationError("A transfer cannot be moved to other warehouses and cancelled at once");
+      }
+
+      this.assertTransferAccess({ sourceWarehouseId: sourceId, destWarehouseId: destId }, scope);
+
+      const [source, destination] = await Promise.all([
+        prisma.warehouse.findUnique({ where: { id: sourceId } }),
+        prisma.warehouse.findUnique({ where: { id: destId } })
+      ]);
+
+      if (!source) {
+        throw new NotFoundError("Source warehouse");
       }
+
+      if (!destination) {
+        throw new NotFoundError("Destination warehouse");
+      }
+
+      sourceWarehouse = source;
+      destWarehouse = destination;
     }
 
-    const updatedTransfer = await prisma.transfer.update({
-      where: { id },
-      data: {
-        notes: data.notes !== undefined ? data.notes : existingTransfer.notes,
-        estimatedArrival: data.estimatedArrival !== undefined 
-          ? new Date(data.estimatedArrival) 
-          : existingTransfer.estimatedArrival,
-        status: data.status || existingTransfer.status
-      },
-      include: {
-        sourceWarehouse: {
-          select: {
-            id: true,
-            name: true
+    // A new route or transport mode changes the distance or emission factor of the estimate
+    let carbonEstimate: Record<string, unknown> = {};
+    if (moved || transportMode !== existingTransfer.transportMode) {
+      if (!UNDISPATCHED_STATUSES.includes(existingTransfer.status)) {
+        throw new InvalidTransitionError("The transport mode can only be changed before dispatch");
+      }
+
+      const estimate = await this.estimateCarbon(
+        sourceWarehouse,
+        destWarehouse,
+        existingTransfer.items,
+        transportMode
+      );
+      carbonEstimate = {
+        transportMode,
+        distanceKm: estimate.distanceKm,
+        estimatedCarbonKg: estimate.carbonKg
+      };
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Cancelling releases what the transfer holds at the moment it is cancelled
+      if (data.status === "CANCELLED" && existingTransfer.status !== "CANCELLED") {
+        const transfer = await this.claimTransferInTx(tx, id, UNDISPATCHED_STATUSES, scope, {
+          status: "CANCELLED"
+        });
+        await this.releaseReservationsInTx(tx, transfer);
+      }
+
+      // Only applies while the transfer is still where and how it was read
+      if (moved) {
+        const { count } = await tx.transfer.updateMany({
+          where: {
+            id,
+            status: existingTransfer.status,
+            sourceWarehouseId: existingTransfer.sourceWarehouseId,
+            destWarehouseId: existingTransfer.destWarehouseId
+          },
+          data: { sourceWarehouseId: sourceId, destWarehouseId: destId }
+        });
+
+        if (count !== 1) {
+          throw new ConflictError("Transfer was changed by another request, please retry");
+        }
+
+        // Hold the stock at the new source instead
+        if (sourceId !== existingTransfer.sourceWarehouseId) {
+          const transfer = await tx.transfer.findUnique({
+            where: { id },
+            include: { items: true }
+          });
+
+          await this.releaseReservationsInTx(tx, {
+            ...transfer!,
+            sourceWarehouseId: existingTransfer.sourceWarehouseId
+          });
+
+          for (const item of transfer!.items) {
+            await reserveStock(tx, sourceId, item.productId, item.quantity, {
+              referenceType: "TRANSFER",
+              referenceId: id
+            });
+            await tx.transferItem.update({
+              where: { id: item.id },
+              data: { reservedQuantity: item.quantity }
+            });
           }
+        }
+      }
+
+      // The status only ever changes through the claim above, never from the earlier read
+      return await tx.transfer.update({
+        where: { id },
+        data: {
+          notes: data.notes !== undefined ? data.notes : existingTransfer.notes,
+          estimatedArrival: data.estimatedArrival !== undefined 
+            ? new Date(data.estimatedArrival) 
+            : existingTransfer.estimatedArrival,
+          ...carbonEstimate
         },
-        destWarehouse: {
-          select: {
-            id: true,
-            name: true
+        include: {
+          sourceWarehouse: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          destWarehouse: {
+            select: {
+              id: true,
+              name: true
+            }
           }
         }
-      }
+      });
     });
-
-    return updatedTransfer;
   };
 
   // UPDATE transfer status
   updateTransferStatusService = async (
     id: string, 
-    status: string, 
-    additionalData?: any
+    status: TransferStatus, 
+    additionalData?: any,
+    scope?: WarehouseScope
   ): Promise<any> => {
-    const transfer = await prisma.transfer.findUnique({
-      where: { id }
+    return await prisma.$transaction(async (tx) => {
+      const from = Object.keys(validStatusChanges).filter((current) =>
+        validStatusChanges[current].includes(status)
+      );
+      const transfer = await this.claimTransferInTx(tx, id, from, scope, { status });
+
+      // Cancelling gives the held units back to the source warehouse
+      if (status === "CANCELLED") {
+        await this.releaseReservationsInTx(tx, transfer);
+      }
+
+      return await tx.transfer.findUnique({
+        where: { id },
+        include: {
+          sourceWarehouse: true,
+          destWarehouse: true,
+          requestedBy: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true
+            }
+          }
+        }
+      });
     });
+  };
 
-    if (!transfer) {
-      throw new Error("Transfer not found");
-    }
+  // APPROVE transfer (PENDING_APPROVAL -> PENDING) by a different user than the requester
+  approveTransferService = async (
+    id: string,
+    approvedById: string,
+    scope?: WarehouseScope
+  ): Promise<any> => {
+    return await prisma.$transaction(async (tx) => {
+      // Conditional, so an approval cannot revive a transfer rejected in the meantime
+      const transfer = await this.claimTransferInTx(tx, id, ["PENDING_APPROVAL"], scope, {
+        status: "PENDING",
+        approvedById,
+        approvedAt: new Date()
+      });
 
-    const updateData: any = { status };
+      if (transfer.requestedById === approvedById) {
+        throw new ValidationError("Transfers must be approved by a different user than the requester");
+      }
 
-    if (status === "COMPLETED") {
-      updateData.completedAt = new Date();
-    }
+      return await tx.transfer.findUnique({
+        where: { id },
+        include: transferInclude
+      });
+    });
+  };
 
-    return await prisma.transfer.update({
-      where: { id },
-      data: updateData,
+  // REJECT transfer (PENDING_APPROVAL -> CANCELLED), giving the reserved stock back
+  rejectTransferService = async (
+    id: string,
+    reason?: string,
+    scope?: WarehouseScope
+  ): Promise<any> => {
+    return await prisma.$transaction(async (tx) => {
+      const transfer = await this.claimTransferInTx(tx, id, ["PENDING_APPROVAL"], scope, {
+        status: "CANCELLED"
+      });
+      await this.releaseReservationsInTx(tx, transfer);
+
+      return await tx.transfer.update({
+        where: { id },
+        data: {
+          notes: reason
+            ? [transfer.notes, `Rejected: ${reason}`].filter(Boolean).join("\n")
+            : undefined
+        },
+        include: transferInclude
+      });
+    });
+  };
+
+  // POST rebalancing suggestions - draft transfers from sites with surplus stock to sites
+  // at or below their reorder point; nothing is created or reserved
+  getRebalancingSuggestionsService = async (
+    data: RebalanceInput,
+    scope?: WarehouseScope
+  ): Promise<any> => {
+    const inventory = await prisma.inventory.findMany({
+      where: {
+        warehouse: { isActive: true },
+        product: { isActive: true },
+        ...(data.productIds ? { productId: { in: data.productIds } } : {}),
+        ...(data.warehouseIds ? { warehouseId: { in: data.warehouseIds } } : {})
+      },
       include: {
-        sourceWarehouse: true,
-        destWarehouse: true,
-        requestedBy: {
+        warehouse: {
           select: {
             id: true,
-            firstName: true,
-            lastName: true,
-            email: true
+            name: true,
+            code: true,
+            latitude: true,
+            longitude: true
+          }
+        },
+        product: {
+          select: {
+            id: true,
+            name: true,
+            sku: true,
+            reorderPoint: true
           }
         }
       }
     });
-  };
 
-  // COMPLETE transfer (execute the transfer)
-  completeTransferService = async (id: string, completedBy: string): Promise<any> => {
-    const transfer = await prisma.transfer.findUnique({
-      where: { id },
-      include: {
-        items: true
-      }
-    });
+    const plan = planRebalancing(
+      inventory.map((row) => ({
+        warehouseId: row.warehouseId,
+        location: coordinatesOf(row.warehouse),
+        productId: row.productId,
+        available: row.available,
+        reorderPoint: row.product.reorderPoint
+      })),
+      await getSetting("transfer.rebalanceTargetMultiple")
+    );
 
-    if (!transfer) {
-      throw new Error("Transfer not found");
-    }
+    const rowOf = (warehouseId: string, productId: string) =>
+      inventory.find((row) => row.warehouseId === warehouseId && row.productId === productId)!;
+    const warehouseOf = (warehouseId: string) => {
+      const { latitude, longitude, ...warehouse } = inventory.find(
+        (row) => row.warehouseId === warehouseId
+      )!.warehouse;
+      return warehouse;
+    };
 
-    if (transfer.status !== "PENDING") {
-      throw new Error("Transfer must be pending before completion");
-    }
+    // One draft transfer per route, carrying every product moved along it
+    const drafts = new Map<string, any>();
+    for (const move of plan.moves) {
+      const route = {
+        sourceWarehouseId: move.sourceWarehouseId,
+        destWarehouseId: move.destinationWarehouseId
+      };
+      if (!this.canAccessTransfer(route, scope)) continue;
+
+      const key = `${move.sourceWarehouseId}|${move.destinationWarehouseId}`;
+      if (!drafts.has(key)) {
+        drafts.set(key, {
+          sourceWarehouse: warehouseOf(move.sourceWarehouseId),
+          destinationWarehouse: warehouseOf(move.destinationWarehouseId),
+          distanceKm: move.distanceKm,
+          items: [],
+          // Ready to POST to /transfers
+          draft: {
+            sourceWarehouseId: move.sourceWarehouseId,
+            destinationWarehouseId: move.destinationWarehouseId,
+            items: []
+          }
+        });
+      }
 
-    // Validate completer exists
-    const completer = await prisma.user.findUnique({ where: { id: completedBy } });
-    if (!completer) {
-      throw new Error("Completer not found");
+      const source = rowOf(move.sourceWarehouseId, move.productId);
+      const destination = rowOf(move.destinationWarehouseId, move.productId);
+      const entry = drafts.get(key);
+      entry.items.push({
+        product: source.product,
+        quantity: move.quantity,
+        sourceAvailable: source.available,
+        destinationAvailable: destination.available
+      });
+      entry.draft.items.push({ productId: move.productId, quantity: move.quantity });
     }
 
-    // Execute transfer in a transaction
+    return {
+      suggestions: Array.from(drafts.values()),
+      // Short sites no surplus could cover; candidates for purchasing instead
+      unresolved: plan.shortfalls
+        .filter((shortfall) => canAccessWarehouse(scope, shortfall.warehouseId))
+        .map((shortfall) => {
+          const row = rowOf(shortfall.warehouseId, shortfall.productId);
+          return {
+            warehouse: warehouseOf(shortfall.warehouseId),
+            product: row.product,
+            available: row.available,
+            quantity: shortfall.quantity
+          };
+        })
+    };
+  };
+
+  // DISPATCH transfer - the goods leave the source warehouse and are in transit until received
+  dispatchTransferService = async (
+    id: string,
+    dispatchedById: string,
+    data: DispatchTransferInput,
+    scope?: WarehouseScope
+  ): Promise<any> => {
     return await prisma.$transaction(async (tx) => {
+      const transfer = await this.claimTransferInTx(tx, id, ["PENDING"], scope, {
+        status: "IN_TRANSIT",
+        dispatchedAt: new Date(),
+        dispatchedById
+      });
+
+      // Lines requested before stock was reserved claim their units now
       for (const item of transfer.items) {
-        // Remove from source warehouse
-        await tx.inventory.upsert({
-          where: {
-            warehouseId_productId: {
-              warehouseId: transfer.sourceWarehouseId,
-              productId: item.productId
-            }
-          },
-          update: {
-            quantity: {
-              decrement: item.quantity
-            },
-            lastUpdated: new Date()
-          },
-          create: {
-            warehouseId: transfer.sourceWarehouseId,
-            productId: item.productId,
-            quantity: -item.quantity,
-            available: 0,
-            reserved: 0,
-            reorderStatus: "OK"
-          }
+        if (item.reservedQuantity < item.quantity) {
+          await reserveStock(
+            tx,
+            transfer.sourceWarehouseId,
+            item.productId,
+            item.quantity - item.reservedQuantity,
+            { referenceType: "TRANSFER", referenceId: transfer.id }
+          );
+        }
+      }
+
+      // Ships the reserved units out of the source warehouse
+      await transactionService.createTransactionInTx(
+        tx,
+        {
+          type: "STOCK_OUT",
+          warehouseId: transfer.sourceWarehouseId,
+          performedById: dispatchedById,
+          referenceId: transfer.id,
+          referenceType: "TRANSFER",
+          notes: data.notes ?? `Transfer ${transfer.transferNumber} dispatched`,
+          items: this.sumByProduct(
+            transfer.items.map((item) => ({ productId: item.productId, quantity: item.quantity }))
+          ),
+          fromReserved: true
+        },
+        scope
+      );
+
+      for (const item of transfer.items) {
+        await tx.transferItem.update({
+          where: { id: item.id },
+          data: { reservedQuantity: 0, dispatchedQuantity: item.quantity }
         });
+      }
 
-        // Add to destination warehouse
-        await tx.inventory.upsert({
-          where: {
-            warehouseId_productId: {
-              warehouseId: transfer.destWarehouseId,
-              productId: item.productId
-            }
-          },
-          update: {
-            quantity: {
-              increment: item.quantity
-            },
-            lastUpdated: new Date()
-          },
-          create: {
+      const updatedTransfer = await tx.transfer.findUnique({
+        where: { id },
+        include: transferInclude
+      });
+
+      return this.withDiscrepancies(updatedTransfer!);
+    });
+  };
+
+  // RECEIVE transfer - record what arrived per line and credit the good units to the destination
+  receiveTransferService = async (
+    id: string,
+    receivedById: string,
+    data: ReceiveTransferInput,
+    scope?: WarehouseScope
+  ): Promise<any> => {
+    const completedAt = new Date();
+
+    return await prisma.$transaction(async (tx) => {
+      const transfer = await this.claimTransferInTx(tx, id, ["IN_TRANSIT"], scope, {
+        status: "COMPLETED",
+        completedAt,
+        receivedById
+      });
+
+      const seenIds = new Set<string>();
+      for (const line of data.items) {
+        const item = transfer.items.find((transferItem) => transferItem.id === line.id);
+        if (!item) {
+          throw new NotFoundError("Transfer item", `Transfer item ${line.id} is not part of this transfer`);
+        }
+        if (seenIds.has(line.id)) {
+          throw new ValidationError(`Transfer item ${line.id} is listed more than once`);
+        }
+        seenIds.add(line.id);
+
+        if (line.receivedQuantity + line.damagedQuantity > item.dispatchedQuantity) {
+          throw new ValidationError(
+            `Received and damaged units for transfer item ${line.id} exceed the ${item.dispatchedQuantity} dispatched`
+          );
+        }
+      }
+
+      // Units neither received nor damaged stay recorded as missing on the line
+      const received = transfer.items.map((item) => {
+        const line = data.items.find((receiptLine) => receiptLine.id === item.id);
+        return {
+          item,
+          receivedQuantity: line?.receivedQuantity ?? item.dispatchedQuantity,
+          damagedQuantity: line?.damagedQuantity ?? 0,
+          discrepancyNote: line?.discrepancyNote
+        };
+      });
+
+      const stockInItems = this.sumByProduct(
+        received
+          .filter((line) => line.receivedQuantity > 0)
+          .map((line) => ({ productId: line.item.productId, quantity: line.receivedQuantity }))
+      );
+
+      if (stockInItems.length > 0) {
+        await transactionService.createTransactionInTx(
+          tx,
+          {
+            type: "STOCK_IN",
             warehouseId: transfer.destWarehouseId,
-            productId: item.productId,
-            quantity: item.quantity,
-            available: item.quantity,
-            reserved: 0,
-            reorderStatus: "OK"
-          }
+            performedById: receivedById,
+            referenceId: transfer.id,
+            referenceType: "TRANSFER",
+            notes: data.notes ?? `Transfer ${transfer.transferNumber} received`,
+            items: stockInItems
+          },
+          scope
+        );
+      }
+
+      for (const { item, receivedQuantity, damagedQuantity, discrepancyNote } of received) {
+        await tx.transferItem.update({
+          where: { id: item.id },
+          data: { receivedQuantity, damagedQuantity, discrepancyNote }
         });
       }
 
-      const updatedTransfer = await tx.transfer.update({
-        where: { id },
+      // The journey's emissions count against the dispatching warehouse's supply chain
+      await tx.carbonTracking.create({
         data: {
-          status: "COMPLETED",
-          completedAt: new Date()
-        },
-        include: {
-          sourceWarehouse: true,
-          destWarehouse: true,
-          requestedBy: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          },
-          items: {
-            include: {
-              product: true
-            }
-          }
+          scope: "SCOPE_3",
+          category: "TRANSPORT",
+          sourceId: transfer.sourceWarehouseId,
+          sourceType: "WAREHOUSE",
+          carbonKg: transfer.estimatedCarbonKg || 0,
+          measurementPeriod: completedAt.toISOString().slice(0, 7),
+          calculationMethod: transfer.distanceKm === null ? "ESTIMATED" : "CALCULATED",
+          recordedAt: completedAt,
+          notes: transfer.distanceKm === null
+            ? `Transfer ${transfer.transferNumber} by ${transfer.transportMode}, distance unknown`
+            : `Transfer ${transfer.transferNumber} by ${transfer.transportMode} over ${transfer.distanceKm.toFixed(1)} km`
         }
       });
 
-      return updatedTransfer;
+      const updatedTransfer = await tx.transfer.findUnique({
+        where: { id },
+        include: transferInclude
+      });
+
+      return this.withDiscrepancies(updatedTransfer!);
     });
   };
 
-  // DELETE transfer (only if pending)
-  deleteTransferService = async (id: string): Promise<{ message: string }> => {
-    const transfer = await prisma.transfer.findUnique({
-      where: { id }
-    });
+  // GET in-transit ledger - dispatched stock not yet received, per destination and product
+  getInTransitStockService = async (scope?: WarehouseScope): Promise<any[]> => {
+    const where: any = { status: "IN_TRANSIT" };
 
-    if (!transfer) {
-      throw new Error("Transfer not found");
+    const scopeCondition = transferScopeCondition(scope);
+    if (scopeCondition) {
+      where.AND = [scopeCondition];
     }
 
-    if (transfer.status !== "PENDING") {
-      throw new Error(`Cannot delete a ${transfer.status.toLowerCase()} transfer`);
+    const transfers = await prisma.transfer.findMany({
+      where,
+      include: {
+        sourceWarehouse: {
+          select: {
+            id: true,
+            name: true,
+            code: true
+          }
+        },
+        destWarehouse: {
+          select: {
+            id: true,
+            name: true,
+            code: true
+          }
+        },
+        items: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                name: true,
+                sku: true
+              }
+            }
+          }
+        }
+      },
+      orderBy: { dispatchedAt: "asc" }
+    });
+
+    const ledger = new Map<string, any>();
+    for (const transfer of transfers) {
+      for (const item of transfer.items) {
+        const inTransit = item.dispatchedQuantity - item.receivedQuantity - item.damagedQuantity;
+        if (inTransit <= 0) continue;
+
+        const key = `${transfer.destWarehouseId}|${item.productId}`;
+        if (!ledger.has(key)) {
+          ledger.set(key, {
+            warehouse: transfer.destWarehouse,
+            product: item.product,
+            quantity: 0,
+            transfers: []
+          });
+        }
+
+        const entry = ledger.get(key);
+        entry.quantity += inTransit;
+        entry.transfers.push({
+          id: transfer.id,
+          transferNumber: transfer.transferNumber,
+          sourceWarehouse: transfer.sourceWarehouse,
+          quantity: inTransit,
+          dispatchedAt: transfer.dispatchedAt,
+          estimatedArrival: transfer.estimatedArrival
+        });
+      }
     }
 
+    return Array.from(ledger.values());
+  };
+
+  // DELETE transfer (only before dispatch)
+  deleteTransferService = async (
+    id: string,
+    scope?: WarehouseScope
+  ): Promise<{ message: string }> => {
     await prisma.$transaction(async (tx) => {
+      // Cancelled first, so a concurrent cancel or dispatch cannot act on it as well
+      const transfer = await this.claimTransferInTx(tx, id, UNDISPATCHED_STATUSES, scope, {
+        status: "CANCELLED"
+      });
+      await this.releaseReservationsInTx(tx, transfer);
+
       // Delete transfer items first
       await tx.transferItem.deleteMany({
         where: { transferId: id }
@@ -716,8 +1236,9 @@ export default class TransferServices {
   };
 
   // GET transfer statistics
-  getTransferStatisticsService = async (): Promise<TransferStatistics> => {
+  getTransferStatisticsService = async (scope?: WarehouseScope): Promise<TransferStatistics> => {
     const transfers = await prisma.transfer.findMany({
+      where: transferScopeCondition(scope),
       include: {
         sourceWarehouse: true,
         destWarehouse: true,
@@ -726,6 +1247,7 @@ export default class TransferServices {
     });
 
     const totalTransfers = transfers.length;
+    const awaitingApprovalTransfers = transfers.filter(t => t.status === "PENDING_APPROVAL").length;
     const pendingTransfers = transfers.filter(t => t.status === "PENDING").length;
     const inTransitTransfers = transfers.filter(t => t.status === "IN_TRANSIT").length;
     const completedTransfers = transfers.filter(t => t.status === "COMPLETED").length;
@@ -788,6 +1310,7 @@ export default class TransferServices {
     return {
       counts: {
         totalTransfers,
+        awaitingApprovalTransfers,
         pendingTransfers,
         inTransitTransfers,
         completedTransfers,
@@ -806,4 +1329,182 @@ export default class TransferServices {
       topDestinationWarehouses
     };
   };
-}
\ No newline at end of file
+
+  // Helper: stock only moves through dispatch and receipt, so a plain status change can
+  // only cancel a transfer that has not left the source yet
+  private assertStatusChange = (from: string, to: TransferStatus): void => {
+    const allowedNextStatuses = validStatusChanges[from] || [];
+    if (!allowedNextStatuses.includes(to)) {
+      throw new InvalidTransitionError(
+        `Invalid status transition from ${from} to ${to}; transfers are dispatched and received through their own actions`,
+        { from, to }
+      );
+    }
+  };
+
+  // Helper: a transfer goes to approval when it exceeds either configured threshold
+  private requiresApproval = async (
+    items: { productId: string; quantity: number }[]
+  ): Promise<boolean> => {
+    const [valueThreshold, quantityThreshold] = await Promise.all([
+      getSetting("transfer.approvalValueThreshold"),
+      getSetting("transfer.approvalQuantityThreshold")
+    ]);
+
+    const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
+    if (quantityThreshold > 0 && totalQuantity > quantityThreshold) {
+      return true;
+    }
+
+    if (valueThreshold > 0) {
+      const products = await prisma.product.findMany({
+        where: { id: { in: items.map((item) => item.productId) } },
+        select: { id: true, costPrice: true }
+      });
+      const totalValue = items.reduce((sum, item) => {
+        const product = products.find((p) => p.id === item.productId);
+        return sum + item.quantity * (product?.costPrice || 0);
+      }, 0);
+
+      return totalValue > valueThreshold;
+    }
+
+    return false;
+  };
+
+  // Helper: emissions of carrying the items between the warehouses by the transport mode
+  private estimateCarbon = async (
+    sourceWarehouse: { latitude: number | null; longitude: number | null },
+    destinationWarehouse: { latitude: number | null; longitude: number | null },
+    items: { productId: string; quantity: number }[],
+    transportMode: TransportMode
+  ): Promise<TransportEstimate> => {
+    const products = await prisma.product.findMany({
+      where: { id: { in: items.map((item) => item.productId) } },
+      select: { id: true, weight: true }
+    });
+    const weightKg = items.reduce((sum, item) => {
+      const product = products.find((p) => p.id === item.productId);
+      return sum + item.quantity * unitWeightKg(product);
+    }, 0);
+
+    const [kgPerTonneKm, fallbackKgPerKg] = await Promise.all([
+      getSetting(TRANSPORT_EMISSION_SETTINGS[transportMode]),
+      getSetting("carbon.transportKgPerKg")
+    ]);
+
+    return estimateTransportCarbon({
+      from: coordinatesOf(sourceWarehouse),
+      to: coordinatesOf(destinationWarehouse),
+      weightKg,
+      kgPerTonneKm,
+      fallbackKgPerKg
+    });
+  };
+
+  // Helper: move a transfer on from one of the expected statuses and load it. The write is
+  // conditional, so of two requests acting on the same transfer only the first gets past
+  // this point; the other fails before it has moved any stock.
+  private claimTransferInTx = async (
+    tx: TransactionClient,
+    id: string,
+    from: string[],
+    scope: WarehouseScope | undefined,
+    data: { status: TransferStatus; [field: string]: unknown }
+  ) => {
+    const { count } = await tx.transfer.updateMany({
+      where: { id, status: { in: from } },
+      data
+    });
+
+    const transfer = await tx.transfer.findUnique({
+      where: { id },
+      include: {
+        items: true
+      }
+    });
+
+    if (!transfer) {
+      throw new NotFoundError("Transfer");
+    }
+
+    this.assertTransferAccess(transfer, scope);
+
+    if (count !== 1) {
+      throw new InvalidTransitionError(
+        `Invalid status transition from ${transfer.status} to ${data.status}`,
+        { from: transfer.status, to: data.status }
+      );
+    }
+
+    return transfer;
+  };
+
+  // Helper: give the units a pending transfer holds back to its source warehouse
+  private releaseReservationsInTx = async (
+    tx: TransactionClient,
+    transfer: {
+      id: string;
+      sourceWarehouseId: string;
+      items: { id: string; productId: string; reservedQuantity: number }[];
+    }
+  ): Promise<void> => {
+    for (const item of transfer.items) {
+      if (item.reservedQuantity === 0) continue;
+
+      await releaseStock(tx, transfer.sourceWarehouseId, item.productId, item.reservedQuantity, {
+        referenceType: "TRANSFER",
+        referenceId: transfer.id
+      });
+      await tx.transferItem.update({
+        where: { id: item.id },
+        data: { reservedQuantity: 0 }
+      });
+    }
+  };
+
+  // Helper: one transaction line per product, however many transfer lines carry it
+  private sumByProduct = (
+    lines: { productId: string; quantity: number }[]
+  ): { productId: string; quantity: number }[] => {
+    const totals = new Map<string, number>();
+    for (const line of lines) {
+      totals.set(line.productId, (totals.get(line.productId) || 0) + line.quantity);
+    }
+    return Array.from(totals, ([productId, quantity]) => ({ productId, quantity }));
+  };
+
+  // Helper: add the units lost in transit to each line of a received transfer
+  private withDiscrepancies = <T extends { status: string; items: any[] }>(transfer: T): T => {
+    if (transfer.status !== "COMPLETED") return transfer;
+
+    return {
+      ...transfer,
+      items: transfer.items.map((item) => ({
+        ...item,
+        missingQuantity: item.dispatchedQuantity - item.receivedQuantity - item.damagedQuantity
+      }))
+    };
+  };
+
+  // Helper: a transfer is accessible when either warehouse is in scope
+  private canAccessTransfer = (
+    transfer: { sourceWarehouseId: string; destWarehouseId: string },
+    scope?: WarehouseScope
+  ): boolean => {
+    return (
+      canAccessWarehouse(scope, transfer.sourceWarehouseId) ||
+      canAccessWarehouse(scope, transfer.destWarehouseId)
+    );
+  };
+
+  // Helper: throw when the transfer is outside the caller's scope
+  private assertTransferAccess = (
+    transfer: { sourceWarehouseId: string; destWarehouseId: string },
+    scope?: WarehouseScope
+  ): void => {
+    if (!this.canAccessTransfer(transfer, scope)) {
+      throw new ForbiddenError(WAREHOUSE_ACCESS_DENIED);
+    }
+  };
+}
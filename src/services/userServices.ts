@@ -0,0 +1,353 @@
+import { Prisma } from "../../generated/prisma";
+import { prisma, TransactionClient } from "../lib/db";
+import { ConflictError, InvalidTransitionError, NotFoundError, ValidationError } from "../lib/errors";
+import { Role } from "../lib/permissions";
+import { CreateUserInput, UpdateUserInput } from "../schemas/userSchemas";
+
+interface SearchParams {
+  search: string;
+  currentPage: number;
+  limit: number;
+  filters: Record<string, any>;
+  sort: { field: string; order: "asc" | "desc" };
+}
+
+interface SearchResult {
+  data: any[];
+  pagination: {
+    currentPage: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+const LAST_ADMIN_ERROR = "Cannot remove the last active admin";
+
+// Two admins demoting or deactivating each other at once would both see the other still
+// active; serializable isolation makes the database abort one of them instead
+const LAST_ADMIN_ISOLATION = {
+  isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+};
+
+const userInclude = {
+  managedWarehouses: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+    },
+  },
+};
+
+export default class UserServices {
+  // MAIN SEARCH METHOD with pagination
+  searchUsersService = async (params: SearchParams): Promise<SearchResult> => {
+    const { search, currentPage, limit, filters } = params;
+
+    const sort = params.sort || { field: "createdAt", order: "desc" };
+
+    const skip = (currentPage - 1) * limit;
+
+    // Build WHERE clause
+    const where: any = {
+      AND: [],
+    };
+
+    if (search) {
+      where.AND.push({
+        OR: [
+          { email: { contains: search, mode: "insensitive" } },
+          { firstName: { contains: search, mode: "insensitive" } },
+          { lastName: { contains: search, mode: "insensitive" } },
+          { department: { contains: search, mode: "insensitive" } },
+        ],
+      });
+    }
+
+    // Apply filters
+    if (filters.role) {
+      where.AND.push({ role: filters.role });
+    }
+    if (filters.department) {
+      where.AND.push({ department: filters.department });
+    }
+    if (filters.isActive !== undefined) {
+      where.AND.push({ isActive: filters.isActive === true || filters.isActive === "true" });
+    }
+
+    // Remove empty AND array
+    if (where.AND.length === 0) {
+      delete where.AND;
+    }
+
+    // Build ORDER BY
+    const orderBy: any = {};
+    if (sort && sort.field) {
+      orderBy[sort.field] = sort.order;
+    } else {
+      orderBy.createdAt = "desc";
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        include: userInclude,
+        orderBy,
+        skip,
+        take: limit,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        currentPage,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: currentPage * limit < total,
+        hasPrev: currentPage > 1,
+      },
+    };
+  };
+
+  // GET user by ID (single record)
+  getUserByIdService = async (id: string): Promise<any> => {
+    const user = await prisma.user.findUnique({
+      where: { id },
+      include: userInclude,
+    });
+
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+
+    return user;
+  };
+
+  // CREATE (invite) a user linked to an existing external auth identity
+  createUserService = async (data: CreateUserInput): Promise<any> => {
+    const role = data.role || "staff";
+
+    const email = data.email.trim().toLowerCase();
+
+    const existing = await prisma.user.findFirst({
+      where: {
+        OR: [{ email }, { supabaseUid: data.supabaseUid }],
+      },
+    });
+    if (existing) {
+      throw new ConflictError(
+        existing.email === email
+          ? `User with email ${email} already exists`
+          : "User with this supabaseUid already exists",
+      );
+    }
+
+    return await prisma.user.create({
+      data: {
+        supabaseUid: data.supabaseUid,
+        email,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        role,
+        department: data.department,
+      },
+      include: userInclude,
+    });
+  };
+
+  // UPDATE profile fields (role and activation have their own endpoints)
+  updateUserService = async (id: string, data: UpdateUserInput): Promise<any> => {
+    const existing = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("User");
+    }
+
+    let email: string | undefined;
+    if (data.email) {
+      email = data.email.trim().toLowerCase();
+      const duplicate = await prisma.user.findFirst({
+        where: { email, id: { not: id } },
+      });
+      if (duplicate) {
+        throw new ConflictError(`User with email ${email} already exists`);
+      }
+    }
+
+    return await prisma.user.update({
+      where: { id },
+      data: {
+        email,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        department: data.department,
+      },
+      include: userInclude,
+    });
+  };
+
+  // CHANGE role
+  changeRoleService = async (id: string, role: Role): Promise<any> => {
+    return await prisma.$transaction(async (tx) => {
+      const existing = await tx.user.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        throw new NotFoundError("User");
+      }
+
+      if (existing.role === "admin" && role !== "admin" && existing.isActive) {
+        await this.assertNotLastAdmin(tx, id);
+      }
+
+      return await tx.user.update({
+        where: { id },
+        data: { role },
+        include: userInclude,
+      });
+    }, LAST_ADMIN_ISOLATION);
+  };
+
+  // DEACTIVATE user (blocked for the last active admin)
+  deactivateUserService = async (id: string, actingUserId: string): Promise<any> => {
+    if (id === actingUserId) {
+      throw new ValidationError("You cannot deactivate your own account");
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const existing = await tx.user.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        throw new NotFoundError("User");
+      }
+
+      if (!existing.isActive) {
+        throw new InvalidTransitionError("User is already inactive");
+      }
+
+      if (existing.role === "admin") {
+        await this.assertNotLastAdmin(tx, id);
+      }
+
+      return await tx.user.update({
+        where: { id },
+        data: { isActive: false },
+        include: userInclude,
+      });
+    }, LAST_ADMIN_ISOLATION);
+  };
+
+  // REACTIVATE user
+  reactivateUserService = async (id: string): Promise<any> => {
+    const existing = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError("User");
+    }
+
+    if (existing.isActive) {
+      throw new InvalidTransitionError("User is already active");
+    }
+
+    return await prisma.user.update({
+      where: { id },
+      data: { isActive: true },
+      include: userInclude,
+    });
+  };
+
+  // GET activity summary, optionally limited to a date range
+  getUserActivityService = async (
+    id: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<any> => {
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        isActive: true,
+        lastLoginAt: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+
+    const dateRange: any = {};
+    if (startDate) dateRange.gte = startDate;
+    if (endDate) dateRange.lte = endDate;
+    const range = Object.keys(dateRange).length > 0 ? dateRange : undefined;
+
+    const [
+      ordersCreated,
+      transfersRequested,
+      transactionsPerformed,
+      recyclingRecordsProcessed,
+      transactionsByType,
+    ] = await Promise.all([
+      prisma.order.count({
+        where: { createdById: id, orderDate: range },
+      }),
+      prisma.transfer.count({
+        where: { requestedById: id, requestDate: range },
+      }),
+      prisma.transaction.count({
+        where: { performedById: id, transactionDate: range },
+      }),
+      prisma.recyclingRecord.count({
+        where: { processedById: id, processedDate: range },
+      }),
+      prisma.transaction.groupBy({
+        by: ["type"],
+        where: { performedById: id, transactionDate: range },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return {
+      user,
+      period: {
+        startDate: startDate || null,
+        endDate: endDate || null,
+      },
+      ordersCreated,
+      transfersRequested,
+      transactionsPerformed,
+      recyclingRecordsProcessed,
+      transactionsByType: transactionsByType.reduce((acc: Record<string, number>, row) => {
+        acc[row.type] = row._count._all;
+        return acc;
+      }, {}),
+    };
+  };
+
+  // Helper: make sure another active admin remains
+  private assertNotLastAdmin = async (tx: TransactionClient, id: string) => {
+    const otherAdmins = await tx.user.count({
+      where: { role: "admin", isActive: true, id: { not: id } },
+    });
+
+    if (otherAdmins === 0) {
+      throw new ConflictError(LAST_ADMIN_ERROR);
+    }
+  };
+}
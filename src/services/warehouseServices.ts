@@ -1,4 +1,6 @@
 import { prisma } from "../lib/db";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import { CreateWarehouseInput, UpdateWarehouseInput } from "../schemas/warehouseSchemas";
 
 interface SearchParams {
   search: string;
@@ -164,7 +166,7 @@ export default class WarehouseServices {
 
   // GET warehouse by ID
   getWarehouseByIdService = async (id: string) => {
-    return await prisma.warehouse.findUnique({
+    const warehouse = await prisma.warehouse.findUnique({
       where: { id },
       include: {
         manager: true,
@@ -204,51 +206,36 @@ export default class WarehouseServices {
         },
       },
     });
-  };
 
-  // CREATE warehouse
-  createWarehouseService = async (data: any) => {
-    // Validate required fields
-    const required = [
-      "code",
-      "name",
-      "location",
-      "address",
-      "city",
-      "country",
-      "capacity",
-    ];
-    for (const field of required) {
-      if (!data[field]) {
-        throw new Error(`Missing required field: ${field}`);
-      }
+    if (!warehouse) {
+      throw new NotFoundError("Warehouse");
     }
 
+    return warehouse;
+  };
+
+  // CREATE warehouse
+  createWarehouseService = async (data: CreateWarehouseInput) => {
     // Check if code already exists
     const existing = await prisma.warehouse.findUnique({
       where: { code: data.code },
     });
 
     if (existing) {
-      throw new Error("Warehouse code already exists");
+      throw new ConflictError("Warehouse code already exists");
     }
 
     return await prisma.warehouse.create({
       data: {
         ...data,
-        capacity: parseInt(data.capacity),
-        solarPercentage: data.solarPercentage
-          ? parseFloat(data.solarPercentage)
-          : null,
-        carbonPerSqMeter: data.carbonPerSqMeter
-          ? parseFloat(data.carbonPerSqMeter)
-          : null,
+        solarPercentage: data.solarPercentage ?? null,
+        carbonPerSqMeter: data.carbonPerSqMeter ?? null,
       },
     });
   };
 
   // UPDATE warehouse
-  updateWarehouseService = async (id: string, data: any) => {
+  updateWarehouseService = async (id: string, data: UpdateWarehouseInput) => {
     return await prisma.warehouse.update({
       where: { id },
       data,
@@ -263,7 +250,7 @@ export default class WarehouseServices {
     });
 
     if (inventoryCount > 0) {
-      throw new Error(
+      throw new ConflictError(
         "Cannot delete warehouse with inventory. Transfer or remove inventory first.",
       );
     }